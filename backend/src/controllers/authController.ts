@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import { ANONYMOUS_USER_ID, getAuthConfig, issueToken, verifyCredential } from '../middleware/auth';
+import { StreamTickets } from '../services/streamTickets';
+import { ApiResponse } from '../types';
+
+/**
+ * Controller that exchanges a user's API key (or a long-lived JWT) for a
+ * short-lived bearer token, so the frontend never has to embed a credential
+ */
+export const loginController = async (req: Request, res: Response): Promise<void> => {
+  const { apiKey } = req.body || {};
+
+  if (!apiKey || typeof apiKey !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'API key is required.'
+    } as ApiResponse);
+    return;
+  }
+
+  const config = getAuthConfig();
+  const user = config.disabled ? { id: ANONYMOUS_USER_ID } : verifyCredential(apiKey.trim(), config);
+  if (!user) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid API key.',
+      code: 'AUTH_INVALID'
+    } as ApiResponse);
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: issueToken(user.id, config),
+    message: 'Signed in.'
+  } as ApiResponse);
+};
+
+/**
+ * Controller reporting who the request is authenticated as
+ */
+export const currentUserController = async (req: Request, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    data: { userId: req.user?.id ?? ANONYMOUS_USER_ID, method: req.user?.method ?? 'anonymous' }
+  } as ApiResponse);
+};
+
+/**
+ * Controller that issues a single-use ticket for opening an event stream
+ */
+export const streamTicketController = async (req: Request, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    data: StreamTickets.issue(req.user ?? { id: ANONYMOUS_USER_ID, method: 'anonymous' })
+  } as ApiResponse);
+};
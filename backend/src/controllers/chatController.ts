@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { GeminiService } from '../services/geminiService';
-import { InMemoryStore } from '../utils/inMemoryStore';
+import { getSessionStore } from '../services/storage';
+import { sendQuotaExceeded } from '../middleware/rateLimit';
+import { loadOwnedSession } from '../utils/sessionErrors';
 import { ApiResponse } from '../types';
 
 /**
@@ -20,14 +22,26 @@ export const chatController = async (req: Request, res: Response): Promise<void>
 
 
     // Get session context if available
+    const store = getSessionStore();
     let sessionContext = null;
     if (sessionId) {
-      sessionContext = InMemoryStore.get(sessionId);
+      // Unknown sessions just mean no context, but dropped or other users' sessions are worth rejecting
+      if ((await store.status(sessionId)) !== 'missing') {
+        sessionContext = await loadOwnedSession(req, res, sessionId);
+        if (!sessionContext) {
+          return;
+        }
+      }
     }
 
     // Use Gemini to generate a conversational response with context
     const response = await GeminiService.generateChatResponse(message.trim(), sessionContext);
     
+    if (response.quotaExceeded) {
+      sendQuotaExceeded(res, response.quotaExceeded);
+      return;
+    }
+
     if (!response.success) {
       res.status(500).json({
         success: false,
@@ -36,10 +50,26 @@ export const chatController = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    // Keep the conversation with the session so it survives restarts
+    if (sessionContext) {
+      const now = new Date();
+      await store.appendChatHistory(sessionId, [
+        { role: 'user', content: message.trim(), timestamp: now },
+        {
+          role: 'assistant',
+          content: response.message || '',
+          timestamp: now,
+          ...(response.toolCalls?.length ? { toolCalls: response.toolCalls } : {})
+        }
+      ]);
+    }
+
     res.json({
       success: true,
       data: {
-        response: response.message
+        response: response.message,
+        ...(response.context ? { context: response.context } : {}),
+        ...(response.toolCalls ? { toolCalls: response.toolCalls } : {})
       },
       message: 'Chat response generated successfully'
     } as ApiResponse);
@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import { getSessionStore } from '../services/storage';
+import { loadOwnedSession } from '../utils/sessionErrors';
+import { ApiResponse } from '../types';
+
+/**
+ * Controller for fetching a session's conversation history, oldest message first
+ */
+export const chatHistoryController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessionData = await loadOwnedSession(req, res, req.params.id);
+    if (!sessionData) {
+      return;
+    }
+
+    const history = sessionData.chatHistory || [];
+
+    res.json({
+      success: true,
+      data: {
+        sessionId: req.params.id,
+        messages: history
+      },
+      message: `${history.length} message(s) in this conversation.`
+    } as ApiResponse);
+
+  } catch (error) {
+    // Chat history controller error
+
+    res.status(500).json({
+      success: false,
+      error: 'An error occurred while loading the conversation. Please try again.'
+    } as ApiResponse);
+  }
+};
+
+/**
+ * Controller for clearing a session's conversation history (the uploaded data and summaries are kept)
+ */
+export const clearChatHistoryController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessionData = await loadOwnedSession(req, res, req.params.id);
+    if (!sessionData) {
+      return;
+    }
+
+    await getSessionStore().update(req.params.id, { chatHistory: [] });
+
+    res.json({
+      success: true,
+      data: {
+        sessionId: req.params.id,
+        clearedCount: sessionData.chatHistory?.length || 0
+      },
+      message: 'Conversation history cleared.'
+    } as ApiResponse);
+
+  } catch (error) {
+    // Clear chat history controller error
+
+    res.status(500).json({
+      success: false,
+      error: 'An error occurred while clearing the conversation. Please try again.'
+    } as ApiResponse);
+  }
+};
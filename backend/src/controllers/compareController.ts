@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { CVEEnricher } from '../services/cveEnricher';
+import { GeminiService } from '../services/geminiService';
+import { LLMBudget } from '../services/llmBudget';
+import { SessionDiff } from '../services/sessionDiff';
+import { sendQuotaExceeded } from '../middleware/rateLimit';
+import { loadOwnedSession } from '../utils/sessionErrors';
+import { ApiResponse } from '../types';
+
+/**
+ * Controller for comparing two uploads of the same estate: a structured diff
+ * (hosts matched by IP) plus a written change narrative
+ */
+export const compareController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { baseSessionId, targetSessionId, localOnly } = req.body;
+
+    if (!baseSessionId || !targetSessionId || typeof baseSessionId !== 'string' || typeof targetSessionId !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'baseSessionId (the earlier upload) and targetSessionId (the later upload) are required.'
+      } as ApiResponse);
+      return;
+    }
+
+    if (baseSessionId === targetSessionId) {
+      res.status(400).json({
+        success: false,
+        error: 'Choose two different sessions to compare.'
+      } as ApiResponse);
+      return;
+    }
+
+    // Both uploads must belong to the caller
+    const base = await loadOwnedSession(req, res, baseSessionId);
+    if (!base) {
+      return;
+    }
+    const target = await loadOwnedSession(req, res, targetSessionId);
+    if (!target) {
+      return;
+    }
+
+    // The narrative is the only LLM call; don't make one while the shared budget is used up
+    const quotaExceeded = localOnly === true ? null : LLMBudget.exceeded();
+    if (quotaExceeded) {
+      sendQuotaExceeded(res, quotaExceeded);
+      return;
+    }
+
+    // Enrich both sides so new CVEs carry scores and known-exploited flags
+    const diff = SessionDiff.compare(
+      baseSessionId,
+      await CVEEnricher.enrichHosts(base.data?.hosts || []),
+      targetSessionId,
+      await CVEEnricher.enrichHosts(target.data?.hosts || [])
+    );
+    const { narrative, source } = await GeminiService.generateChangeNarrative(
+      diff,
+      { base: `${base.originalFilename} (uploaded ${base.uploadedAt.toISOString()})`, target: `${target.originalFilename} (uploaded ${target.uploadedAt.toISOString()})` },
+      { localOnly: localOnly === true }
+    );
+
+    res.json({
+      success: true,
+      data: {
+        diff,
+        narrative,
+        narrativeSource: source
+      },
+      message: `${diff.summary.hostsAdded} added, ${diff.summary.hostsRemoved} removed and ${diff.summary.hostsChanged} changed host(s).`
+    } as ApiResponse);
+
+  } catch (error) {
+    // Compare controller error
+
+    res.status(500).json({
+      success: false,
+      error: 'An error occurred while comparing the uploads. Please try again.'
+    } as ApiResponse);
+  }
+};
@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { CVEEnricher } from '../services/cveEnricher';
+import { HostQueryEngine } from '../services/hostQuery';
+import { loadOwnedSession } from '../utils/sessionErrors';
+import { ApiResponse } from '../types';
+
+/**
+ * Controller for listing a session's hosts with filters, sorting and pagination
+ */
+export const hostsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { query, errors } = HostQueryEngine.parse(req.query as Record<string, unknown>);
+    if (!query) {
+      res.status(400).json({
+        success: false,
+        error: errors.join('; '),
+        code: 'INVALID_QUERY'
+      } as ApiResponse);
+      return;
+    }
+
+    const sessionData = await loadOwnedSession(req, res, req.params.id);
+    if (!sessionData) {
+      return;
+    }
+
+    // Enrich first so CVSS filters and sorting see scores from the local NVD feed
+    const hosts = await CVEEnricher.enrichHosts(sessionData.data?.hosts || []);
+    const result = HostQueryEngine.run(hosts, query);
+
+    res.json({
+      success: true,
+      data: {
+        sessionId: req.params.id,
+        ...result
+      },
+      message: `${result.total} of ${hosts.length} host(s) match.`
+    } as ApiResponse);
+
+  } catch (error) {
+    // Hosts controller error
+
+    res.status(500).json({
+      success: false,
+      error: 'An error occurred while querying hosts. Please try again.'
+    } as ApiResponse);
+  }
+};
@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { currentUserId } from '../middleware/auth';
+import { RiskScorer } from '../services/riskScorer';
+import { SummarizationJobs } from '../services/summarizationJobs';
+import { ApiResponse } from '../types';
+
+/**
+ * Controller for reporting summarization job status, progress and partial results.
+ * Summaries are in host order unless ?sort=risk is given (&order=asc|desc, default desc).
+ */
+export const jobStatusController = async (req: Request, res: Response): Promise<void> => {
+  const job = SummarizationJobs.get(req.params.id, currentUserId(req));
+
+  if (!job) {
+    res.status(404).json({
+      success: false,
+      error: 'Job not found or expired.'
+    } as ApiResponse);
+    return;
+  }
+
+  const { sort, order } = req.query;
+  if ((sort !== undefined && sort !== 'risk') || (order !== undefined && order !== 'asc' && order !== 'desc')) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid sort. Use sort=risk with an optional order=asc or order=desc.'
+    } as ApiResponse);
+    return;
+  }
+
+  const message = job.status === 'completed'
+    ? `Successfully generated summaries for ${job.processedCount} host(s). Is there anything else you'd like me to help you summarize?`
+    : `Summarized ${job.processedCount} of ${job.totalCount} host(s).`;
+
+  res.json({
+    success: true,
+    data: sort === 'risk' ? { ...job, summaries: RiskScorer.sortSummaries(job.summaries, order as 'asc' | 'desc' | undefined) } : job,
+    message
+  } as ApiResponse);
+};
+
+/**
+ * Controller for cancelling a running summarization job
+ */
+export const cancelJobController = async (req: Request, res: Response): Promise<void> => {
+  const job = SummarizationJobs.get(req.params.id, currentUserId(req));
+
+  if (!job) {
+    res.status(404).json({
+      success: false,
+      error: 'Job not found or expired.'
+    } as ApiResponse);
+    return;
+  }
+
+  if (!SummarizationJobs.cancel(job.id)) {
+    res.status(409).json({
+      success: false,
+      error: `Job has already ${job.status}.`
+    } as ApiResponse);
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: job,
+    message: 'Summarization job cancelled.'
+  } as ApiResponse);
+};
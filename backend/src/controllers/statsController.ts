@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { CVEEnricher } from '../services/cveEnricher';
+import { DatasetStats, DEFAULT_TOP_N } from '../services/datasetStats';
+import { loadOwnedSession } from '../utils/sessionErrors';
+import { ApiResponse } from '../types';
+
+const MAX_TOP_N = 100;
+
+/**
+ * Controller for fleet-level statistics of a session's hosts (counts, top-N lists, CVSS histogram, certificate expiry)
+ */
+export const statsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const top = req.query.top === undefined ? DEFAULT_TOP_N : Number(req.query.top);
+    if (!Number.isInteger(top) || top < 1 || top > MAX_TOP_N) {
+      res.status(400).json({
+        success: false,
+        error: `top must be a whole number from 1 to ${MAX_TOP_N}`,
+        code: 'INVALID_QUERY'
+      } as ApiResponse);
+      return;
+    }
+
+    const sessionData = await loadOwnedSession(req, res, req.params.id);
+    if (!sessionData) {
+      return;
+    }
+
+    // Enrich first so severities and the CVSS histogram include scores from the local NVD feed
+    const hosts = await CVEEnricher.enrichHosts(sessionData.data?.hosts || []);
+    const stats = DatasetStats.compute(hosts, sessionData.summaries || [], top);
+
+    res.json({
+      success: true,
+      data: {
+        sessionId: req.params.id,
+        ...stats
+      },
+      message: `Statistics for ${stats.totals.hosts} host(s).`
+    } as ApiResponse);
+
+  } catch (error) {
+    // Stats controller error
+
+    res.status(500).json({
+      success: false,
+      error: 'An error occurred while computing statistics. Please try again.'
+    } as ApiResponse);
+  }
+};
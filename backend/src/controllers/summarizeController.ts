@@ -1,15 +1,17 @@
 import { Request, Response } from 'express';
-import fs from 'fs/promises';
-import { GeminiService } from '../services/geminiService';
-import { InMemoryStore } from '../utils/inMemoryStore';
-import { ApiResponse, ProcessingResult } from '../types';
+import { SummarizationJobs } from '../services/summarizationJobs';
+import { LLMBudget } from '../services/llmBudget';
+import { sendQuotaExceeded } from '../middleware/rateLimit';
+import { loadOwnedSession } from '../utils/sessionErrors';
+import { ApiResponse } from '../types';
 
 /**
- * Controller for handling summarization requests
+ * Controller for handling summarization requests.
+ * Summarization runs as a background job; poll GET /api/jobs/:id for progress.
  */
 export const summarizeController = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { sessionId } = req.body;
+    const { sessionId, localOnly } = req.body;
     
     if (!sessionId) {
       res.status(400).json({
@@ -19,55 +21,31 @@ export const summarizeController = async (req: Request, res: Response): Promise<
       return;
     }
 
-    // Retrieve data from memory store
-    const sessionData = InMemoryStore.get(sessionId);
+    // Retrieve data from the session store, only for the user who uploaded it
+    const sessionData = await loadOwnedSession(req, res, sessionId);
     
     if (!sessionData) {
-      res.status(404).json({
-        success: false,
-        error: 'Session not found or expired. Please upload your file again.'
-      } as ApiResponse);
       return;
     }
 
-
-    // Process the data with Gemini AI
-    const result: ProcessingResult = await GeminiService.summarizeHosts(sessionData.data);
-    
-    if (!result.success) {
-      res.status(500).json({
-        success: false,
-        error: result.error || 'Failed to generate summaries'
-      } as ApiResponse);
+    // Don't start an LLM job while the shared budget is used up
+    const quotaExceeded = localOnly === true ? null : LLMBudget.exceeded();
+    if (quotaExceeded) {
+      sendQuotaExceeded(res, quotaExceeded);
       return;
     }
 
-    // Clean up uploaded file but keep session data with summaries for context
-    try {
-      if (sessionData.filePath) {
-        await fs.unlink(sessionData.filePath);
-      }
-
-      // Update session data to include summaries and remove file path
-      InMemoryStore.store(sessionId, {
-        ...sessionData,
-        summaries: result.summaries,
-        filePath: undefined
-      });
-
-    } catch (cleanupError) {
-      // Cleanup warning
-    }
-
+    // Start summarizing with the LLM, or locally when the caller opts out of AI
+    const job = await SummarizationJobs.start(sessionId, { localOnly: localOnly === true });
 
-    res.json({
+    res.status(202).json({
       success: true,
       data: {
-        summaries: result.summaries,
-        processedCount: result.processedCount,
-        totalCount: result.totalCount
+        jobId: job.id,
+        status: job.status,
+        totalCount: job.totalCount
       },
-      message: `Successfully generated summaries for ${result.processedCount} host(s). Is there anything else you'd like me to help you summarize?`
+      message: `Summarization started for ${job.totalCount} host(s).`
     } as ApiResponse);
 
   } catch (error) {
@@ -78,4 +56,4 @@ export const summarizeController = async (req: Request, res: Response): Promise<
       error: 'An error occurred while generating summaries. Please try again.'
     } as ApiResponse);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { JobEvent, SummarizationJobs } from '../services/summarizationJobs';
+import { currentUserId } from '../middleware/auth';
+import { sendQuotaExceeded } from '../middleware/rateLimit';
+import { LLMBudget } from '../services/llmBudget';
+import { loadOwnedSession } from '../utils/sessionErrors';
+import { ApiResponse, SummarizationJob } from '../types';
+
+/**
+ * Write a single Server-Sent Event
+ */
+const sendEvent = (res: Response, event: string, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Stream a job's events to the client: replays summaries finished so far,
+ * then emits summary/progress/error events live until a final done event.
+ */
+const streamJob = (req: Request, res: Response, job: SummarizationJob): void => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  const progress = () => ({
+    jobId: job.id,
+    status: job.status,
+    processedCount: job.processedCount,
+    totalCount: job.totalCount
+  });
+
+  sendEvent(res, 'progress', progress());
+  job.summaries.forEach(summary => sendEvent(res, 'summary', summary));
+
+  if (job.status !== 'running') {
+    sendEvent(res, 'done', job);
+    res.end();
+    return;
+  }
+
+  const unsubscribe = SummarizationJobs.subscribe(job.id, (event: JobEvent) => {
+    switch (event.type) {
+      case 'summary':
+        sendEvent(res, 'summary', event.summary);
+        sendEvent(res, 'progress', progress());
+        break;
+      case 'error':
+        sendEvent(res, 'error', { ip: event.ip, error: event.error });
+        break;
+      case 'done':
+        if (event.job.error && event.job.status === 'failed') {
+          sendEvent(res, 'error', { error: event.job.error });
+        }
+        sendEvent(res, 'done', event.job);
+        res.end();
+        break;
+    }
+  });
+
+  // The job keeps running if the client disconnects; it can reconnect via the job ID
+  req.on('close', () => unsubscribe?.());
+};
+
+/**
+ * Controller that starts (or joins) summarization for a session and streams per-host results
+ */
+export const summarizeStreamController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessionId = req.query.sessionId;
+    const localOnly = req.query.localOnly === 'true';
+
+    if (!sessionId || typeof sessionId !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Session ID is required. Please upload a file first.'
+      } as ApiResponse);
+      return;
+    }
+
+    if (!(await loadOwnedSession(req, res, sessionId))) {
+      return;
+    }
+
+    const quotaExceeded = localOnly ? null : LLMBudget.exceeded();
+    if (quotaExceeded) {
+      sendQuotaExceeded(res, quotaExceeded);
+      return;
+    }
+
+    streamJob(req, res, await SummarizationJobs.start(sessionId, { localOnly }));
+
+  } catch (error) {
+    // Summarize stream controller error
+
+    res.status(500).json({
+      success: false,
+      error: 'An error occurred while generating summaries. Please try again.'
+    } as ApiResponse);
+  }
+};
+
+/**
+ * Controller that streams events for an existing summarization job
+ */
+export const jobEventsController = async (req: Request, res: Response): Promise<void> => {
+  const job = SummarizationJobs.get(req.params.id, currentUserId(req));
+
+  if (!job) {
+    res.status(404).json({
+      success: false,
+      error: 'Job not found or expired.'
+    } as ApiResponse);
+    return;
+  }
+
+  streamJob(req, res, job);
+};
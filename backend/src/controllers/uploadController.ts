@@ -1,44 +1,102 @@
 import { Request, Response } from 'express';
 import fs from 'fs/promises';
-import path from 'path';
 import { DataValidator } from '../utils/dataValidator';
-import { InMemoryStore } from '../utils/inMemoryStore';
-import { ApiResponse, ValidationResult } from '../types';
+import { detectUploadFormat, isImportedFormat, parseUpload, ParsedUpload } from '../utils/uploadParser';
+import { currentUserId } from '../middleware/auth';
+import { generateSessionId, getSessionStore } from '../services/storage';
+import { HostIndex } from '../services/hostIndex';
+import { HostMerger } from '../services/hostMerger';
+import { SummarizationJobs } from '../services/summarizationJobs';
+import { SessionTooLargeError } from '../utils/inMemoryStore';
+import { loadOwnedSession, sendSessionUnavailable } from '../utils/sessionErrors';
+import { ApiResponse, CensysHost, SessionData, ValidationResult } from '../types';
 
 /**
- * Controller for handling file uploads and initial validation
+ * A running summarization job saves summaries and a search index built from
+ * the hosts it started with, so files can't be added to the session until it
+ * finishes. Sends a 409 and returns true if a job is running.
+ */
+const rejectWhileSummarizing = (res: Response, sessionId: string): boolean => {
+  const job = SummarizationJobs.running(sessionId);
+  if (!job) {
+    return false;
+  }
+
+  res.status(409).json({
+    success: false,
+    error: 'This session is being summarized. Please wait for summarization to finish (or cancel it) before adding another file.',
+    code: 'SUMMARIZATION_RUNNING',
+    data: { jobId: job.id }
+  } as ApiResponse);
+  return true;
+};
+
+/**
+ * Controller for handling file uploads and initial validation. POST /api/upload
+ * starts a new session; POST /api/sessions/:id/files adds another file to an
+ * existing one, merging hosts with the same IP.
  */
 export const uploadController = async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.file) {
       res.status(400).json({
         success: false,
-        error: 'No file uploaded. Please select a JSON file to upload.'
+        error: 'No file uploaded. Please select a JSON, NDJSON or Nmap XML file to upload.'
       } as ApiResponse);
       return;
     }
 
-    const { filename, originalname, path: filePath } = req.file;
+    const { originalname, path: filePath } = req.file;
+
+    // Adding to a session is only allowed for its owner; check before parsing the file
+    let existingSession: SessionData | null = null;
+    if (req.params.id) {
+      existingSession = await loadOwnedSession(req, res, req.params.id);
+      if (!existingSession || rejectWhileSummarizing(res, req.params.id)) {
+        await fs.unlink(filePath).catch(() => {});
+        return;
+      }
+    }
     
     
-    // Read and parse the uploaded JSON file
-    let jsonData: any;
+    // Detect the format and stream-parse the file, checking each host as it is read
+    const format = await detectUploadFormat(filePath, originalname);
+    let upload: ParsedUpload;
     try {
-      const fileContent = await fs.readFile(filePath, 'utf-8');
-      jsonData = JSON.parse(fileContent);
+      upload = await parseUpload(filePath, format);
     } catch (parseError) {
       // Clean up the uploaded file
       await fs.unlink(filePath).catch(() => {});
       
       res.status(400).json({
         success: false,
-        error: 'Invalid JSON file. Please ensure your file contains valid JSON data.'
+        error: format === 'xml'
+          ? 'Invalid Nmap XML file. Please upload the output of "nmap -oX".'
+          : 'Invalid JSON file. Please ensure your file contains valid JSON data.'
       } as ApiResponse);
       return;
     }
 
-    // Perform comprehensive validation automatically (AI + traditional) - no user input required
-    const validation: ValidationResult = await DataValidator.validateData(jsonData, true);
+    const jsonData = upload.data;
+    const lineErrors = upload.lineErrors || [];
+    const skippedLines = upload.skippedLines || 0;
+
+    // An NDJSON file where every line was bad has nothing left to validate
+    if (format === 'ndjson' && jsonData.hosts.length === 0) {
+      await fs.unlink(filePath).catch(() => {});
+
+      const details = lineErrors.slice(0, 5).map(lineError => `line ${lineError.line}: ${lineError.error}`).join('; ');
+      res.status(400).json({
+        success: false,
+        error: `No valid hosts found in the NDJSON file.${details ? ` Errors: ${details}` : ''}`
+      } as ApiResponse);
+      return;
+    }
+
+    // Perform comprehensive validation automatically (AI + traditional) - no user input required.
+    // Imported scans aren't Censys exports, so the AI authenticity check is skipped for them.
+    const useAI = !isImportedFormat(upload.sourceFormat);
+    const validation: ValidationResult = await DataValidator.validateData(jsonData, useAI, upload.tally);
     
     if (!validation.isValid) {
       // Clean up the uploaded file
@@ -74,27 +132,85 @@ export const uploadController = async (req: Request, res: Response): Promise<voi
       return;
     }
 
-    // Store the data temporarily in memory
-    const sessionId = path.basename(filename, path.extname(filename));
-    InMemoryStore.store(sessionId, {
-      data: jsonData,
-      originalFilename: originalname,
-      uploadedAt: new Date(),
-      filePath: filePath
-    });
+    // A job may have started while the file was parsed; it would overwrite the merged summaries
+    if (existingSession && rejectWhileSummarizing(res, req.params.id)) {
+      await fs.unlink(filePath).catch(() => {});
+      return;
+    }
+
+    // Hosts with the same IP (within the file, or already in the session) are merged into one
+    const existingHosts: CensysHost[] = existingSession?.data?.hosts || [];
+    const { hosts, report: merge } = HostMerger.merge(existingHosts, jsonData.hosts);
+    const uploadedAt = new Date();
+    const file = { filename: originalname, uploadedAt, hostCount: jsonData.hosts.length };
+
+    let sessionId: string;
+    let files: SessionData['files'];
+    if (existingSession) {
+      sessionId = req.params.id;
+      files = [
+        ...(existingSession.files || [{ filename: existingSession.originalFilename, uploadedAt: existingSession.uploadedAt, hostCount: existingHosts.length }]),
+        file
+      ];
+
+      // Summaries stay valid only for hosts the new file didn't change
+      const before = new Map(existingHosts.map(host => [host?.ip, host]));
+      const after = new Map(hosts.map(host => [host.ip, host]));
+      const summaries = existingSession.summaries?.filter(summary => before.get(summary.ip) === after.get(summary.ip));
+
+      const updated = await getSessionStore().update(sessionId, {
+        data: { ...existingSession.data, hosts },
+        files,
+        summaries,
+        searchIndex: existingSession.searchIndex ? HostIndex.build(hosts, summaries) : undefined
+      });
+
+      // The hosts now live in the session; this upload's temp file isn't needed
+      await fs.unlink(filePath).catch(() => {});
+
+      // The session expired or was evicted while the file was parsed
+      if (!updated) {
+        await sendSessionUnavailable(res, sessionId);
+        return;
+      }
+    } else {
+      sessionId = generateSessionId();
+      files = [file];
+      await getSessionStore().store(sessionId, {
+        data: { ...jsonData, hosts },
+        originalFilename: originalname,
+        uploadedAt,
+        filePath: filePath,
+        ownerId: currentUserId(req),
+        files
+      });
+    }
 
 
     // Generate success message showing all validations were completed automatically
-    let successMessage = `File successfully uploaded and validated.`;
-    
+    let successMessage = existingSession
+      ? `File successfully added to the session (${files.length} files, ${merge.hostsAfter} hosts).`
+      : `File successfully uploaded and validated.`;
+    if (skippedLines > 0) {
+      successMessage += ` Skipped ${skippedLines} invalid line(s).`;
+    }
+    if (merge.hostsMerged + merge.duplicateHosts > 0) {
+      successMessage += ` Merged ${merge.hostsMerged} host(s) with the same IP and skipped ${merge.duplicateHosts} duplicate(s); ${merge.conflicts} conflict(s) resolved by last_updated_at.`;
+    }
+
 
     res.json({
       success: true,
       data: {
         sessionId,
-        hostCount: validation.hostCount,
+        hostCount: merge.hostsAfter,
         filename: originalname,
-        shouldSummarize: validation.isCensysData && validation.hostCount! >= 1,
+        files,
+        merge,
+        format,
+        sourceFormat: upload.sourceFormat,
+        ...(format === 'ndjson' ? { skippedLines, lineErrors } : {}),
+        shouldSummarize: validation.isCensysData && merge.hostsAfter >= 1,
         validationSummary: {
           structuralValidation: 'passed',
           aiValidation: validation.aiValidation ? {
@@ -115,6 +231,15 @@ export const uploadController = async (req: Request, res: Response): Promise<voi
     if (req.file?.path) {
       await fs.unlink(req.file.path).catch(() => {});
     }
+
+    if (error instanceof SessionTooLargeError) {
+      res.status(413).json({
+        success: false,
+        error: `${error.message}. Please upload a smaller file.`,
+        code: 'SESSION_TOO_LARGE'
+      } as ApiResponse);
+      return;
+    }
     
     res.status(500).json({
       success: false,
@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { StreamTickets } from '../services/streamTickets';
+import { ApiResponse, AuthConfig, AuthenticatedUser, IssuedToken } from '../types';
+
+export const ANONYMOUS_USER_ID = 'anonymous';
+
+// Allowed clock difference when checking JWT exp/nbf
+const JWT_CLOCK_SKEW_SECONDS = 30;
+
+let activeConfig: AuthConfig | null = null;
+
+/**
+ * Read authentication configuration from environment variables:
+ *   API_KEYS       comma-separated user:key pairs, e.g. "alice:3f9c...,bob:a71e..."
+ *   JWT_SECRET     shared secret for HS256 bearer tokens
+ *   AUTH_DISABLED  "true" to skip authentication entirely (local development only)
+ *   AUTH_TOKEN_TTL_MINUTES  lifetime of the tokens POST /api/auth/login issues (default 15)
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const apiKeys = new Map<string, string>();
+
+  (env.API_KEYS || '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const separator = entry.indexOf(':');
+    const userId = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (separator <= 0 || !key) {
+      throw new Error('API_KEYS entries must look like "user:key"');
+    }
+    apiKeys.set(hashKey(key), userId);
+  });
+
+  const tokenTtlMinutes = parseFloat(env.AUTH_TOKEN_TTL_MINUTES ?? '15');
+
+  const config: AuthConfig = {
+    disabled: env.AUTH_DISABLED === 'true',
+    apiKeys,
+    jwtSecret: env.JWT_SECRET || undefined,
+    // Without JWT_SECRET, issued tokens stop working when the server restarts
+    tokenSecret: env.JWT_SECRET || crypto.randomBytes(32).toString('hex'),
+    tokenTtlSeconds: Math.round((Number.isFinite(tokenTtlMinutes) && tokenTtlMinutes > 0 ? tokenTtlMinutes : 15) * 60)
+  };
+
+  if (!config.disabled && apiKeys.size === 0 && !config.jwtSecret) {
+    throw new Error('Authentication is not configured. Set API_KEYS or JWT_SECRET (or AUTH_DISABLED=true for local development).');
+  }
+
+  return config;
+}
+
+/**
+ * Get the active authentication configuration, reading the environment on first use
+ */
+export function getAuthConfig(): AuthConfig {
+  if (!activeConfig) {
+    activeConfig = loadAuthConfig();
+  }
+
+  return activeConfig;
+}
+
+/**
+ * Override the active configuration (pass null to re-read the environment on next use)
+ */
+export function setAuthConfig(config: AuthConfig | null): void {
+  activeConfig = config;
+}
+
+/**
+ * Sign an HS256 JWT (used to issue tokens from scripts and in tests)
+ */
+export function signToken(payload: Record<string, unknown>, secret: string): string {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64url(JSON.stringify(payload));
+  return `${header}.${body}.${hmac(`${header}.${body}`, secret)}`;
+}
+
+/**
+ * Issue a short-lived bearer token for a user (what POST /api/auth/login returns)
+ */
+export function issueToken(userId: string, config: AuthConfig): IssuedToken {
+  const now = Math.floor(Date.now() / 1000);
+  const exp = now + config.tokenTtlSeconds;
+  return {
+    token: signToken({ sub: userId, iat: now, exp }, config.tokenSecret),
+    userId,
+    expiresAt: new Date(exp * 1000).toISOString()
+  };
+}
+
+/**
+ * Resolve the user behind an API key or JWT, or null if the credential is invalid
+ */
+export function verifyCredential(credential: string, config: AuthConfig): AuthenticatedUser | null {
+  const userId = config.apiKeys.get(hashKey(credential));
+  if (userId) {
+    return { id: userId, method: 'api-key' };
+  }
+
+  if (credential.split('.').length === 3) {
+    const subject = verifyToken(credential, config.tokenSecret);
+    if (subject) {
+      return { id: subject, method: 'jwt' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Express middleware that requires an API key or JWT and sets req.user.
+ * Credentials are read from "Authorization: Bearer <token>" or "X-API-Key".
+ * EventSource can't send headers, so GET requests may instead carry a
+ * single-use ?ticket= from POST /api/auth/stream-ticket.
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+  let config: AuthConfig;
+  try {
+    config = getAuthConfig();
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Authentication is not configured.'
+    } as ApiResponse);
+    return;
+  }
+
+  if (config.disabled) {
+    req.user = { id: ANONYMOUS_USER_ID, method: 'anonymous' };
+    next();
+    return;
+  }
+
+  const credential = readCredential(req);
+  const ticket = req.query.ticket;
+  if (!credential && req.method === 'GET' && typeof ticket === 'string' && ticket) {
+    const ticketUser = StreamTickets.redeem(ticket);
+    if (!ticketUser) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or expired stream ticket.',
+        code: 'AUTH_INVALID'
+      } as ApiResponse);
+      return;
+    }
+
+    req.user = ticketUser;
+    next();
+    return;
+  }
+
+  if (!credential) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required. Provide an API key or bearer token.',
+      code: 'AUTH_REQUIRED'
+    } as ApiResponse);
+    return;
+  }
+
+  const user = verifyCredential(credential, config);
+  if (!user) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid or expired credentials.',
+      code: 'AUTH_INVALID'
+    } as ApiResponse);
+    return;
+  }
+
+  req.user = user;
+  next();
+};
+
+/**
+ * ID of the authenticated user (the anonymous user when authentication is disabled)
+ */
+export function currentUserId(req: Request): string {
+  return req.user?.id ?? ANONYMOUS_USER_ID;
+}
+
+function readCredential(req: Request): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization && /^Bearer\s+/i.test(authorization)) {
+    return authorization.replace(/^Bearer\s+/i, '').trim() || null;
+  }
+
+  const apiKey = req.headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKey.trim()) {
+    return apiKey.trim();
+  }
+
+  return null;
+}
+
+/**
+ * Check an HS256 signature, expiry and not-before; returns the subject if valid
+ */
+function verifyToken(token: string, secret: string): string | null {
+  const [header, body, signature] = token.split('.');
+
+  const expected = Buffer.from(hmac(`${header}.${body}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    // Only HS256 is accepted, so "alg: none" or algorithm-confusion tokens are rejected
+    if (JSON.parse(Buffer.from(header, 'base64url').toString('utf-8')).alg !== 'HS256') {
+      return null;
+    }
+
+    const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8'));
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp === 'number' && now > claims.exp + JWT_CLOCK_SKEW_SECONDS) {
+      return null;
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf - JWT_CLOCK_SKEW_SECONDS) {
+      return null;
+    }
+
+    return typeof claims.sub === 'string' && claims.sub ? claims.sub : null;
+  } catch {
+    // Malformed token
+    return null;
+  }
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function hmac(data: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
@@ -0,0 +1,138 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApiResponse, QuotaExceededInfo, RateLimitRule } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+
+interface ClientWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Read per-client request limits from environment variables (requests per minute, 0 disables)
+ */
+export function loadRateLimitRules(env: NodeJS.ProcessEnv = process.env): Record<'upload' | 'summarize' | 'chat' | 'login', RateLimitRule> {
+  const perMinute = (name: string, value: string | undefined, fallback: number): RateLimitRule => {
+    const parsed = parseInt(value ?? String(fallback), 10);
+    return { name, max: Number.isFinite(parsed) && parsed > 0 ? parsed : 0, windowMs: MINUTE_MS };
+  };
+
+  return {
+    upload: perMinute('upload', env.RATE_LIMIT_UPLOADS_PER_MINUTE, 10),
+    summarize: perMinute('summarize', env.RATE_LIMIT_SUMMARIZE_PER_MINUTE, 10),
+    chat: perMinute('chat', env.RATE_LIMIT_CHAT_PER_MINUTE, 30),
+    login: perMinute('login', env.RATE_LIMIT_LOGIN_PER_MINUTE, 10)
+  };
+}
+
+/**
+ * Send a 429 with a Retry-After header and the same value in the body
+ */
+export function sendTooManyRequests(res: Response, retryAfterMs: number, error: string, code: string): void {
+  const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  res.status(429).json({
+    success: false,
+    error,
+    code,
+    retryAfterSeconds
+  } as ApiResponse);
+}
+
+/**
+ * Send a 429 for an exhausted LLM budget
+ */
+export function sendQuotaExceeded(res: Response, quota: QuotaExceededInfo): void {
+  sendTooManyRequests(
+    res,
+    quota.retryAfterSeconds * 1000,
+    `LLM quota exceeded (${quota.limit}). Try again in ${quota.retryAfterSeconds} second(s).`,
+    'LLM_QUOTA_EXCEEDED'
+  );
+}
+
+/**
+ * Per-client fixed-window rate limiter. Clients are identified by their
+ * authenticated user ID, falling back to the IP address.
+ */
+export class RateLimiter {
+  private clients = new Map<string, ClientWindow>();
+
+  constructor(private rule: RateLimitRule) {}
+
+  /**
+   * Change the limit, e.g. from tests (counts so far are kept)
+   */
+  configure(rule: Partial<RateLimitRule>): void {
+    this.rule = { ...this.rule, ...rule };
+  }
+
+  reset(): void {
+    this.clients.clear();
+  }
+
+  /**
+   * Count a request; returns the milliseconds until the client may retry if over the limit
+   */
+  hit(clientId: string): { allowed: boolean; remaining: number; retryAfterMs: number } {
+    const now = Date.now();
+    this.prune(now);
+
+    let window = this.clients.get(clientId);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.rule.windowMs };
+      this.clients.set(clientId, window);
+    }
+
+    if (window.count >= this.rule.max) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.resetAt - now };
+    }
+
+    window.count++;
+    return { allowed: true, remaining: this.rule.max - window.count, retryAfterMs: 0 };
+  }
+
+  /**
+   * Express middleware enforcing the limit
+   */
+  readonly middleware = (req: Request, res: Response, next: NextFunction): void => {
+    if (this.rule.max <= 0) {
+      next();
+      return;
+    }
+
+    const result = this.hit(req.user && req.user.method !== 'anonymous' ? `user:${req.user.id}` : `ip:${req.ip}`);
+    res.setHeader('RateLimit-Limit', String(this.rule.max));
+    res.setHeader('RateLimit-Remaining', String(result.remaining));
+
+    if (!result.allowed) {
+      sendTooManyRequests(
+        res,
+        result.retryAfterMs,
+        `Too many ${this.rule.name} requests. Limit is ${this.rule.max} per ${Math.round(this.rule.windowMs / 1000)} seconds.`,
+        'RATE_LIMITED'
+      );
+      return;
+    }
+
+    next();
+  };
+
+  private prune(now: number): void {
+    this.clients.forEach((window, clientId) => {
+      if (window.resetAt <= now) {
+        this.clients.delete(clientId);
+      }
+    });
+  }
+}
+
+const rules = loadRateLimitRules();
+
+export const rateLimiters = {
+  upload: new RateLimiter(rules.upload),
+  summarize: new RateLimiter(rules.summarize),
+  chat: new RateLimiter(rules.chat),
+  login: new RateLimiter(rules.login)
+};
@@ -14,6 +14,22 @@ dotenv.config();
 import { uploadController } from './controllers/uploadController';
 import { summarizeController } from './controllers/summarizeController';
 import { chatController } from './controllers/chatController';
+import { chatHistoryController, clearChatHistoryController } from './controllers/chatHistoryController';
+import { hostsController } from './controllers/hostsController';
+import { statsController } from './controllers/statsController';
+import { compareController } from './controllers/compareController';
+import { currentUserController, loginController, streamTicketController } from './controllers/authController';
+import { jobStatusController, cancelJobController } from './controllers/jobController';
+import { summarizeStreamController, jobEventsController } from './controllers/summarizeStreamController';
+import { CVEEnricher } from './services/cveEnricher';
+import { SummarizationJobs } from './services/summarizationJobs';
+import { getSessionStore } from './services/storage';
+import { InMemoryStore } from './utils/inMemoryStore';
+import { cleanupTempFiles } from './utils/tempFiles';
+import { authenticate, getAuthConfig } from './middleware/auth';
+import { rateLimiters } from './middleware/rateLimit';
+import { LLMBudget } from './services/llmBudget';
+import { loadRedactionConfig } from './services/redactor';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -26,7 +42,8 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'DELETE'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+  exposedHeaders: ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining']
 }));
 
 // Body parsing middleware
@@ -39,6 +56,10 @@ if (!fs.existsSync(tempDir)) {
   fs.mkdirSync(tempDir, { recursive: true });
 }
 
+// Accepted upload formats
+const ACCEPTED_EXTENSIONS = ['.json', '.ndjson', '.jsonl', '.xml'];
+const ACCEPTED_MIME_TYPES = ['application/json', 'application/x-ndjson', 'application/jsonl', 'application/xml', 'text/xml'];
+
 // Configure multer for file uploads
 const upload = multer({
   dest: tempDir,
@@ -47,8 +68,9 @@ const upload = multer({
     files: 1 // Only allow one file at a time
   },
   fileFilter: (req, file, cb) => {
-    // Only accept JSON files
-    if (file.mimetype === 'application/json' || path.extname(file.originalname).toLowerCase() === '.json') {
+    // Only accept JSON, newline-delimited JSON (one host per line) and Nmap XML files
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (ACCEPTED_MIME_TYPES.includes(file.mimetype) || ACCEPTED_EXTENSIONS.includes(extension)) {
       cb(null, true);
     } else {
       cb(new Error('Only JSON files are allowed'));
@@ -56,7 +78,7 @@ const upload = multer({
   }
 });
 
-// Health check endpoint
+// Health check endpoint (public, so it only reports that the server is up)
 app.get('/api/health', (req, res) => {
   res.json({ 
     success: true, 
@@ -66,14 +88,64 @@ app.get('/api/health', (req, res) => {
   });
 });
 
+// Exchange an API key for a short-lived bearer token (public, limited per client IP)
+app.post('/api/auth/login', rateLimiters.login.middleware, loginController);
+
+// Everything below requires an API key or bearer token (see middleware/auth.ts)
+app.use('/api', authenticate);
+
+// The signed-in user, and single-use tickets for event streams (EventSource can't send headers)
+app.get('/api/auth/me', currentUserController);
+app.post('/api/auth/stream-ticket', streamTicketController);
+
+// Server status: CVE feed, LLM budget, redaction settings and session memory use
+app.get('/api/status', (req, res) => {
+  res.json({
+    success: true,
+    timestamp: new Date().toISOString(),
+    cveEnrichment: CVEEnricher.status(),
+    llmBudget: LLMBudget.status(),
+    redaction: loadRedactionConfig(),
+    sessions: {
+      count: InMemoryStore.size(),
+      memoryBytes: InMemoryStore.totalSize(),
+      memoryLimitBytes: InMemoryStore.getLimits().maxBytes
+    }
+  });
+});
+
 // File upload endpoint
-app.post('/api/upload', upload.single('file'), uploadController);
+app.post('/api/upload', rateLimiters.upload.middleware, upload.single('file'), uploadController);
+
+// Add another file to an existing session, merging hosts with the same IP
+app.post('/api/sessions/:id/files', rateLimiters.upload.middleware, upload.single('file'), uploadController);
+
+// Summarization endpoint (starts a background job)
+app.post('/api/summarize', rateLimiters.summarize.middleware, summarizeController);
 
-// Summarization endpoint
-app.post('/api/summarize', summarizeController);
+// Streaming summarization (Server-Sent Events, one event per host)
+app.get('/api/summarize/stream', rateLimiters.summarize.middleware, summarizeStreamController);
+
+// Summarization job status, live events and cancellation
+app.get('/api/jobs/:id', jobStatusController);
+app.get('/api/jobs/:id/events', jobEventsController);
+app.delete('/api/jobs/:id', cancelJobController);
 
 // Chat endpoint for conversational messages
-app.post('/api/chat', chatController);
+app.post('/api/chat', rateLimiters.chat.middleware, chatController);
+
+// Conversation history for a session
+app.get('/api/sessions/:id/chat', chatHistoryController);
+app.delete('/api/sessions/:id/chat', clearChatHistoryController);
+
+// Filtered, sorted and paginated host listing for a session
+app.get('/api/sessions/:id/hosts', hostsController);
+
+// Aggregate statistics for a session's hosts
+app.get('/api/sessions/:id/stats', statsController);
+
+// Compare two uploads of the same estate (writes a change narrative, so it shares the summarize limit)
+app.post('/api/compare', rateLimiters.summarize.middleware, compareController);
 
 // Error handling middleware
 app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -97,7 +169,7 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
   if (error.message === 'Only JSON files are allowed') {
     return res.status(400).json({
       success: false,
-      error: 'Only JSON files are allowed. Please upload a .json file.'
+      error: 'Only JSON files are allowed. Please upload a .json, .ndjson, .jsonl or Nmap .xml file.'
     });
   }
   
@@ -115,9 +187,33 @@ app.use((req, res) => {
   });
 });
 
-// Start server
-app.listen(PORT, () => {
-  // Server started successfully
-});
+// Start server (tests drive the app through supertest instead)
+if (process.env.NODE_ENV !== 'test') {
+  // Refuse to start without credentials configured rather than serving host data openly
+  getAuthConfig();
+
+  // Load the CVE feeds up front rather than on the first summarization
+  CVEEnricher.ready();
+
+  // Expire idle sessions and old job results, and delete upload temp files nobody needs any more
+  const sweepIntervalMs = parseInt(process.env.SESSION_SWEEP_INTERVAL_SECONDS || '60') * 1000;
+  setInterval(() => {
+    SummarizationJobs.pruneFinishedJobs();
+
+    // Temp files of live sessions are kept until they are summarized or the session expires
+    const store = getSessionStore();
+    const maxAgeMs = InMemoryStore.getLimits().ttlMs || 24 * 60 * 60 * 1000;
+    store.sweep()
+      .then(() => store.referencedFilePaths())
+      .then(keep => cleanupTempFiles(tempDir, maxAgeMs, keep))
+      .catch(() => {
+        // Sweep error - retried on the next sweep
+      });
+  }, sweepIntervalMs).unref();
+
+  app.listen(PORT, () => {
+    // Server started successfully
+  });
+}
 
 export default app;
\ No newline at end of file
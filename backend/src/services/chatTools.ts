@@ -0,0 +1,231 @@
+import { CensysHost, ChatToolCall, ChatToolDefinition, ChatToolInvocation, ChatToolSchema, HostSummary } from '../types';
+import { DatasetStats } from './datasetStats';
+import { HostQueryEngine } from './hostQuery';
+import { RiskScorer } from './riskScorer';
+
+// Tool results go back into the prompt, so listings stay short
+const DEFAULT_TOOL_PAGE_SIZE = 10;
+const MAX_TOOL_PAGE_SIZE = 25;
+const DEFAULT_COUNT_LIMIT = 10;
+const MAX_COUNT_LIMIT = 50;
+
+const COUNT_FIELDS = ['country', 'asn', 'port', 'service', 'os', 'cve', 'severity', 'tag', 'risk_level'] as const;
+type CountField = typeof COUNT_FIELDS[number];
+
+// Same filters as GET /api/sessions/:id/hosts
+const FILTER_PROPERTIES: Record<string, ChatToolSchema> = {
+  port: { type: 'array', items: { type: 'integer' }, description: 'Hosts with any of these ports open' },
+  service: { type: 'array', items: { type: 'string' }, description: 'Hosts running any of these service names, e.g. SSH, HTTP' },
+  country: { type: 'array', items: { type: 'string' }, description: 'Country names or ISO codes' },
+  asn: { type: 'array', items: { type: 'integer' }, description: 'Autonomous system numbers' },
+  os: { type: 'string', description: 'Part of the operating system product name' },
+  cve: { type: 'array', items: { type: 'string' }, description: 'CVE IDs' },
+  minCvss: { type: 'number', description: 'Hosts with at least one vulnerability scored this high (0-10)' },
+  tag: { type: 'array', items: { type: 'string' }, description: 'Host tags or threat intelligence labels' },
+  q: { type: 'string', description: 'Text that appears anywhere in the host record' }
+};
+
+const CHAT_TOOLS: ChatToolDefinition[] = [
+  {
+    name: 'filter_hosts',
+    description: 'List hosts matching all the given filters, with the total number of matches. Use for "which hosts..." questions.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...FILTER_PROPERTIES,
+        sort: { type: 'string', enum: ['ip', 'country', 'asn', 'services', 'cvss', 'risk', 'updated'] },
+        order: { type: 'string', enum: ['asc', 'desc'] },
+        page: { type: 'integer', description: 'Page number, starting at 1' },
+        pageSize: { type: 'integer', description: `Hosts per page (at most ${MAX_TOOL_PAGE_SIZE})` }
+      }
+    }
+  },
+  {
+    name: 'count_hosts',
+    description: 'Count hosts by a field, most common values first, optionally after filtering. Use for "how many" and breakdown questions.',
+    parameters: {
+      type: 'object',
+      properties: {
+        field: { type: 'string', enum: [...COUNT_FIELDS], description: 'Field to group by; a host counts once for each distinct value it has' },
+        limit: { type: 'integer', description: `Number of values to return (at most ${MAX_COUNT_LIMIT})` },
+        ...FILTER_PROPERTIES
+      },
+      required: ['field']
+    }
+  },
+  {
+    name: 'get_host',
+    description: 'Full record of one host (services, software, vulnerabilities, certificates, location) plus its summary if there is one.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ip: { type: 'string', description: 'IP address of the host' }
+      },
+      required: ['ip']
+    }
+  },
+  {
+    name: 'get_stats',
+    description: 'Statistics for the whole dataset: totals, most common ports, services, countries, ASNs, OS products, software and CVEs, hosts by severity and risk level, a CVSS histogram and certificate expiry.',
+    parameters: { type: 'object', properties: {} }
+  }
+];
+
+/**
+ * Tools the chat model can call to look things up in the session's hosts
+ * instead of estimating from the prompt
+ */
+export class ChatTools {
+  static readonly definitions = CHAT_TOOLS;
+
+  /**
+   * Run one tool call. Failures (unknown tool, bad arguments, unknown host) are
+   * reported in the invocation so the model can correct itself.
+   */
+  static execute(call: ChatToolCall, hosts: CensysHost[], summaries: HostSummary[] = []): ChatToolInvocation {
+    const invocation = { name: call.name, arguments: call.arguments || {} };
+
+    try {
+      switch (call.name) {
+        case 'filter_hosts':
+          return { ...invocation, result: this.filterHosts(invocation.arguments, hosts) };
+        case 'count_hosts':
+          return { ...invocation, result: this.countHosts(invocation.arguments, hosts, summaries) };
+        case 'get_host':
+          return { ...invocation, result: this.getHost(invocation.arguments, hosts, summaries) };
+        case 'get_stats':
+          return { ...invocation, result: DatasetStats.compute(hosts, summaries) };
+        default:
+          throw new Error(`Unknown tool "${call.name}". Available: ${CHAT_TOOLS.map(tool => tool.name).join(', ')}`);
+      }
+    } catch (error) {
+      return { ...invocation, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private static filterHosts(args: Record<string, unknown>, hosts: CensysHost[]) {
+    const query = this.parseQuery({ pageSize: DEFAULT_TOOL_PAGE_SIZE, ...args });
+    if (query.pageSize > MAX_TOOL_PAGE_SIZE) {
+      throw new Error(`pageSize must be at most ${MAX_TOOL_PAGE_SIZE}`);
+    }
+
+    const result = HostQueryEngine.run(hosts, query);
+
+    return {
+      total: result.total,
+      page: result.page,
+      totalPages: result.totalPages,
+      hosts: result.hosts.map(host => this.hostRow(host))
+    };
+  }
+
+  private static countHosts(args: Record<string, unknown>, hosts: CensysHost[], summaries: HostSummary[]) {
+    const { field, limit, ...filters } = args;
+    if (!COUNT_FIELDS.includes(field as CountField)) {
+      throw new Error(`field must be one of: ${COUNT_FIELDS.join(', ')}`);
+    }
+
+    const max = limit === undefined ? DEFAULT_COUNT_LIMIT : Number(limit);
+    if (!Number.isInteger(max) || max < 1 || max > MAX_COUNT_LIMIT) {
+      throw new Error(`limit must be a whole number from 1 to ${MAX_COUNT_LIMIT}`);
+    }
+
+    const query = this.parseQuery(filters);
+    const matching = hosts.filter(host => host && typeof host === 'object' && HostQueryEngine.matches(host, query.filters));
+    const riskByIP = new Map(summaries.filter(summary => summary?.risk).map(summary => [summary.ip, summary.risk!.level]));
+    const counts = DatasetStats.countValues(matching, host => this.fieldValues(host, field as CountField, riskByIP));
+
+    return {
+      field,
+      matchingHosts: matching.length,
+      hostsWithoutValue: matching.filter(host => this.fieldValues(host, field as CountField, riskByIP).length === 0).length,
+      distinctValues: counts.length,
+      counts: counts.slice(0, max)
+    };
+  }
+
+  private static getHost(args: Record<string, unknown>, hosts: CensysHost[], summaries: HostSummary[]) {
+    const ip = typeof args.ip === 'string' ? args.ip.trim() : '';
+    if (!ip) {
+      throw new Error('ip is required');
+    }
+
+    const host = hosts.find(candidate => candidate?.ip === ip);
+    if (!host) {
+      throw new Error(`No host with IP ${ip} in this dataset`);
+    }
+
+    const summary = summaries.find(candidate => candidate?.ip === ip);
+
+    return {
+      host,
+      risk: summary?.risk || RiskScorer.score(host),
+      ...(summary ? { summary: summary.summary } : {})
+    };
+  }
+
+  /**
+   * Validate tool arguments with the host query parser (arrays and numbers become query-string values)
+   */
+  private static parseQuery(args: Record<string, unknown>) {
+    const params: Record<string, unknown> = {};
+    Object.entries(args).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        params[key] = Array.isArray(value) ? value.map(String).join(',') : String(value);
+      }
+    });
+
+    const { query, errors } = HostQueryEngine.parse(params);
+    if (!query) {
+      throw new Error(errors.join('; '));
+    }
+    return query;
+  }
+
+  private static fieldValues(host: CensysHost, field: CountField, riskByIP: Map<string, string>): string[] {
+    const services = host.services || [];
+    const vulnerabilities = services.flatMap(service => service.vulnerabilities || []);
+
+    switch (field) {
+      case 'country':
+        return [host.location?.country || host.location?.country_code].filter(Boolean).map(String);
+      case 'asn':
+        return host.autonomous_system?.asn !== undefined
+          ? [`AS${host.autonomous_system.asn}${host.autonomous_system.name ? ` (${host.autonomous_system.name})` : ''}`]
+          : [];
+      case 'port':
+        return services.filter(service => service.port !== undefined).map(service => String(service.port));
+      case 'service':
+        return services.filter(service => service.service_name).map(service => String(service.service_name).toUpperCase());
+      case 'os':
+        return [host.operating_system?.product].filter(Boolean).map(String);
+      case 'cve':
+        return vulnerabilities.filter(vuln => vuln?.cve_id).map(vuln => String(vuln.cve_id).toUpperCase());
+      case 'severity':
+        return vulnerabilities.filter(vuln => vuln?.severity).map(vuln => String(vuln.severity).toLowerCase());
+      case 'tag':
+        return [...(host.tags || []), ...(host.threat_intelligence?.security_labels || [])].map(String);
+      case 'risk_level':
+        return [riskByIP.get(host.ip) || RiskScorer.score(host).level];
+    }
+  }
+
+  /**
+   * Compact one-line view of a host for listings; get_host has the full record
+   */
+  private static hostRow(host: CensysHost) {
+    const scores = (host.services || []).flatMap(service => service.vulnerabilities || [])
+      .map(vuln => vuln?.cvss_score)
+      .filter((score): score is number => typeof score === 'number');
+
+    return {
+      ip: host.ip,
+      country: host.location?.country || host.location?.country_code,
+      asn: host.autonomous_system?.asn,
+      os: host.operating_system?.product,
+      services: (host.services || []).map(service => `${service.port}/${service.service_name || 'unknown'}`),
+      maxCvss: scores.length > 0 ? Math.max(...scores) : undefined,
+      riskScore: RiskScorer.score(host).score
+    };
+  }
+}
@@ -0,0 +1,255 @@
+import fs from 'fs/promises';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import { CensysHost, CVEDetails, CVEEnrichmentStatus } from '../types';
+
+const gunzip = promisify(zlib.gunzip);
+
+const CVE_ID = /CVE-\d{4}-\d{4,}/gi;
+
+export interface CVEFeedPaths {
+  nvdFeedPath?: string;
+  knownExploitedPath?: string;
+}
+
+/**
+ * Offline CVE enrichment from a local NVD JSON feed (1.1 data feeds or 2.0 API
+ * responses, optionally gzipped) and a known-exploited list (the CISA KEV JSON
+ * catalog or a plain list of CVE IDs). Configured with NVD_FEED_PATH and
+ * KNOWN_EXPLOITED_PATH; without them enrichment is a no-op.
+ */
+export class CVEEnricher {
+  private static cves = new Map<string, CVEDetails>();
+  private static knownExploited = new Map<string, string | undefined>(); // CVE ID -> date added
+  private static loading: Promise<void> | null = null;
+  private static loadError: string | undefined;
+
+  /**
+   * Load the feeds, replacing anything loaded before. Paths default to the environment.
+   */
+  static load(paths: CVEFeedPaths = {
+    nvdFeedPath: process.env.NVD_FEED_PATH,
+    knownExploitedPath: process.env.KNOWN_EXPLOITED_PATH
+  }): Promise<void> {
+    this.loading = this.loadFeeds(paths);
+    return this.loading;
+  }
+
+  /**
+   * Load the configured feeds on first use
+   */
+  static ready(): Promise<void> {
+    return this.loading || this.load();
+  }
+
+  /**
+   * Forget loaded feeds so the next use reloads from the environment
+   */
+  static reset(): void {
+    this.cves.clear();
+    this.knownExploited.clear();
+    this.loading = null;
+    this.loadError = undefined;
+  }
+
+  static status(): CVEEnrichmentStatus {
+    return {
+      cveCount: this.cves.size,
+      knownExploitedCount: this.knownExploited.size,
+      ...(this.loadError ? { error: this.loadError } : {})
+    };
+  }
+
+  static lookup(cveId: string): CVEDetails | undefined {
+    return this.cves.get(cveId.toUpperCase());
+  }
+
+  static isKnownExploited(cveId: string): boolean {
+    return this.knownExploited.has(cveId.toUpperCase());
+  }
+
+  /**
+   * Fill in CVSS, CWE, publish date, description and known-exploited status for
+   * every service vulnerability found in the feeds. Values already present in
+   * the host data are kept. Hosts without matches are returned unchanged.
+   */
+  static async enrichHosts(hosts: CensysHost[]): Promise<CensysHost[]> {
+    await this.ready();
+
+    if (this.cves.size === 0 && this.knownExploited.size === 0) {
+      return hosts;
+    }
+
+    return hosts.map(host => this.enrichHost(host));
+  }
+
+  private static enrichHost(host: CensysHost): CensysHost {
+    if (!Array.isArray(host?.services)) {
+      return host;
+    }
+
+    let changed = false;
+    const services = host.services.map(service => {
+      if (!Array.isArray(service?.vulnerabilities)) {
+        return service;
+      }
+
+      const vulnerabilities = service.vulnerabilities.map(vuln => {
+        const enriched = this.enrichVulnerability(vuln);
+        changed = changed || enriched !== vuln;
+        return enriched;
+      });
+      return { ...service, vulnerabilities };
+    });
+
+    return changed ? { ...host, services } : host;
+  }
+
+  private static enrichVulnerability<T extends { cve_id: string; [key: string]: any }>(vuln: T): T {
+    if (!vuln || typeof vuln.cve_id !== 'string') {
+      return vuln;
+    }
+
+    const details = this.lookup(vuln.cve_id);
+    const exploited = this.isKnownExploited(vuln.cve_id);
+    if (!details && !exploited) {
+      return vuln;
+    }
+
+    const enriched: any = { ...vuln };
+    if (details) {
+      enriched.cvss_score = vuln.cvss_score ?? details.cvssScore;
+      enriched.cvss_vector = vuln.cvss_vector ?? details.cvssVector;
+      enriched.severity = vuln.severity ?? details.severity;
+      enriched.cwe_ids = vuln.cwe_ids ?? details.cweIds;
+      enriched.published_at = vuln.published_at ?? details.publishedAt;
+      enriched.description = vuln.description ?? details.description;
+    }
+    enriched.known_exploited = exploited;
+    if (exploited && this.knownExploited.get(vuln.cve_id.toUpperCase())) {
+      enriched.known_exploited_since = this.knownExploited.get(vuln.cve_id.toUpperCase());
+    }
+
+    // Drop fields the feed had no value for
+    Object.keys(enriched).forEach(key => enriched[key] === undefined && delete enriched[key]);
+    return enriched;
+  }
+
+  private static async loadFeeds(paths: CVEFeedPaths): Promise<void> {
+    this.cves.clear();
+    this.knownExploited.clear();
+    this.loadError = undefined;
+
+    try {
+      if (paths.nvdFeedPath) {
+        const feed = JSON.parse(await this.readFeedFile(paths.nvdFeedPath));
+        this.parseNVDFeed(feed).forEach(details => this.cves.set(details.cveId, details));
+      }
+
+      if (paths.knownExploitedPath) {
+        const text = await this.readFeedFile(paths.knownExploitedPath);
+        this.parseKnownExploited(text).forEach(([cveId, dateAdded]) => this.knownExploited.set(cveId, dateAdded));
+      }
+    } catch (error) {
+      // CVE feed load error - enrichment is skipped rather than breaking summarization
+      this.loadError = `Failed to load CVE feeds: ${error instanceof Error ? error.message : 'unknown error'}`;
+    }
+  }
+
+  private static async readFeedFile(filePath: string): Promise<string> {
+    const buffer = await fs.readFile(filePath);
+    return (filePath.endsWith('.gz') ? await gunzip(buffer) : buffer).toString('utf-8');
+  }
+
+  /**
+   * Accepts NVD 1.1 data feeds ({ CVE_Items }) and NVD 2.0 API responses ({ vulnerabilities: [{ cve }] })
+   */
+  private static parseNVDFeed(feed: any): CVEDetails[] {
+    if (Array.isArray(feed?.CVE_Items)) {
+      return feed.CVE_Items.map((item: any) => this.parseNVD11Item(item)).filter(Boolean);
+    }
+    if (Array.isArray(feed?.vulnerabilities)) {
+      return feed.vulnerabilities.map((item: any) => this.parseNVD20Item(item?.cve)).filter(Boolean);
+    }
+    throw new Error('NVD feed must contain "CVE_Items" (1.1) or "vulnerabilities" (2.0)');
+  }
+
+  private static parseNVD11Item(item: any): CVEDetails | null {
+    const cveId = item?.cve?.CVE_data_meta?.ID;
+    if (typeof cveId !== 'string') {
+      return null;
+    }
+
+    const v3 = item.impact?.baseMetricV3?.cvssV3;
+    const v2 = item.impact?.baseMetricV2;
+    const cweIds = (item.cve.problemtype?.problemtype_data || [])
+      .flatMap((problem: any) => problem.description || [])
+      .map((description: any) => description.value);
+
+    return {
+      cveId: cveId.toUpperCase(),
+      cvssScore: v3?.baseScore ?? v2?.cvssV2?.baseScore,
+      cvssVector: v3?.vectorString ?? v2?.cvssV2?.vectorString,
+      severity: v3?.baseSeverity ?? v2?.severity,
+      cweIds: this.cweIds(cweIds),
+      publishedAt: item.publishedDate,
+      description: this.englishDescription(item.cve.description?.description_data)
+    };
+  }
+
+  private static parseNVD20Item(cve: any): CVEDetails | null {
+    if (typeof cve?.id !== 'string') {
+      return null;
+    }
+
+    // Prefer the primary (NVD) score of the newest CVSS version present
+    const metrics = cve.metrics || {};
+    const metricList: any[] = metrics.cvssMetricV40 || metrics.cvssMetricV31 || metrics.cvssMetricV30 || metrics.cvssMetricV2 || [];
+    const metric = metricList.find(candidate => candidate.type === 'Primary') || metricList[0];
+
+    const cweIds = (cve.weaknesses || [])
+      .flatMap((weakness: any) => weakness.description || [])
+      .map((description: any) => description.value);
+
+    return {
+      cveId: cve.id.toUpperCase(),
+      cvssScore: metric?.cvssData?.baseScore,
+      cvssVector: metric?.cvssData?.vectorString,
+      severity: metric?.cvssData?.baseSeverity ?? metric?.baseSeverity,
+      cweIds: this.cweIds(cweIds),
+      publishedAt: cve.published,
+      description: this.englishDescription(cve.descriptions)
+    };
+  }
+
+  /**
+   * CISA KEV JSON ({ vulnerabilities: [{ cveID, dateAdded }] }) or any text containing CVE IDs
+   */
+  private static parseKnownExploited(text: string): Array<[string, string | undefined]> {
+    try {
+      const catalog = JSON.parse(text);
+      if (Array.isArray(catalog?.vulnerabilities)) {
+        return catalog.vulnerabilities
+          .filter((entry: any) => typeof entry?.cveID === 'string')
+          .map((entry: any) => [entry.cveID.toUpperCase(), entry.dateAdded]);
+      }
+    } catch {
+      // Not JSON - treat it as a plain list below
+    }
+
+    return Array.from(new Set((text.match(CVE_ID) || []).map(id => id.toUpperCase())))
+      .map(cveId => [cveId, undefined]);
+  }
+
+  private static cweIds(values: any[]): string[] {
+    // NVD uses placeholders such as NVD-CWE-Other and NVD-CWE-noinfo when no CWE applies
+    return Array.from(new Set(values.filter(value => typeof value === 'string' && /^CWE-\d+$/.test(value))));
+  }
+
+  private static englishDescription(descriptions: any): string | undefined {
+    if (!Array.isArray(descriptions)) {
+      return undefined;
+    }
+    return (descriptions.find(description => description.lang === 'en') || descriptions[0])?.value;
+  }
+}
@@ -0,0 +1,131 @@
+import { CensysHost, CVSSHistogramBucket, DatasetStatistics, HostSummary, RiskLevel, ValueCount } from '../types';
+import { inspectCertificate } from '../utils/certificateInfo';
+import { RiskScorer } from './riskScorer';
+
+export const DEFAULT_TOP_N = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Severity = keyof DatasetStatistics['hostsByHighestSeverity'];
+
+// Most severe first; 'unknown' means vulnerabilities with neither a severity nor a score
+const SEVERITY_ORDER: Severity[] = ['critical', 'high', 'medium', 'low', 'unknown', 'none'];
+
+/**
+ * Fleet-level counts over a session's hosts, computed locally so they can be
+ * shown directly and cited by chat instead of estimated by the model
+ */
+export class DatasetStats {
+  static compute(hosts: CensysHost[], summaries: HostSummary[] = [], topN: number = DEFAULT_TOP_N, now: Date = new Date()): DatasetStatistics {
+    const valid = hosts.filter(host => host && typeof host === 'object');
+    const services = (host: CensysHost) => host.services || [];
+    const vulnerabilities = (host: CensysHost) => services(host).flatMap(service => service.vulnerabilities || []).filter(Boolean);
+    const top = (values: (host: CensysHost) => Array<string | undefined>) =>
+      this.countValues(valid, host => values(host).filter((value): value is string => !!value)).slice(0, topN);
+
+    // A CVE reported on several ports of one host is one finding
+    const findings = valid.flatMap(host => {
+      const byCVE = new Map(vulnerabilities(host).map(vuln => [String(vuln.cve_id).toUpperCase(), vuln]));
+      return Array.from(byCVE.values());
+    });
+
+    const cvssHistogram: CVSSHistogramBucket[] = Array.from({ length: 10 }, (_, i) => ({ range: `${i}-${i + 1}`, min: i, max: i + 1, count: 0 }));
+    findings.forEach(vuln => {
+      if (typeof vuln.cvss_score === 'number' && vuln.cvss_score >= 0 && vuln.cvss_score <= 10) {
+        cvssHistogram[Math.min(9, Math.floor(vuln.cvss_score))].count++;
+      }
+    });
+
+    const hostsByHighestSeverity = Object.fromEntries(SEVERITY_ORDER.map(severity => [severity, 0])) as DatasetStatistics['hostsByHighestSeverity'];
+    valid.forEach(host => {
+      const ranks = vulnerabilities(host).map(vuln => SEVERITY_ORDER.indexOf(this.severity(vuln)));
+      hostsByHighestSeverity[SEVERITY_ORDER[ranks.length > 0 ? Math.min(...ranks) : SEVERITY_ORDER.length - 1]]++;
+    });
+
+    const riskByIP = new Map(summaries.filter(summary => summary?.risk).map(summary => [summary.ip, summary.risk!.level]));
+    const riskLevels: Record<RiskLevel, number> = { critical: 0, high: 0, medium: 0, low: 0, none: 0 };
+    valid.forEach(host => {
+      riskLevels[riskByIP.get(host.ip) || RiskScorer.score(host).level]++;
+    });
+
+    const certificates = valid.flatMap(host => services(host).map(service => inspectCertificate(service.certificate)).filter(Boolean));
+    const certificateExpiry = { expired: 0, within30Days: 0, within90Days: 0, later: 0, unknown: 0 };
+    certificates.forEach(certificate => {
+      const expiresAt = certificate!.expiresAt;
+      if (!expiresAt) {
+        certificateExpiry[certificate!.expired ? 'expired' : 'unknown']++;
+      } else if (expiresAt.getTime() < now.getTime()) {
+        certificateExpiry.expired++;
+      } else if (expiresAt.getTime() < now.getTime() + 30 * DAY_MS) {
+        certificateExpiry.within30Days++;
+      } else if (expiresAt.getTime() < now.getTime() + 90 * DAY_MS) {
+        certificateExpiry.within90Days++;
+      } else {
+        certificateExpiry.later++;
+      }
+    });
+
+    const distinct = (values: Array<string | number | undefined>) => new Set(values.filter(value => value !== undefined && value !== '')).size;
+
+    return {
+      generatedAt: now.toISOString(),
+      totals: {
+        hosts: valid.length,
+        services: valid.reduce((sum, host) => sum + services(host).length, 0),
+        distinctPorts: distinct(valid.flatMap(host => services(host).map(service => service.port))),
+        countries: distinct(valid.map(host => host.location?.country || host.location?.country_code)),
+        asns: distinct(valid.map(host => host.autonomous_system?.asn)),
+        distinctCves: distinct(findings.map(vuln => String(vuln.cve_id).toUpperCase())),
+        hostsWithVulnerabilities: valid.filter(host => vulnerabilities(host).length > 0).length,
+        hostsWithCriticalVulnerabilities: hostsByHighestSeverity.critical,
+        hostsWithKnownExploited: valid.filter(host => vulnerabilities(host).some(vuln => vuln.known_exploited)).length,
+        certificates: certificates.length
+      },
+      topPorts: top(host => services(host).map(service => service.port !== undefined ? String(service.port) : undefined)),
+      topServices: top(host => services(host).map(service => service.service_name ? String(service.service_name).toUpperCase() : undefined)),
+      topCountries: top(host => [host.location?.country || host.location?.country_code]),
+      topAsns: top(host => [host.autonomous_system?.asn !== undefined
+        ? `AS${host.autonomous_system.asn}${host.autonomous_system.name ? ` (${host.autonomous_system.name})` : ''}`
+        : undefined]),
+      topOperatingSystems: top(host => [host.operating_system?.product]),
+      topSoftware: top(host => services(host).flatMap(service => (service.software || []).map(software => software?.product))),
+      topCves: top(host => vulnerabilities(host).map(vuln => vuln.cve_id ? String(vuln.cve_id).toUpperCase() : undefined)),
+      hostsByHighestSeverity,
+      cvssHistogram,
+      unscoredVulnerabilities: findings.filter(vuln => typeof vuln.cvss_score !== 'number').length,
+      riskLevels,
+      certificateExpiry
+    };
+  }
+
+  /**
+   * Distinct values per host, counted once per host, most common first
+   */
+  static countValues(hosts: CensysHost[], values: (host: CensysHost) => string[]): ValueCount[] {
+    const counts = new Map<string, number>();
+    hosts.forEach(host => {
+      new Set(values(host)).forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    });
+
+    return Array.from(counts.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+
+  /**
+   * Reported severity, or the CVSS v3 rating band when only a score is given
+   */
+  private static severity(vuln: { severity?: string; cvss_score?: number }): Severity {
+    const reported = String(vuln.severity || '').toLowerCase();
+    if (['critical', 'high', 'medium', 'low'].includes(reported)) {
+      return reported as Severity;
+    }
+
+    const score = vuln.cvss_score;
+    if (typeof score !== 'number') return 'unknown';
+    if (score >= 9) return 'critical';
+    if (score >= 7) return 'high';
+    if (score >= 4) return 'medium';
+    return score > 0 ? 'low' : 'unknown';
+  }
+}
@@ -0,0 +1,160 @@
+import { CensysHost, HostSearchDocument, HostSearchIndex, HostSummary } from '../types';
+import { dataSourceLabel, hostDataSource } from '../utils/dataSource';
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Banners can be long and repetitive; only their start is indexed
+const MAX_INDEXED_BANNER_CHARS = 300;
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'has', 'have', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'show', 'that', 'the',
+  'their', 'them', 'there', 'these', 'this', 'those', 'to', 'was', 'what', 'when', 'where', 'which', 'who',
+  'why', 'with', 'you'
+]);
+
+export interface HostSearchResult {
+  index: number; // Position of the host in the session
+  ip: string;
+  score: number;
+}
+
+/**
+ * Local keyword retrieval over a session's hosts and summaries (BM25), so chat
+ * can send the model only the hosts relevant to a question
+ */
+export class HostIndex {
+  /**
+   * Index each host's IP, location, network, services, software, CVEs and labels, plus its summary if there is one
+   */
+  static build(hosts: CensysHost[], summaries: HostSummary[] = []): HostSearchIndex {
+    const summariesByIP = new Map(summaries.filter(Boolean).map(summary => [summary.ip, summary]));
+
+    const documents: HostSearchDocument[] = hosts.map(host => {
+      const tokens = this.tokenize(this.describe(host, summariesByIP.get(host?.ip)));
+      const terms: Record<string, number> = {};
+      tokens.forEach(token => {
+        terms[token] = (terms[token] || 0) + 1;
+      });
+      return { ip: host?.ip || 'unknown', length: tokens.length, terms };
+    });
+
+    const documentFrequency: Record<string, number> = {};
+    documents.forEach(document => {
+      Object.keys(document.terms).forEach(term => {
+        documentFrequency[term] = (documentFrequency[term] || 0) + 1;
+      });
+    });
+
+    const totalLength = documents.reduce((sum, document) => sum + document.length, 0);
+
+    return {
+      builtAt: new Date().toISOString(),
+      documents,
+      documentFrequency,
+      averageLength: documents.length > 0 ? totalLength / documents.length : 0
+    };
+  }
+
+  /**
+   * Best-matching hosts for the query, highest score first; hosts sharing no terms with it are left out
+   */
+  static search(index: HostSearchIndex, query: string, limit: number): HostSearchResult[] {
+    const queryTerms = Array.from(new Set(this.tokenize(query)));
+    const documentCount = index.documents.length;
+
+    return index.documents
+      .map((document, position) => {
+        const score = queryTerms.reduce((sum, term) => {
+          const frequency = document.terms[term];
+          if (!frequency) {
+            return sum;
+          }
+
+          const containing = index.documentFrequency[term] || 0;
+          const idf = Math.log(1 + (documentCount - containing + 0.5) / (containing + 0.5));
+          const lengthNorm = 1 - BM25_B + BM25_B * (document.length / (index.averageLength || 1));
+          return sum + idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+        }, 0);
+
+        return { index: position, ip: document.ip, score };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit);
+  }
+
+  /**
+   * Lowercased terms; dotted and dashed tokens such as IPs, CVE IDs and versions
+   * are kept whole and also split so "openssh" matches "openssh_8.9p1"
+   */
+  static tokenize(text: string): string[] {
+    const tokens: string[] = [];
+
+    (text.toLowerCase().match(/[a-z0-9](?:[a-z0-9._:/-]*[a-z0-9])?/g) || []).forEach(token => {
+      if (!STOP_WORDS.has(token)) {
+        tokens.push(token);
+      }
+
+      const parts = token.split(/[._:/-]+/).filter(part => part && part !== token);
+      if (parts.length > 1) {
+        parts.filter(part => !STOP_WORDS.has(part)).forEach(part => tokens.push(part));
+      }
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Whether the index still describes these hosts (e.g. not built before hosts were added)
+   */
+  static matches(index: HostSearchIndex | undefined, hosts: CensysHost[]): index is HostSearchIndex {
+    return !!index && index.documents.length === hosts.length &&
+      index.documents.every((document, position) => document.ip === (hosts[position]?.ip || 'unknown'));
+  }
+
+  private static describe(host: CensysHost, summary?: HostSummary): string {
+    if (!host || typeof host !== 'object') {
+      return '';
+    }
+
+    const parts: Array<string | number | undefined> = [
+      host.ip,
+      dataSourceLabel(hostDataSource(host)),
+      host.location?.city,
+      host.location?.country,
+      host.location?.country_code,
+      host.autonomous_system?.asn !== undefined ? `AS${host.autonomous_system.asn}` : undefined,
+      host.autonomous_system?.name,
+      host.operating_system?.vendor,
+      host.operating_system?.product,
+      host.operating_system?.version,
+      host.threat_intelligence?.risk_level,
+      ...(host.threat_intelligence?.security_labels || []),
+      ...(host.tags || [])
+    ];
+
+    // Null entries in the lists are skipped, as the scorers and validators do
+    (host.services || []).filter(Boolean).forEach(service => {
+      parts.push(`port ${service.port}`, service.service_name, service.protocol, service.transport_protocol);
+      (service.software || []).filter(Boolean).forEach(software => parts.push(software.vendor, software.product, software.version));
+      (service.vulnerabilities || []).filter(Boolean).forEach(vuln => parts.push(vuln.cve_id, vuln.severity, vuln.known_exploited ? 'known exploited' : undefined));
+      if (typeof service.banner === 'string') {
+        parts.push(service.banner.slice(0, MAX_INDEXED_BANNER_CHARS));
+      }
+      const subject = service.certificate?.subject;
+      if (subject) {
+        parts.push(typeof subject === 'string' ? subject : Object.values(subject).join(' '));
+      }
+    });
+
+    if (summary) {
+      parts.push(summary.summary, summary.structured?.riskLevel, summary.risk?.level, summary.risk ? 'risk' : undefined);
+      (summary.structured?.recommendedActions || []).forEach(action => parts.push(action));
+    }
+
+    return parts.filter(part => part !== undefined && part !== null && part !== '').join(' ');
+  }
+}
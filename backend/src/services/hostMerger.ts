@@ -0,0 +1,141 @@
+import { CensysHost, HostMergeReport, MergeConflict } from '../types';
+
+// Conflicts listed individually in the report; the count covers all of them
+const MAX_REPORTED_CONFLICTS = 100;
+
+type Service = NonNullable<CensysHost['services']>[number];
+
+/**
+ * Merges host records from several files (or overlapping shards) into one host
+ * per IP. Services from both records are combined; where both records have a
+ * field or service with different values, the record with the later
+ * last_updated_at wins, and the incoming record wins a tie.
+ */
+export class HostMerger {
+  static merge(existing: CensysHost[], incoming: CensysHost[]): { hosts: CensysHost[]; report: HostMergeReport } {
+    // Records without an IP can't be matched and are kept as they are
+    const hosts: CensysHost[] = [];
+    const positions = new Map<string, number>();
+    const add = (host: CensysHost) => {
+      if (this.hasIP(host)) positions.set(host.ip, hosts.length);
+      hosts.push(host);
+    };
+
+    existing.forEach(add);
+
+    const report: HostMergeReport = {
+      hostsBefore: hosts.length,
+      hostsReceived: incoming.length,
+      hostsAdded: 0,
+      hostsMerged: 0,
+      duplicateHosts: 0,
+      conflicts: 0,
+      hostsAfter: 0,
+      conflictDetails: []
+    };
+
+    const recordConflict = (conflict: MergeConflict) => {
+      report.conflicts++;
+      if (report.conflictDetails.length < MAX_REPORTED_CONFLICTS) {
+        report.conflictDetails.push(conflict);
+      }
+    };
+
+    incoming.forEach(host => {
+      const position = this.hasIP(host) ? positions.get(host.ip) : undefined;
+      if (position === undefined) {
+        add(host);
+        report.hostsAdded++;
+      } else if (this.stableStringify(hosts[position]) === this.stableStringify(host)) {
+        report.duplicateHosts++;
+      } else {
+        hosts[position] = this.mergeHost(hosts[position], host, recordConflict);
+        report.hostsMerged++;
+      }
+    });
+
+    report.hostsAfter = hosts.length;
+    return { hosts, report };
+  }
+
+  private static mergeHost(existing: CensysHost, incoming: CensysHost, recordConflict: (conflict: MergeConflict) => void): CensysHost {
+    const kept = this.updatedAt(incoming) >= this.updatedAt(existing) ? 'incoming' : 'existing';
+    const newer = kept === 'incoming' ? incoming : existing;
+    const merged: CensysHost = { ip: existing.ip };
+
+    new Set([...Object.keys(existing), ...Object.keys(incoming)]).forEach(key => {
+      if (key === 'ip' || key === 'services') return;
+
+      const before = existing[key];
+      const after = incoming[key];
+      if (after === undefined || this.stableStringify(before) === this.stableStringify(after)) {
+        merged[key] = before;
+      } else if (before === undefined) {
+        merged[key] = after;
+      } else if (key === 'last_updated_at') {
+        merged[key] = newer.last_updated_at;
+      } else if (this.isPrimitiveArray(before) && this.isPrimitiveArray(after)) {
+        // Tags and labels from both records
+        merged[key] = Array.from(new Set([...before, ...after]));
+      } else {
+        merged[key] = newer[key];
+        recordConflict({ ip: existing.ip, field: key, kept });
+      }
+    });
+
+    const services = new Map<string, Service>();
+    (existing.services || []).forEach(service => services.set(this.serviceKey(service), service));
+    (incoming.services || []).forEach(service => {
+      const key = this.serviceKey(service);
+      const current = services.get(key);
+      if (!current) {
+        services.set(key, service);
+      } else if (this.stableStringify(current) !== this.stableStringify(service)) {
+        services.set(key, kept === 'incoming' ? service : current);
+        recordConflict({ ip: existing.ip, field: `service ${key}`, kept });
+      }
+    });
+
+    if (existing.services || incoming.services) {
+      merged.services = Array.from(services.values());
+    }
+
+    return merged;
+  }
+
+  private static hasIP(host: CensysHost): boolean {
+    return !!host && typeof host === 'object' && typeof host.ip === 'string' && host.ip !== '';
+  }
+
+  /**
+   * Milliseconds since the epoch, or -Infinity when the record has no usable date
+   */
+  private static updatedAt(host: CensysHost): number {
+    const time = Date.parse(host.last_updated_at || '');
+    return Number.isNaN(time) ? -Infinity : time;
+  }
+
+  private static serviceKey(service: Service): string {
+    return `${service?.port}/${String(service?.transport_protocol || 'tcp').toLowerCase()}`;
+  }
+
+  private static isPrimitiveArray(value: unknown): value is Array<string | number | boolean> {
+    return Array.isArray(value) && value.every(item => item === null || typeof item !== 'object');
+  }
+
+  /**
+   * JSON with object keys sorted, so records that differ only in key order compare equal
+   */
+  private static stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value).sort()
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => `${JSON.stringify(key)}:${this.stableStringify((value as Record<string, unknown>)[key])}`)
+        .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+}
@@ -0,0 +1,252 @@
+import { CensysHost, HostQuery, HostQueryFilters, HostQueryResult, HostSortField } from '../types';
+import { RiskScorer } from './riskScorer';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const SORT_FIELDS: HostSortField[] = ['ip', 'country', 'asn', 'services', 'cvss', 'risk', 'updated'];
+
+// Scores read best highest-first; everything else defaults to ascending
+const DESCENDING_BY_DEFAULT: HostSortField[] = ['cvss', 'risk', 'updated'];
+
+// Query parameters that belong to other layers (authentication for EventSource-style links)
+const IGNORED_PARAMETERS = ['ticket'];
+
+const PARAMETERS = ['port', 'service', 'country', 'asn', 'os', 'cve', 'minCvss', 'tag', 'q', 'sort', 'order', 'page', 'pageSize'];
+
+const CVE_ID = /^CVE-\d{4}-\d{4,}$/i;
+
+/**
+ * Deterministic filtering, sorting and pagination over a session's stored hosts.
+ * Filters combine with AND; a filter given several values (repeated or comma-separated) matches any of them.
+ */
+export class HostQueryEngine {
+  /**
+   * Parse query-string parameters into a query, collecting every problem found
+   */
+  static parse(params: Record<string, unknown>): { query?: HostQuery; errors: string[] } {
+    const errors: string[] = [];
+
+    Object.keys(params)
+      .filter(key => !PARAMETERS.includes(key) && !IGNORED_PARAMETERS.includes(key))
+      .forEach(key => errors.push(`Unknown parameter "${key}". Supported: ${PARAMETERS.join(', ')}`));
+
+    const filters: HostQueryFilters = {};
+
+    const ports = this.list(params.port);
+    if (ports.length > 0) {
+      filters.ports = ports.map(value => this.integer(value, 'port', 0, 65535, errors));
+    }
+
+    const services = this.list(params.service);
+    if (services.length > 0) {
+      filters.services = services.map(value => value.toLowerCase());
+    }
+
+    const countries = this.list(params.country);
+    if (countries.length > 0) {
+      filters.countries = countries.map(value => value.toLowerCase());
+    }
+
+    const asns = this.list(params.asn);
+    if (asns.length > 0) {
+      filters.asns = asns.map(value => this.integer(value.replace(/^AS/i, ''), 'asn', 0, 4294967295, errors));
+    }
+
+    const os = this.single(params.os, 'os', errors);
+    if (os) {
+      filters.os = os.toLowerCase();
+    }
+
+    const cves = this.list(params.cve);
+    if (cves.length > 0) {
+      cves.filter(value => !CVE_ID.test(value)).forEach(value => errors.push(`cve "${value}" is not a CVE ID like CVE-2021-44228`));
+      filters.cves = cves.map(value => value.toUpperCase());
+    }
+
+    const minCvss = this.single(params.minCvss, 'minCvss', errors);
+    if (minCvss !== undefined) {
+      const score = Number(minCvss);
+      if (!Number.isFinite(score) || score < 0 || score > 10) {
+        errors.push('minCvss must be a number from 0 to 10');
+      }
+      filters.minCvss = score;
+    }
+
+    const tags = this.list(params.tag);
+    if (tags.length > 0) {
+      filters.tags = tags.map(value => value.toLowerCase());
+    }
+
+    const text = this.single(params.q, 'q', errors);
+    if (text) {
+      filters.text = text.toLowerCase();
+    }
+
+    const sort = (this.single(params.sort, 'sort', errors) || 'ip') as HostSortField;
+    if (!SORT_FIELDS.includes(sort)) {
+      errors.push(`sort must be one of: ${SORT_FIELDS.join(', ')}`);
+    }
+
+    const order = this.single(params.order, 'order', errors) || (DESCENDING_BY_DEFAULT.includes(sort) ? 'desc' : 'asc');
+    if (order !== 'asc' && order !== 'desc') {
+      errors.push('order must be asc or desc');
+    }
+
+    const page = this.integer(this.single(params.page, 'page', errors) || '1', 'page', 1, Number.MAX_SAFE_INTEGER, errors);
+    const pageSize = this.integer(this.single(params.pageSize, 'pageSize', errors) || String(DEFAULT_PAGE_SIZE), 'pageSize', 1, MAX_PAGE_SIZE, errors);
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    return { query: { filters, sort, order: order as 'asc' | 'desc', page, pageSize }, errors };
+  }
+
+  /**
+   * Apply the query to the hosts
+   */
+  static run(hosts: CensysHost[], query: HostQuery): HostQueryResult {
+    const matching = hosts.filter(host => host && typeof host === 'object' && this.matches(host, query.filters));
+
+    // Sort keys are computed once per host; ties keep file order
+    const sorted = matching
+      .map((host, position) => ({ host, position, key: this.sortKey(host, query.sort) }))
+      .sort((a, b) => {
+        const compared = this.compare(a.key, b.key);
+        return (query.order === 'desc' ? -compared : compared) || a.position - b.position;
+      })
+      .map(entry => entry.host);
+
+    const start = (query.page - 1) * query.pageSize;
+
+    return {
+      hosts: sorted.slice(start, start + query.pageSize),
+      total: sorted.length,
+      page: query.page,
+      pageSize: query.pageSize,
+      totalPages: Math.ceil(sorted.length / query.pageSize),
+      query
+    };
+  }
+
+  static matches(host: CensysHost, filters: HostQueryFilters): boolean {
+    const services = host.services || [];
+    const vulnerabilities = services.flatMap(service => service.vulnerabilities || []);
+
+    if (filters.ports && !services.some(service => filters.ports!.includes(Number(service.port)))) {
+      return false;
+    }
+
+    if (filters.services && !services.some(service => filters.services!.includes(String(service.service_name || '').toLowerCase()))) {
+      return false;
+    }
+
+    if (filters.countries) {
+      const names = [host.location?.country, host.location?.country_code].filter(Boolean).map(value => String(value).toLowerCase());
+      if (!names.some(name => filters.countries!.includes(name))) {
+        return false;
+      }
+    }
+
+    if (filters.asns && !filters.asns.includes(Number(host.autonomous_system?.asn))) {
+      return false;
+    }
+
+    if (filters.os && !String(host.operating_system?.product || '').toLowerCase().includes(filters.os)) {
+      return false;
+    }
+
+    if (filters.cves && !vulnerabilities.some(vuln => filters.cves!.includes(String(vuln?.cve_id || '').toUpperCase()))) {
+      return false;
+    }
+
+    if (filters.minCvss !== undefined && !vulnerabilities.some(vuln => typeof vuln?.cvss_score === 'number' && vuln.cvss_score >= filters.minCvss!)) {
+      return false;
+    }
+
+    if (filters.tags) {
+      const tags = [...(host.tags || []), ...(host.threat_intelligence?.security_labels || [])].map(tag => String(tag).toLowerCase());
+      if (!tags.some(tag => filters.tags!.includes(tag))) {
+        return false;
+      }
+    }
+
+    if (filters.text && !JSON.stringify(host).toLowerCase().includes(filters.text)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private static sortKey(host: CensysHost, sort: HostSortField): Array<number | string> {
+    switch (sort) {
+      case 'ip':
+        return this.ipKey(host.ip);
+      case 'country':
+        return [String(host.location?.country || host.location?.country_code || '').toLowerCase()];
+      case 'asn':
+        return [host.autonomous_system?.asn ?? -1];
+      case 'services':
+        return [(host.services || []).length];
+      case 'cvss':
+        return [Math.max(-1, ...(host.services || []).flatMap(service => service.vulnerabilities || []).map(vuln => vuln?.cvss_score ?? -1))];
+      case 'risk':
+        return [RiskScorer.score(host).score];
+      case 'updated':
+        return [Date.parse(host.last_updated_at || '') || 0];
+    }
+  }
+
+  /**
+   * IPv4 addresses sort numerically, before anything else (IPv6, malformed) which sorts as text
+   */
+  private static ipKey(ip: string): Array<number | string> {
+    const octets = String(ip || '').split('.');
+    if (octets.length === 4 && octets.every(octet => /^\d{1,3}$/.test(octet) && Number(octet) <= 255)) {
+      return [0, ...octets.map(Number)];
+    }
+    return [1, String(ip || '').toLowerCase()];
+  }
+
+  private static compare(a: Array<number | string>, b: Array<number | string>): number {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      if (a[i] === b[i]) continue;
+      if (a[i] === undefined) return -1;
+      if (b[i] === undefined) return 1;
+      return a[i] < b[i] ? -1 : 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Values of a parameter given once, repeated or comma-separated
+   */
+  private static list(value: unknown): string[] {
+    const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    return values
+      .filter((item): item is string => typeof item === 'string')
+      .flatMap(item => item.split(','))
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+
+  private static single(value: unknown, name: string, errors: string[]): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      errors.push(`${name} may only be given once`);
+      return undefined;
+    }
+    return value.trim();
+  }
+
+  private static integer(value: string, name: string, min: number, max: number, errors: string[]): number {
+    const parsed = Number(value);
+    if (!/^\d+$/.test(value) || parsed < min || parsed > max) {
+      errors.push(`${name} "${value}" must be a whole number from ${min} to ${max}`);
+    }
+    return parsed;
+  }
+}
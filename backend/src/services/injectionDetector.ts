@@ -0,0 +1,79 @@
+import { CensysHost, InjectionField, InjectionFinding } from '../types';
+import { inspectCertificate } from '../utils/certificateInfo';
+
+// Characters of context kept on each side of a match in the reported excerpt
+const EXCERPT_CONTEXT_CHARS = 40;
+
+/**
+ * Phrasings that address a language model rather than describe a service.
+ * Matches are reported, never acted on, so a false positive only costs a flag.
+ */
+const INJECTION_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  {
+    name: 'ignore-instructions',
+    pattern: /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(instructions?|prompts?|rules|guidelines|directions)\b/i
+  },
+  { name: 'role-override', pattern: /\b(you are now|you must now|from now on,? you|pretend (to be|you are)|act as an?)\b/i },
+  { name: 'system-prompt', pattern: /\b(system prompt|system message|developer message|new instructions)\b/i },
+  { name: 'chat-markup', pattern: /<\|im_(start|end)\|>|\[\/?INST\]|<\/?(system|assistant)>|^\s*(system|assistant)\s*:/im },
+  {
+    name: 'verdict-manipulation',
+    pattern: /\b(report|mark|classify|rate|label|treat|consider|describe)\b[^.\n]{0,40}\bas\s+(safe|secure|benign|harmless|clean|trusted|low[- ]risk|not vulnerable)\b/i
+  },
+  { name: 'suppress-findings', pattern: /\b(do not|don't|never)\s+(report|mention|flag|disclose|list|include)\b/i }
+];
+
+/**
+ * Finds text in attacker-controlled host fields (banners, HTTP titles,
+ * certificate subjects) that tries to instruct the model reading it
+ */
+export class InjectionDetector {
+  static scanHost(host: CensysHost): InjectionFinding[] {
+    const findings: InjectionFinding[] = [];
+
+    (host?.services || []).forEach(service => {
+      if (!service || typeof service !== 'object') return;
+
+      const check = (field: InjectionField, value: unknown) => {
+        const finding = this.scan(value);
+        if (finding) {
+          findings.push({ ...(service.port !== undefined ? { port: service.port } : {}), field, ...finding });
+        }
+      };
+
+      check('banner', service.banner);
+      check('http title', service.http?.response?.html_title ?? service.http?.html_title ?? service.http?.title);
+      check('certificate subject', inspectCertificate(service.certificate)?.subject);
+    });
+
+    return findings;
+  }
+
+  /**
+   * First pattern that matches the text, with an excerpt around the match
+   */
+  static scan(value: unknown): { pattern: string; excerpt: string } | null {
+    if (typeof value !== 'string' || !value) {
+      return null;
+    }
+
+    for (const { name, pattern } of INJECTION_PATTERNS) {
+      const match = pattern.exec(value);
+      if (match) {
+        const start = Math.max(0, match.index - EXCERPT_CONTEXT_CHARS);
+        const end = Math.min(value.length, match.index + match[0].length + EXCERPT_CONTEXT_CHARS);
+        const excerpt = `${start > 0 ? '...' : ''}${value.slice(start, end)}${end < value.length ? '...' : ''}`;
+        return { pattern: name, excerpt: excerpt.replace(/\s+/g, ' ').trim() };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * "port 80 banner, port 443 certificate subject" for prompts and messages
+   */
+  static describe(findings: InjectionFinding[]): string {
+    return findings.map(finding => `${finding.port !== undefined ? `port ${finding.port} ` : ''}${finding.field}`).join(', ');
+  }
+}
@@ -0,0 +1,176 @@
+import { LLMBudgetLimits, LLMBudgetStatus, LLMBudgetWindow, QuotaExceededInfo } from '../types';
+
+const WINDOW_MS: Record<LLMBudgetWindow, number> = {
+  minute: 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+// Rough token count for budgeting; providers bill prompts at about four characters per token
+const CHARS_PER_TOKEN = 4;
+
+interface WindowUsage {
+  startedAt: number;
+  requests: number;
+  tokens: number;
+}
+
+/**
+ * Thrown instead of calling the model when the LLM budget is used up
+ */
+export class QuotaExceededError extends Error {
+  constructor(readonly limit: string, readonly retryAfterMs: number) {
+    super(`LLM quota exceeded (${limit}). Try again in ${Math.ceil(retryAfterMs / 1000)} second(s).`);
+    this.name = 'QuotaExceededError';
+  }
+
+  get info(): QuotaExceededInfo {
+    return { limit: this.limit, retryAfterSeconds: Math.ceil(this.retryAfterMs / 1000) };
+  }
+}
+
+/**
+ * Read the LLM budget from environment variables (0 disables a limit)
+ */
+export function loadLLMBudgetLimits(env: NodeJS.ProcessEnv = process.env): LLMBudgetLimits {
+  const limit = (value: string | undefined, fallback: number) => {
+    const parsed = parseInt(value ?? String(fallback), 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+  };
+
+  return {
+    requestsPerMinute: limit(env.LLM_REQUESTS_PER_MINUTE, 60),
+    requestsPerDay: limit(env.LLM_REQUESTS_PER_DAY, 0),
+    tokensPerMinute: limit(env.LLM_TOKENS_PER_MINUTE, 1000000),
+    tokensPerDay: limit(env.LLM_TOKENS_PER_DAY, 0)
+  };
+}
+
+/**
+ * Process-wide LLM budget shared by all users. Requests and estimated tokens
+ * are counted in fixed minute and (UTC) day windows; GeminiService reserves
+ * budget before every model call and records the response size afterwards.
+ */
+export class LLMBudget {
+  private static limits: LLMBudgetLimits = loadLLMBudgetLimits();
+  private static windows: Record<LLMBudgetWindow, WindowUsage> = {
+    minute: { startedAt: 0, requests: 0, tokens: 0 },
+    day: { startedAt: 0, requests: 0, tokens: 0 }
+  };
+
+  /**
+   * Change the limits (usage so far is kept)
+   */
+  static configure(limits: Partial<LLMBudgetLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+  }
+
+  /**
+   * Forget usage and re-read limits from the environment
+   */
+  static reset(): void {
+    this.limits = loadLLMBudgetLimits();
+    this.windows = {
+      minute: { startedAt: 0, requests: 0, tokens: 0 },
+      day: { startedAt: 0, requests: 0, tokens: 0 }
+    };
+  }
+
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Count a model call for the prompt, or throw QuotaExceededError if it doesn't fit the budget
+   */
+  static reserve(prompt: string): void {
+    const exceeded = this.check(this.estimateTokens(prompt));
+    if (exceeded) {
+      throw new QuotaExceededError(exceeded.limit, exceeded.retryAfterMs);
+    }
+
+    const tokens = this.estimateTokens(prompt);
+    (['minute', 'day'] as LLMBudgetWindow[]).forEach(window => {
+      const usage = this.usage(window);
+      usage.requests++;
+      usage.tokens += tokens;
+    });
+  }
+
+  /**
+   * Add the tokens of a model response to the current windows
+   */
+  static recordResponse(response: string): void {
+    const tokens = this.estimateTokens(response);
+    (['minute', 'day'] as LLMBudgetWindow[]).forEach(window => {
+      this.usage(window).tokens += tokens;
+    });
+  }
+
+  /**
+   * Milliseconds until another model call fits the budget (0 if one fits now)
+   */
+  static retryAfter(): number {
+    return this.check(0)?.retryAfterMs ?? 0;
+  }
+
+  /**
+   * Which limit is exhausted right now, if any
+   */
+  static exceeded(): QuotaExceededInfo | null {
+    const exceeded = this.check(0);
+    return exceeded ? new QuotaExceededError(exceeded.limit, exceeded.retryAfterMs).info : null;
+  }
+
+  static status(): LLMBudgetStatus {
+    return {
+      limits: { ...this.limits },
+      usage: (['minute', 'day'] as LLMBudgetWindow[]).map(window => {
+        const usage = this.usage(window);
+        return {
+          window,
+          requests: usage.requests,
+          tokens: usage.tokens,
+          resetsAt: new Date(usage.startedAt + WINDOW_MS[window]).toISOString()
+        };
+      })
+    };
+  }
+
+  /**
+   * The first limit one more request of `tokens` would exceed, with the time until its window resets
+   */
+  private static check(tokens: number): { limit: string; retryAfterMs: number } | null {
+    const checks: Array<[LLMBudgetWindow, 'requests' | 'tokens', number, number]> = [
+      ['minute', 'requests', this.limits.requestsPerMinute, 1],
+      ['minute', 'tokens', this.limits.tokensPerMinute, tokens],
+      ['day', 'requests', this.limits.requestsPerDay, 1],
+      ['day', 'tokens', this.limits.tokensPerDay, tokens]
+    ];
+
+    for (const [window, unit, max, needed] of checks) {
+      const usage = this.usage(window);
+      // A single prompt larger than the whole token limit is let through on an empty window rather than blocked forever
+      const fits = unit === 'requests' ? usage.requests + needed <= max : usage.tokens === 0 || usage.tokens + needed <= max;
+      if (max > 0 && !fits) {
+        return {
+          limit: `${unit} per ${window}`,
+          retryAfterMs: Math.max(1000, usage.startedAt + WINDOW_MS[window] - Date.now())
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Usage for the current window, starting a new one (aligned to the minute or UTC day) when it has passed
+   */
+  private static usage(window: LLMBudgetWindow): WindowUsage {
+    const now = Date.now();
+    const startedAt = now - (now % WINDOW_MS[window]);
+    if (this.windows[window].startedAt !== startedAt) {
+      this.windows[window] = { startedAt, requests: 0, tokens: 0 };
+    }
+    return this.windows[window];
+  }
+}
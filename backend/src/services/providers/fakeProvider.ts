@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { ChatToolCall, ChatToolDefinition, ChatToolExchange, ChatToolStep, ChatTurn, LLMProvider } from '../../types';
+
+type FakeMode = 'text' | 'json' | 'chat' | 'tools';
+
+type FakeResponder = (prompt: string, mode: FakeMode) => string | object | undefined;
+
+/**
+ * Deterministic in-process provider for tests and air-gapped environments.
+ * The same prompt always produces the same response and nothing leaves the process.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+  readonly calls: Array<{ mode: FakeMode; prompt: string; turns?: ChatTurn[] }> = [];
+
+  constructor(readonly model: string = 'fake-model', private readonly responder?: FakeResponder) {}
+
+  async generateText(prompt: string): Promise<string> {
+    this.calls.push({ mode: 'text', prompt });
+
+    const custom = this.responder?.(prompt, 'text');
+    if (custom !== undefined) {
+      return typeof custom === 'string' ? custom : JSON.stringify(custom);
+    }
+
+    if (prompt.includes('Please respond with "OK"')) {
+      return 'OK';
+    }
+
+    // Summarization prompts get a minimal schema-valid structured summary
+    if (prompt.includes('structured host summary')) {
+      return JSON.stringify({
+        riskLevel: 'none',
+        keyServices: [],
+        notableCVEs: [],
+        certificateFindings: [],
+        operatingSystem: null,
+        recommendedActions: [],
+        narrative: `Deterministic response from ${this.model} (prompt ${this.digest(prompt)}).`
+      });
+    }
+
+    return `Deterministic response from ${this.model} (prompt ${this.digest(prompt)}).`;
+  }
+
+  /**
+   * Chat calls are recorded with their turns; the prompt is the system prompt followed by the transcript
+   */
+  async generateChat(systemPrompt: string, turns: ChatTurn[]): Promise<string> {
+    const prompt = [systemPrompt, ...turns.map(turn => `${turn.role}: ${turn.content}`)].join('\n\n');
+    this.calls.push({ mode: 'chat', prompt, turns });
+
+    const custom = this.responder?.(prompt, 'chat');
+    if (custom !== undefined) {
+      return typeof custom === 'string' ? custom : JSON.stringify(custom);
+    }
+
+    return `Deterministic response from ${this.model} (prompt ${this.digest(prompt)}).`;
+  }
+
+  /**
+   * Tool-using chat answers with text unless the responder returns { toolCalls: [...] }.
+   * The prompt also lists the available tools and every earlier call and result.
+   */
+  async generateToolChat(
+    systemPrompt: string,
+    turns: ChatTurn[],
+    tools: ChatToolDefinition[],
+    exchanges: ChatToolExchange[],
+    allowToolCalls: boolean
+  ): Promise<ChatToolStep> {
+    const prompt = [
+      systemPrompt,
+      `tools: ${allowToolCalls ? tools.map(tool => tool.name).join(', ') : 'none'}`,
+      ...turns.map(turn => `${turn.role}: ${turn.content}`),
+      ...exchanges.flatMap(exchange => exchange.calls.map((call, i) =>
+        `tool call: ${call.name} ${JSON.stringify(call.arguments)}\ntool result: ${JSON.stringify(exchange.results[i])}`))
+    ].join('\n\n');
+    this.calls.push({ mode: 'tools', prompt, turns });
+
+    const custom = this.responder?.(prompt, 'tools');
+    if (custom !== undefined && typeof custom === 'object' && Array.isArray((custom as any).toolCalls) && allowToolCalls) {
+      const toolCalls: ChatToolCall[] = (custom as any).toolCalls.map((call: any, i: number) => ({
+        id: `call_${this.calls.length}_${i}`,
+        name: call.name,
+        arguments: call.arguments || {}
+      }));
+      return { text: '', toolCalls };
+    }
+
+    if (custom !== undefined && typeof custom === 'string') {
+      return { text: custom, toolCalls: [] };
+    }
+
+    return { text: `Deterministic response from ${this.model} (prompt ${this.digest(prompt)}).`, toolCalls: [] };
+  }
+
+  async generateJSON<T = any>(prompt: string): Promise<T> {
+    this.calls.push({ mode: 'json', prompt });
+
+    const custom = this.responder?.(prompt, 'json');
+    if (custom !== undefined) {
+      return (typeof custom === 'string' ? JSON.parse(custom) : custom) as T;
+    }
+
+    // Data validation prompts get an affirmative answer so uploads go through
+    if (prompt.includes('appears to be Censys host data')) {
+      return {
+        isCensysData: true,
+        confidence: 1,
+        reasoning: 'Validated by the fake provider',
+        identifiedFields: [],
+        concerns: []
+      } as T;
+    }
+
+    return {} as T;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Short stable fingerprint of a prompt
+   */
+  private digest(prompt: string): string {
+    return crypto.createHash('sha256').update(prompt).digest('hex').slice(0, 8);
+  }
+}
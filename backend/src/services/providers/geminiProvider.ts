@@ -0,0 +1,151 @@
+import { Content, FunctionCallingMode, FunctionDeclaration, FunctionDeclarationSchema, GoogleGenerativeAI } from '@google/generative-ai';
+import { ChatToolDefinition, ChatToolExchange, ChatToolSchema, ChatToolStep, ChatTurn, LLMProvider } from '../../types';
+import { parseJSONResponse } from '../../utils/jsonResponse';
+
+/**
+ * LLM provider backed by Google's Gemini API
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private genAI: GoogleGenerativeAI | null = null;
+
+  constructor(readonly model: string, private readonly apiKey?: string) {}
+
+  /**
+   * Initialize Gemini AI client
+   */
+  private initializeClient(): GoogleGenerativeAI {
+    if (!this.genAI) {
+      if (!this.apiKey) {
+        throw new Error('GEMINI_API_KEY environment variable is not set');
+      }
+
+      this.genAI = new GoogleGenerativeAI(this.apiKey);
+    }
+
+    return this.genAI;
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    const model = this.initializeClient().getGenerativeModel({ model: this.model });
+
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+
+    return response.text();
+  }
+
+  async generateChat(systemPrompt: string, turns: ChatTurn[]): Promise<string> {
+    const model = this.initializeClient().getGenerativeModel({ model: this.model, systemInstruction: systemPrompt });
+
+    // Gemini calls the assistant "model"
+    const chat = model.startChat({
+      history: turns.slice(0, -1).map(turn => ({
+        role: turn.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: turn.content }]
+      }))
+    });
+
+    const result = await chat.sendMessage(turns[turns.length - 1]?.content || '');
+    const response = await result.response;
+
+    return response.text();
+  }
+
+  async generateToolChat(
+    systemPrompt: string,
+    turns: ChatTurn[],
+    tools: ChatToolDefinition[],
+    exchanges: ChatToolExchange[],
+    allowToolCalls: boolean
+  ): Promise<ChatToolStep> {
+    const model = this.initializeClient().getGenerativeModel({
+      model: this.model,
+      systemInstruction: systemPrompt,
+      tools: [{ functionDeclarations: this.functionDeclarations(tools) }],
+      toolConfig: { functionCallingConfig: { mode: allowToolCalls ? FunctionCallingMode.AUTO : FunctionCallingMode.NONE } }
+    });
+
+    // Each round of calls is a model turn followed by a function turn with the results
+    const contents: Content[] = [
+      ...turns.map(turn => ({
+        role: turn.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: turn.content }]
+      })),
+      ...exchanges.flatMap(exchange => [
+        {
+          role: 'model',
+          parts: exchange.calls.map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+        },
+        {
+          role: 'function',
+          parts: exchange.calls.map((call, i) => ({ functionResponse: { name: call.name, response: { content: exchange.results[i] } } }))
+        }
+      ])
+    ];
+
+    const result = await model.generateContent({ contents });
+    const response = await result.response;
+    const functionCalls = response.functionCalls() || [];
+
+    // Gemini does not number its calls, so IDs are assigned here
+    return {
+      text: functionCalls.length > 0 ? '' : response.text(),
+      toolCalls: functionCalls.map((call, i) => ({
+        id: `call_${exchanges.length}_${i}`,
+        name: call.name,
+        arguments: (call.args || {}) as Record<string, unknown>
+      }))
+    };
+  }
+
+  async generateJSON<T = any>(prompt: string): Promise<T> {
+    const model = this.initializeClient().getGenerativeModel({
+      model: this.model,
+      generationConfig: { responseMimeType: 'application/json' }
+    });
+
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+
+    return parseJSONResponse<T>(response.text());
+  }
+
+  /**
+   * Gemini rejects an object schema without properties, so tools that take
+   * no arguments are declared without parameters
+   */
+  functionDeclarations(tools: ChatToolDefinition[]): FunctionDeclaration[] {
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      ...(Object.keys(tool.parameters.properties || {}).length > 0
+        ? { parameters: this.toGeminiSchema(tool.parameters) as FunctionDeclarationSchema }
+        : {})
+    }));
+  }
+
+  /**
+   * Gemini spells schema types in upper case
+   */
+  private toGeminiSchema(schema: ChatToolSchema): object {
+    return {
+      ...schema,
+      type: schema.type.toUpperCase(),
+      ...(schema.items ? { items: this.toGeminiSchema(schema.items) } : {}),
+      ...(schema.properties
+        ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, this.toGeminiSchema(value)])) }
+        : {})
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const text = await this.generateText('Test connection. Please respond with "OK".');
+      return text.includes('OK');
+    } catch (error) {
+      // Gemini connection test failed
+      return false;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { LLMProvider, LLMProviderConfig, LLMProviderName } from '../../types';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { FakeProvider } from './fakeProvider';
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  fake: 'fake-model'
+};
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Read provider configuration from environment variables
+ */
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMProviderConfig {
+  const provider = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+  if (!(provider in DEFAULT_MODELS)) {
+    throw new Error(`Unsupported LLM_PROVIDER "${provider}". Expected one of: ${Object.keys(DEFAULT_MODELS).join(', ')}`);
+  }
+
+  const name = provider as LLMProviderName;
+
+  return {
+    provider: name,
+    model: env.LLM_MODEL || DEFAULT_MODELS[name],
+    apiKey: name === 'gemini' ? env.GEMINI_API_KEY : env.OPENAI_API_KEY,
+    baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1'
+  };
+}
+
+/**
+ * Build a provider instance for the given configuration
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config.model, config.apiKey);
+    case 'openai':
+      return new OpenAICompatibleProvider(config.model, config.baseUrl || 'https://api.openai.com/v1', config.apiKey);
+    case 'fake':
+      return new FakeProvider(config.model);
+    default:
+      throw new Error(`Unsupported LLM provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Get the configured provider, creating it on first use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider(loadLLMConfig());
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Override the active provider (pass null to re-read configuration on next use)
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+export { GeminiProvider, OpenAICompatibleProvider, FakeProvider };
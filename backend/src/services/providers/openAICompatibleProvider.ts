@@ -0,0 +1,136 @@
+import { ChatToolDefinition, ChatToolExchange, ChatToolStep, ChatTurn, LLMProvider } from '../../types';
+import { parseJSONResponse } from '../../utils/jsonResponse';
+
+/**
+ * LLM provider for any endpoint speaking the OpenAI chat completions API
+ * (OpenAI itself, vLLM, Ollama, LM Studio, OpenRouter, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string
+  ) {}
+
+  /**
+   * Send a chat completion request and return the response message
+   */
+  private async request(body: Record<string, unknown>): Promise<any> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, ...body })
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM endpoint returned HTTP ${response.status}`);
+    }
+
+    const result: any = await response.json();
+    const message = result?.choices?.[0]?.message;
+
+    if (!message) {
+      throw new Error('LLM endpoint returned no message');
+    }
+
+    return message;
+  }
+
+  /**
+   * Send a chat completion request and return the message text
+   */
+  private async complete(messages: Array<{ role: string; content: string }>, jsonMode: boolean): Promise<string> {
+    const message = await this.request({
+      messages,
+      ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
+    });
+
+    if (typeof message.content !== 'string') {
+      throw new Error('LLM endpoint returned no message content');
+    }
+
+    return message.content;
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    return this.complete([{ role: 'user', content: prompt }], false);
+  }
+
+  async generateChat(systemPrompt: string, turns: ChatTurn[]): Promise<string> {
+    return this.complete([{ role: 'system', content: systemPrompt }, ...turns], false);
+  }
+
+  async generateToolChat(
+    systemPrompt: string,
+    turns: ChatTurn[],
+    tools: ChatToolDefinition[],
+    exchanges: ChatToolExchange[],
+    allowToolCalls: boolean
+  ): Promise<ChatToolStep> {
+    const message = await this.request({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...turns,
+        ...exchanges.flatMap(exchange => [
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: exchange.calls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+            }))
+          },
+          ...exchange.calls.map((call, i) => ({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(exchange.results[i]) }))
+        ])
+      ],
+      tools: tools.map(tool => ({ type: 'function', function: tool })),
+      tool_choice: allowToolCalls ? 'auto' : 'none'
+    });
+
+    const toolCalls = Array.isArray(message.tool_calls) ? message.tool_calls : [];
+
+    return {
+      text: typeof message.content === 'string' ? message.content : '',
+      toolCalls: toolCalls.map((call: any, i: number) => ({
+        id: call.id || `call_${exchanges.length}_${i}`,
+        name: call.function?.name,
+        arguments: this.parseArguments(call.function?.arguments)
+      }))
+    };
+  }
+
+  async generateJSON<T = any>(prompt: string): Promise<T> {
+    return parseJSONResponse<T>(await this.complete([{ role: 'user', content: prompt }], true));
+  }
+
+  /**
+   * Tool arguments arrive as a JSON string; unparseable arguments become empty so the tool reports what is missing
+   */
+  private parseArguments(raw: unknown): Record<string, unknown> {
+    try {
+      const parsed = typeof raw === 'string' ? JSON.parse(raw) : raw;
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      // Malformed tool arguments
+      return {};
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const text = await this.generateText('Test connection. Please respond with "OK".');
+      return text.includes('OK');
+    } catch (error) {
+      // Endpoint connection test failed
+      return false;
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { RedactionCategory, RedactionConfig } from '../types';
+
+const PSEUDONYM_LABELS: Record<RedactionCategory, string> = {
+  secrets: 'SECRET',
+  emails: 'EMAIL',
+  ips: 'IP',
+  hostnames: 'HOST'
+};
+
+const PSEUDONYM = /\[(SECRET|EMAIL|IP|HOST)_\d+\]/g;
+
+const OCTET = '(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)';
+const HEX_GROUP = '[0-9a-f]{1,4}';
+
+// Words with a dot that look like hostnames but are file names
+const FILE_EXTENSIONS = new Set([
+  'asp', 'aspx', 'cfg', 'cgi', 'conf', 'crt', 'css', 'csv', 'dll', 'exe', 'gif', 'gz', 'htm', 'html', 'ini', 'jpg',
+  'js', 'json', 'jsonl', 'jsp', 'key', 'log', 'md', 'ndjson', 'pem', 'php', 'png', 'py', 'sh', 'so', 'svg', 'tar',
+  'ts', 'txt', 'xml', 'yaml', 'yml', 'zip'
+]);
+
+/**
+ * What to look for, in the order it is replaced. Patterns with `prefixed` have
+ * two groups and only the second (the value after a label) is replaced.
+ */
+const REDACTION_RULES: Array<{ category: RedactionCategory; pattern: RegExp; prefixed?: boolean }> = [
+  { category: 'secrets', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { category: 'secrets', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { category: 'secrets', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { category: 'secrets', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { category: 'secrets', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { category: 'secrets', pattern: /\b(?:sk|rk|pk)_(?:live|test)_[0-9A-Za-z]{16,}\b|\bsk-[A-Za-z0-9_-]{20,}/g },
+  { category: 'secrets', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g },
+  { category: 'secrets', pattern: /(\b(?:Bearer|Basic|Token)\s+)([A-Za-z0-9._~+/=-]{16,})/g, prefixed: true },
+  {
+    category: 'secrets',
+    pattern: /(\b(?:api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret|secret|password|passwd|pwd|token)\b\\?["']?\s*[:=]\s*\\?["']?)([^\s"'\\<>,;&[\]]{6,})/gi,
+    prefixed: true
+  },
+  { category: 'emails', pattern: /\b[A-Za-z0-9._%+-]+@(?:[A-Za-z0-9-]+\.)+[A-Za-z]{2,}\b/g },
+  { category: 'ips', pattern: new RegExp(`(?<![\\d.])(?:${OCTET}\\.){3}${OCTET}(?!\\.?\\d)`, 'g') },
+  {
+    category: 'ips',
+    pattern: new RegExp(`(?<![0-9a-f:])(?:(?:${HEX_GROUP}:){7}${HEX_GROUP}|(?:${HEX_GROUP}:){1,7}:(?:${HEX_GROUP}(?::${HEX_GROUP}){0,6})?)(?![0-9a-f:])`, 'gi')
+  },
+  { category: 'hostnames', pattern: /(?<![\w@.-])(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,61}[a-z0-9](?![\w-]|\.\w)/gi }
+];
+
+/**
+ * Read which kinds of data are masked before LLM calls from environment variables
+ */
+export function loadRedactionConfig(env: NodeJS.ProcessEnv = process.env): RedactionConfig {
+  return {
+    secrets: env.REDACT_SECRETS !== 'false',
+    emails: env.REDACT_EMAILS !== 'false',
+    ips: env.REDACT_IPS === 'true',
+    hostnames: env.REDACT_HOSTNAMES === 'true'
+  };
+}
+
+/**
+ * Replaces secrets, emails and optionally IPs and hostnames with pseudonyms
+ * like [EMAIL_1] before text goes to the model, and maps them back in what the
+ * model returns. The same value always gets the same pseudonym from one
+ * Redactor, so use one per summarized host or chat answer.
+ */
+export class Redactor {
+  private pseudonyms = new Map<string, string>();
+  private originals = new Map<string, string>();
+  private counters = new Map<RedactionCategory, number>();
+
+  constructor(readonly config: RedactionConfig = loadRedactionConfig()) {}
+
+  redact(text: string): string {
+    return REDACTION_RULES
+      .filter(rule => this.config[rule.category])
+      .reduce((result, rule) => result.replace(rule.pattern, (match: string, prefix?: string, value?: string) => {
+        if (rule.prefixed) {
+          return `${prefix}${this.pseudonym(rule.category, value!)}`;
+        }
+        if (rule.category === 'hostnames' && FILE_EXTENSIONS.has(match.slice(match.lastIndexOf('.') + 1).toLowerCase())) {
+          return match;
+        }
+        return this.pseudonym(rule.category, match);
+      }), text);
+  }
+
+  /**
+   * Put the original values back; pseudonyms this Redactor never issued are left alone
+   */
+  restore(text: string): string {
+    return text.replace(PSEUDONYM, pseudonym => this.originals.get(pseudonym) ?? pseudonym);
+  }
+
+  /**
+   * redact for every string in a JSON-like value (tool calls and results)
+   */
+  redactDeep<T>(value: T): T {
+    return this.mapStrings(value, text => this.redact(text));
+  }
+
+  restoreDeep<T>(value: T): T {
+    return this.mapStrings(value, text => this.restore(text));
+  }
+
+  private pseudonym(category: RedactionCategory, value: string): string {
+    // Emails and hostnames are case-insensitive; secrets and IPv6 casing is kept as is
+    const key = `${category}:${category === 'emails' || category === 'hostnames' ? value.toLowerCase() : value}`;
+    let pseudonym = this.pseudonyms.get(key);
+    if (!pseudonym) {
+      const count = (this.counters.get(category) || 0) + 1;
+      this.counters.set(category, count);
+      pseudonym = `[${PSEUDONYM_LABELS[category]}_${count}]`;
+      this.pseudonyms.set(key, pseudonym);
+      this.originals.set(pseudonym, value);
+    }
+    return pseudonym;
+  }
+
+  private mapStrings<T>(value: T, map: (text: string) => string): T {
+    if (typeof value === 'string') {
+      return map(value) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.mapStrings(item, map)) as unknown as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.mapStrings(item, map)])) as T;
+    }
+    return value;
+  }
+}
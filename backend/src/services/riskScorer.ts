@@ -0,0 +1,212 @@
+import { CensysHost, HostRiskScore, HostSummary, RiskFactor, RiskLevel } from '../types';
+import { inspectCertificate } from '../utils/certificateInfo';
+
+type CensysService = NonNullable<CensysHost['services']>[number];
+
+interface RemoteAccessService {
+  names: string[];
+  ports: number[];
+  label: string;
+  points: number;
+}
+
+// Admin and remote-access services that shouldn't normally be reachable from the internet,
+// with the points each one adds and the ports they usually listen on
+const REMOTE_ACCESS_SERVICES: RemoteAccessService[] = [
+  { names: ['TELNET'], ports: [23], label: 'Telnet', points: 15 },
+  { names: ['RDP'], ports: [3389], label: 'RDP', points: 15 },
+  { names: ['SMB', 'MICROSOFT-DS', 'NETBIOS-SSN'], ports: [139, 445], label: 'SMB', points: 15 },
+  { names: ['VNC'], ports: [5900], label: 'VNC', points: 12 },
+  { names: ['MYSQL'], ports: [3306], label: 'MySQL', points: 12 },
+  { names: ['POSTGRES', 'POSTGRESQL'], ports: [5432], label: 'PostgreSQL', points: 12 },
+  { names: ['MSSQL', 'MS-SQL-S'], ports: [1433], label: 'Microsoft SQL Server', points: 12 },
+  { names: ['MONGODB'], ports: [27017], label: 'MongoDB', points: 12 },
+  { names: ['REDIS'], ports: [6379], label: 'Redis', points: 12 },
+  { names: ['ELASTICSEARCH'], ports: [9200], label: 'Elasticsearch', points: 12 },
+  { names: ['MEMCACHED'], ports: [11211], label: 'Memcached', points: 12 },
+  { names: ['FTP'], ports: [21], label: 'FTP', points: 8 }
+];
+
+const THREAT_LEVEL_POINTS: Record<string, number> = {
+  critical: 45,
+  high: 35,
+  medium: 20,
+  low: 5
+};
+
+// Upper bounds per category so one noisy input can't dominate the score
+const MAX_EXPOSURE_POINTS = 30;
+const MAX_CERTIFICATE_POINTS = 10;
+const MAX_LABEL_POINTS = 15;
+const MAX_EXTRA_CVE_POINTS = 10;
+
+// A single CVE scores CVSS x 5, so these thresholds keep it in its CVSS severity band
+const RISK_LEVEL_THRESHOLDS: Array<[number, RiskLevel]> = [
+  [45, 'critical'],
+  [35, 'high'],
+  [20, 'medium'],
+  [1, 'low']
+];
+
+/**
+ * Deterministic, local host risk scoring. The same host always gets the same
+ * score, so results can be sorted and compared without involving the LLM.
+ */
+export class RiskScorer {
+  /**
+   * Score a host from 0 to 100 and list the factors that contributed
+   */
+  static score(host: CensysHost): HostRiskScore {
+    const factors = [
+      ...this.vulnerabilityFactors(host),
+      ...this.capped(this.exposureFactors(host), MAX_EXPOSURE_POINTS),
+      ...this.capped(this.certificateFactors(host), MAX_CERTIFICATE_POINTS),
+      ...this.threatIntelligenceFactors(host)
+    ]
+      .filter(factor => factor.points > 0)
+      .sort((a, b) => b.points - a.points);
+
+    const score = Math.min(100, Math.round(factors.reduce((total, factor) => total + factor.points, 0)));
+
+    return {
+      score,
+      level: RISK_LEVEL_THRESHOLDS.find(([threshold]) => score >= threshold)?.[1] || 'none',
+      factors
+    };
+  }
+
+  /**
+   * Whether a service is an admin/remote-access service that adds exposure risk
+   */
+  static isRemoteAccessService(service: CensysService): boolean {
+    return this.remoteAccessService(service) !== undefined;
+  }
+
+  /**
+   * Order summaries by risk score (highest first by default); unscored summaries go last
+   */
+  static sortSummaries(summaries: HostSummary[], order: 'asc' | 'desc' = 'desc'): HostSummary[] {
+    const direction = order === 'asc' ? 1 : -1;
+
+    return [...summaries].sort((a, b) => {
+      if (!a.risk || !b.risk) {
+        return (a.risk ? 0 : 1) - (b.risk ? 0 : 1);
+      }
+      return (a.risk.score - b.risk.score) * direction;
+    });
+  }
+
+  /**
+   * The worst CVE counts in full; other high/critical CVEs add a little each
+   */
+  private static vulnerabilityFactors(host: CensysHost): RiskFactor[] {
+    const cvssById = new Map<string, number>();
+    (host.services || [])
+      .flatMap(service => service.vulnerabilities || [])
+      .filter((vuln: any) => vuln && vuln.cve_id)
+      .forEach((vuln: any) => {
+        const cvss = typeof vuln.cvss_score === 'number' ? vuln.cvss_score : 0;
+        cvssById.set(vuln.cve_id, Math.max(cvssById.get(vuln.cve_id) ?? 0, cvss));
+      });
+
+    const sorted = Array.from(cvssById.entries()).sort((a, b) => b[1] - a[1]);
+    if (sorted.length === 0) {
+      return [];
+    }
+
+    const [worstId, worstCVSS] = sorted[0];
+    const factors: RiskFactor[] = [{
+      category: 'vulnerability',
+      description: worstCVSS > 0 ? `${worstId} (CVSS ${worstCVSS})` : `${worstId} (no CVSS score)`,
+      // A CVE without a score still counts as a medium-severity finding
+      points: (worstCVSS > 0 ? worstCVSS : 4) * 5
+    }];
+
+    const otherSevere = sorted.slice(1).filter(([, cvss]) => cvss >= 7);
+    if (otherSevere.length > 0) {
+      factors.push({
+        category: 'vulnerability',
+        description: `${otherSevere.length} more high/critical CVE(s): ${otherSevere.map(([id]) => id).join(', ')}`,
+        points: Math.min(MAX_EXTRA_CVE_POINTS, otherSevere.length * 2)
+      });
+    }
+
+    return factors;
+  }
+
+  private static exposureFactors(host: CensysHost): RiskFactor[] {
+    return (host.services || []).flatMap(service => {
+      const match = this.remoteAccessService(service);
+      return match
+        ? [{ category: 'exposure' as const, description: `${match.label} exposed on port ${service.port}`, points: match.points }]
+        : [];
+    });
+  }
+
+  private static certificateFactors(host: CensysHost): RiskFactor[] {
+    return (host.services || []).flatMap(service => {
+      const cert = inspectCertificate(service.certificate);
+      const factors: RiskFactor[] = [];
+      if (cert?.expired) {
+        factors.push({ category: 'certificate', description: `Expired certificate on port ${service.port}`, points: 5 });
+      }
+      if (cert?.selfSigned) {
+        factors.push({ category: 'certificate', description: `Self-signed certificate on port ${service.port}`, points: 5 });
+      }
+      return factors;
+    });
+  }
+
+  private static threatIntelligenceFactors(host: CensysHost): RiskFactor[] {
+    const intel = host.threat_intelligence;
+    if (!intel) {
+      return [];
+    }
+
+    const factors: RiskFactor[] = [];
+    const level = String(intel.risk_level || '').toLowerCase();
+    if (THREAT_LEVEL_POINTS[level]) {
+      factors.push({
+        category: 'threat-intelligence',
+        description: `Threat intelligence rates the host ${level} risk`,
+        points: THREAT_LEVEL_POINTS[level]
+      });
+    }
+
+    const labels = Array.isArray(intel.security_labels) ? intel.security_labels.filter(Boolean) : [];
+    if (labels.length > 0) {
+      factors.push({
+        category: 'threat-intelligence',
+        description: `Security labels: ${labels.join(', ')}`,
+        points: Math.min(MAX_LABEL_POINTS, labels.length * 5)
+      });
+    }
+
+    return factors;
+  }
+
+  /**
+   * Match by service name, or by well-known port when the service wasn't identified
+   */
+  private static remoteAccessService(service: CensysService): RemoteAccessService | undefined {
+    const name = String(service.service_name || '').toUpperCase();
+    if (name && name !== 'UNKNOWN') {
+      return REMOTE_ACCESS_SERVICES.find(candidate => candidate.names.includes(name));
+    }
+    return REMOTE_ACCESS_SERVICES.find(candidate => candidate.ports.includes(service.port));
+  }
+
+  /**
+   * Keep the highest factors of a category until its cap, trimming the last one to fit
+   */
+  private static capped(factors: RiskFactor[], maxPoints: number): RiskFactor[] {
+    let remaining = maxPoints;
+    return [...factors]
+      .sort((a, b) => b.points - a.points)
+      .map(factor => {
+        const points = Math.min(factor.points, remaining);
+        remaining -= points;
+        return { ...factor, points };
+      });
+  }
+}
@@ -0,0 +1,217 @@
+import { CensysHost, StructuredHostSummary } from '../types';
+import { CertificateInfo, inspectCertificate } from '../utils/certificateInfo';
+import { dataSourceLabel, hostDataSource } from '../utils/dataSource';
+import { RiskScorer } from './riskScorer';
+
+/**
+ * Template-based host summarizer that runs entirely locally.
+ * Used when the LLM is unavailable or must not see the data.
+ */
+export class RuleBasedSummarizer {
+  /**
+   * Build a structured summary with the same fields the LLM is asked for
+   */
+  static summarizeStructured(host: CensysHost): StructuredHostSummary {
+    const vulns = this.uniqueVulnerabilities(host);
+    const services = host.services || [];
+    const certificateFindings = this.certificateFindings(host);
+
+    const recommendedActions: string[] = [];
+    if (vulns.length > 0) {
+      recommendedActions.push(`Patch ${vulns.slice(0, 3).map(vuln => vuln.cve_id).join(', ')}${vulns.length > 3 ? ` and ${vulns.length - 3} more` : ''}.`);
+    }
+    services
+      .filter(service => RiskScorer.isRemoteAccessService(service))
+      .forEach(service => recommendedActions.push(`Restrict access to ${service.service_name || 'the service'} on port ${service.port}.`));
+    if (certificateFindings.some(finding => finding.includes('expired'))) {
+      recommendedActions.push('Renew expired TLS certificates.');
+    }
+
+    const os = host.operating_system;
+
+    return {
+      riskLevel: RiskScorer.score(host).level,
+      keyServices: services.map(service => {
+        const software = (service.software || [])
+          .map((sw: any) => [sw.product, sw.version].filter(Boolean).join(' '))
+          .filter(Boolean)
+          .join(', ');
+        return {
+          port: service.port,
+          service: service.service_name || service.protocol || 'unknown',
+          ...(software ? { software } : {})
+        };
+      }),
+      notableCVEs: vulns.map(vuln => ({
+        cveId: vuln.cve_id,
+        ...(typeof vuln.cvss_score === 'number' ? { cvssScore: vuln.cvss_score } : {})
+      })),
+      certificateFindings,
+      operatingSystem: os?.product ? [os.product, os.version].filter(Boolean).join(' ') : null,
+      recommendedActions,
+      narrative: this.summarize(host)
+    };
+  }
+
+  /**
+   * Build a readable paragraph describing a single host
+   */
+  static summarize(host: CensysHost): string {
+    const sentences: string[] = [];
+
+    sentences.push(this.describeLocation(host));
+
+    const services = this.describeServices(host);
+    if (services) sentences.push(services);
+
+    const os = this.describeOperatingSystem(host);
+    if (os) sentences.push(os);
+
+    sentences.push(this.describeVulnerabilities(host));
+
+    const threat = this.describeThreatIntelligence(host);
+    if (threat) sentences.push(threat);
+
+    sentences.push(`Source: ${dataSourceLabel(hostDataSource(host))} data.`);
+
+    return sentences.join(' ');
+  }
+
+  /**
+   * "[IP] is located in [city, country] on AS[asn] ([name])."
+   */
+  private static describeLocation(host: CensysHost): string {
+    const place = [host.location?.city, host.location?.country].filter(Boolean).join(', ');
+    const asn = host.autonomous_system;
+
+    let sentence = `${host.ip}`;
+    sentence += place ? ` is located in ${place}` : ' has no known location';
+
+    if (asn?.name || asn?.asn) {
+      const asLabel = asn.asn ? `AS${asn.asn}` : 'an autonomous system';
+      sentence += ` and is announced by ${asLabel}${asn.name ? ` (${asn.name})` : ''}`;
+    }
+
+    return `${sentence}.`;
+  }
+
+  /**
+   * Lists open ports with their service names and detected software
+   */
+  private static describeServices(host: CensysHost): string | null {
+    const services = host.services || [];
+    if (services.length === 0) {
+      return 'No open services were observed.';
+    }
+
+    const entries = services.map(service => {
+      const name = service.service_name || service.protocol || 'unknown service';
+      const transport = service.transport_protocol ? `/${service.transport_protocol.toLowerCase()}` : '';
+      const software = (service.software || [])
+        .map((sw: any) => [sw.product, sw.version].filter(Boolean).join(' '))
+        .filter(Boolean);
+
+      return `${name} on port ${service.port}${transport}${software.length ? ` (${software.join(', ')})` : ''}`;
+    });
+
+    const noun = services.length === 1 ? 'service' : 'services';
+    return `The host exposes ${services.length} ${noun}: ${entries.join('; ')}.`;
+  }
+
+  /**
+   * Operating system product, version and vendor if detected
+   */
+  private static describeOperatingSystem(host: CensysHost): string | null {
+    const os = host.operating_system;
+    if (!os?.product) {
+      return null;
+    }
+
+    const name = [os.vendor && !os.product.toLowerCase().includes(os.vendor.toLowerCase()) ? os.vendor : null, os.product, os.version]
+      .filter(Boolean)
+      .join(' ');
+
+    return `The operating system was identified as ${name}.`;
+  }
+
+  /**
+   * CVE IDs with CVSS scores across all services, highest score first
+   */
+  private static describeVulnerabilities(host: CensysHost): string {
+    const sorted = this.uniqueVulnerabilities(host);
+
+    if (sorted.length === 0) {
+      return 'No known vulnerabilities were reported.';
+    }
+
+    const entries = sorted.map(vuln => {
+      const notes = [
+        typeof vuln.cvss_score === 'number' ? `CVSS ${vuln.cvss_score}` : null,
+        vuln.known_exploited ? 'known exploited' : null
+      ].filter(Boolean);
+      return notes.length > 0 ? `${vuln.cve_id} (${notes.join(', ')})` : vuln.cve_id;
+    });
+
+    const noun = sorted.length === 1 ? 'vulnerability' : 'vulnerabilities';
+    return `${sorted.length} known ${noun} reported: ${entries.join(', ')}.`;
+  }
+
+  /**
+   * Threat intelligence risk level and labels
+   */
+  private static describeThreatIntelligence(host: CensysHost): string | null {
+    const intel = host.threat_intelligence;
+    if (!intel) {
+      return null;
+    }
+
+    const parts: string[] = [];
+    if (intel.risk_level) {
+      parts.push(`rates the host as ${String(intel.risk_level).toLowerCase()} risk`);
+    }
+    if (Array.isArray(intel.security_labels) && intel.security_labels.length > 0) {
+      parts.push(`labels it ${intel.security_labels.join(', ')}`);
+    }
+
+    return parts.length > 0 ? `Threat intelligence ${parts.join(' and ')}.` : null;
+  }
+
+  /**
+   * CVEs across all services, deduplicated by ID and sorted by CVSS score (highest first)
+   */
+  private static uniqueVulnerabilities(host: CensysHost): any[] {
+    const unique = new Map<string, any>();
+
+    (host.services || [])
+      .flatMap(service => service.vulnerabilities || [])
+      .filter((vuln: any) => vuln && vuln.cve_id)
+      .forEach((vuln: any) => {
+        const existing = unique.get(vuln.cve_id);
+        if (!existing || (vuln.cvss_score ?? 0) > (existing.cvss_score ?? 0)) {
+          unique.set(vuln.cve_id, vuln);
+        }
+      });
+
+    return Array.from(unique.values())
+      .sort((a, b) => (b.cvss_score ?? 0) - (a.cvss_score ?? 0));
+  }
+
+  /**
+   * Subject, issuer, self-signed and expiry notes for each certificate
+   */
+  private static certificateFindings(host: CensysHost): string[] {
+    return (host.services || [])
+      .map(service => ({ port: service.port, cert: inspectCertificate(service.certificate) }))
+      .filter((entry): entry is { port: number; cert: CertificateInfo } => entry.cert !== null)
+      .map(({ port, cert }) => {
+        const notes = [
+          cert.subject ? `certificate for ${cert.subject}` : 'certificate',
+          cert.issuer && !cert.selfSigned ? `issued by ${cert.issuer}` : null,
+          cert.selfSigned ? 'self-signed' : null,
+          cert.expired ? 'expired' : null
+        ].filter(Boolean);
+
+        return `Port ${port}: ${notes.join(', ')}`;
+      });
+  }
+}
@@ -0,0 +1,248 @@
+import {
+  CensysHost,
+  CertificateRotation,
+  DiffCertificate,
+  DiffHost,
+  DiffService,
+  DiffVulnerability,
+  HostChanges,
+  SessionDiffResult,
+  SoftwareChange
+} from '../types';
+import { inspectCertificate } from '../utils/certificateInfo';
+
+type Service = NonNullable<CensysHost['services']>[number];
+
+/**
+ * Structured comparison of two uploads of the same estate. Hosts are matched by
+ * IP and services by port and transport protocol.
+ */
+export class SessionDiff {
+  static compare(baseSessionId: string, baseHosts: CensysHost[], targetSessionId: string, targetHosts: CensysHost[]): SessionDiffResult {
+    const base = this.byIP(baseHosts);
+    const target = this.byIP(targetHosts);
+
+    const hostsAdded = Array.from(target.values()).filter(host => !base.has(host.ip)).map(host => this.describeHost(host));
+    const hostsRemoved = Array.from(base.values()).filter(host => !target.has(host.ip)).map(host => this.describeHost(host));
+
+    const compared = Array.from(target.values())
+      .filter(host => base.has(host.ip))
+      .map(host => this.compareHost(base.get(host.ip)!, host));
+    const changedHosts = compared.filter(changes =>
+      changes.portsOpened.length + changes.portsClosed.length + changes.softwareChanges.length +
+      changes.newCves.length + changes.resolvedCves.length + changes.certificateRotations.length > 0);
+
+    const total = (pick: (changes: HostChanges) => unknown[]) => changedHosts.reduce((sum, changes) => sum + pick(changes).length, 0);
+
+    return {
+      baseSessionId,
+      targetSessionId,
+      summary: {
+        baseHosts: base.size,
+        targetHosts: target.size,
+        hostsAdded: hostsAdded.length,
+        hostsRemoved: hostsRemoved.length,
+        hostsChanged: changedHosts.length,
+        hostsUnchanged: compared.length - changedHosts.length,
+        portsOpened: total(changes => changes.portsOpened),
+        portsClosed: total(changes => changes.portsClosed),
+        softwareChanges: total(changes => changes.softwareChanges),
+        newCves: total(changes => changes.newCves),
+        resolvedCves: total(changes => changes.resolvedCves),
+        certificateRotations: total(changes => changes.certificateRotations)
+      },
+      hostsAdded,
+      hostsRemoved,
+      changedHosts
+    };
+  }
+
+  /**
+   * Plain template narrative of a diff, used when the model is not (or may not be) used
+   */
+  static narrate(diff: SessionDiffResult): string {
+    const { summary } = diff;
+    const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+    if (summary.hostsAdded + summary.hostsRemoved + summary.hostsChanged === 0) {
+      return `No changes: all ${plural(summary.targetHosts, 'host')} match the earlier upload.`;
+    }
+
+    const sentences = [
+      `Between the two uploads (${summary.baseHosts} and ${summary.targetHosts} hosts), ${plural(summary.hostsAdded, 'host')} appeared, ` +
+        `${plural(summary.hostsRemoved, 'host')} disappeared and ${plural(summary.hostsChanged, 'host')} changed.`
+    ];
+
+    if (summary.portsOpened + summary.portsClosed > 0) {
+      sentences.push(`${plural(summary.portsOpened, 'port')} opened and ${plural(summary.portsClosed, 'port')} closed on existing hosts.`);
+    }
+    if (summary.newCves + summary.resolvedCves > 0) {
+      const exploited = diff.changedHosts.flatMap(changes => changes.newCves).filter(vuln => vuln.knownExploited).length;
+      const vulnerabilities = summary.newCves === 1 ? 'vulnerability' : 'vulnerabilities';
+      sentences.push(`${summary.newCves} new ${vulnerabilities} appeared${exploited > 0 ? ` (${exploited} known exploited)` : ''} and ${summary.resolvedCves} resolved.`);
+    }
+    if (summary.softwareChanges > 0) {
+      sentences.push(`${plural(summary.softwareChanges, 'software version')} changed.`);
+    }
+    if (summary.certificateRotations > 0) {
+      sentences.push(`${plural(summary.certificateRotations, 'certificate')} rotated.`);
+    }
+
+    return sentences.join(' ');
+  }
+
+  private static compareHost(before: CensysHost, after: CensysHost): HostChanges {
+    const beforeServices = this.servicesByKey(before);
+    const afterServices = this.servicesByKey(after);
+
+    const portsOpened = Array.from(afterServices.entries())
+      .filter(([key]) => !beforeServices.has(key))
+      .map(([, service]) => this.describeService(service));
+    const portsClosed = Array.from(beforeServices.entries())
+      .filter(([key]) => !afterServices.has(key))
+      .map(([, service]) => this.describeService(service));
+
+    const softwareChanges: SoftwareChange[] = [];
+    const certificateRotations: CertificateRotation[] = [];
+
+    // Software and certificates are only compared on services open in both uploads
+    afterServices.forEach((service, key) => {
+      const previous = beforeServices.get(key);
+      if (!previous) return;
+
+      const oldVersions = this.softwareVersions(previous);
+      const newVersions = this.softwareVersions(service);
+      new Set([...oldVersions.keys(), ...newVersions.keys()]).forEach(product => {
+        const from = oldVersions.has(product) ? oldVersions.get(product)! : null;
+        const to = newVersions.has(product) ? newVersions.get(product)! : null;
+        if (from !== to) {
+          softwareChanges.push({ port: service.port, product, from, to });
+        }
+      });
+
+      const oldCertificate = this.certificate(previous.certificate);
+      const newCertificate = this.certificate(service.certificate);
+      if (oldCertificate && newCertificate && !this.sameCertificate(oldCertificate, newCertificate)) {
+        certificateRotations.push({ port: service.port, from: oldCertificate, to: newCertificate });
+      }
+    });
+
+    const oldCVEs = this.vulnerabilities(before);
+    const newCVEs = this.vulnerabilities(after);
+
+    return {
+      ip: after.ip,
+      portsOpened,
+      portsClosed,
+      softwareChanges,
+      newCves: Array.from(newCVEs.values()).filter(vuln => !oldCVEs.has(vuln.cveId)),
+      resolvedCves: Array.from(oldCVEs.values()).filter(vuln => !newCVEs.has(vuln.cveId)),
+      certificateRotations
+    };
+  }
+
+  /**
+   * First record per IP; uploads are expected to hold each host once
+   */
+  private static byIP(hosts: CensysHost[]): Map<string, CensysHost> {
+    const map = new Map<string, CensysHost>();
+    hosts.forEach(host => {
+      if (host && typeof host === 'object' && host.ip && !map.has(host.ip)) {
+        map.set(host.ip, host);
+      }
+    });
+    return map;
+  }
+
+  private static servicesByKey(host: CensysHost): Map<string, Service> {
+    const map = new Map<string, Service>();
+    (host.services || []).forEach(service => {
+      if (service && service.port !== undefined) {
+        const key = `${service.port}/${String(service.transport_protocol || 'tcp').toLowerCase()}`;
+        if (!map.has(key)) map.set(key, service);
+      }
+    });
+    return map;
+  }
+
+  /**
+   * Product (with vendor when known) to version; "unknown" when no version is reported
+   */
+  private static softwareVersions(service: Service): Map<string, string> {
+    const map = new Map<string, string>();
+    (service.software || []).forEach(software => {
+      if (!software?.product) return;
+      const product = software.vendor ? `${software.vendor} ${software.product}` : software.product;
+      map.set(product, software.version || 'unknown');
+    });
+    return map;
+  }
+
+  /**
+   * CVEs across all of a host's services, with the ports each was reported on
+   */
+  private static vulnerabilities(host: CensysHost): Map<string, DiffVulnerability> {
+    const map = new Map<string, DiffVulnerability>();
+    (host.services || []).forEach(service => {
+      (service?.vulnerabilities || []).forEach(vuln => {
+        if (!vuln?.cve_id) return;
+        const cveId = String(vuln.cve_id).toUpperCase();
+        const entry = map.get(cveId) || {
+          cveId,
+          ports: [],
+          ...(typeof vuln.cvss_score === 'number' ? { cvssScore: vuln.cvss_score } : {}),
+          ...(vuln.severity ? { severity: vuln.severity } : {}),
+          ...(vuln.known_exploited ? { knownExploited: true } : {})
+        };
+        if (!entry.ports.includes(service.port)) entry.ports.push(service.port);
+        map.set(cveId, entry);
+      });
+    });
+    return map;
+  }
+
+  /**
+   * Censys often stores a service certificate as just its SHA-256 fingerprint
+   */
+  private static certificate(certificate: any): DiffCertificate | null {
+    if (typeof certificate === 'string' && certificate) {
+      return { fingerprint: certificate.toLowerCase(), subject: null, issuer: null, expiresAt: null };
+    }
+
+    const info = inspectCertificate(certificate);
+    if (!info) return null;
+
+    return {
+      fingerprint: info.fingerprint,
+      subject: info.subject,
+      issuer: info.issuer,
+      expiresAt: info.expiresAt ? info.expiresAt.toISOString() : null
+    };
+  }
+
+  /**
+   * Fingerprints decide when both have one; otherwise subject, issuer and expiry must all match
+   */
+  private static sameCertificate(a: DiffCertificate, b: DiffCertificate): boolean {
+    if (a.fingerprint && b.fingerprint) {
+      return a.fingerprint === b.fingerprint;
+    }
+    return a.subject === b.subject && a.issuer === b.issuer && a.expiresAt === b.expiresAt;
+  }
+
+  private static describeService(service: Service): DiffService {
+    return {
+      port: service.port,
+      ...(service.transport_protocol ? { transport: String(service.transport_protocol).toLowerCase() } : {}),
+      ...(service.service_name ? { service: service.service_name } : {})
+    };
+  }
+
+  private static describeHost(host: CensysHost): DiffHost {
+    return {
+      ip: host.ip,
+      ports: (host.services || []).filter(service => service?.port !== undefined).map(service => service.port),
+      cves: Array.from(this.vulnerabilities(host).keys())
+    };
+  }
+}
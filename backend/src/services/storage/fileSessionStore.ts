@@ -0,0 +1,329 @@
+import { Dirent } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { ChatHistoryEntry, SessionData, SessionLimits, SessionStatus, SessionStore } from '../../types';
+import { estimateSize, loadSessionLimits } from '../../utils/inMemoryStore';
+
+// Session IDs become directory names, so only allow safe characters
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const HOSTS_FILE = 'hosts.json';
+const SESSION_FILE = 'session.json';
+
+// Remember expired sessions for a day so clients get a meaningful error
+const REMOVED_SESSION_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Everything except the host data, which is kept in its own (potentially large) file
+ */
+type SessionMetadata = Omit<SessionData, 'data'>;
+
+/**
+ * Session store that keeps one directory per session on disk:
+ *   <directory>/<sessionId>/hosts.json    raw host data
+ *   <directory>/<sessionId>/session.json  filename, upload time, summaries and chat history
+ * Sessions survive restarts and redeploys as long as the directory does.
+ * Sessions idle longer than the TTL expire (session.json's modification time
+ * is the last access), which deletes their directory and upload temp file.
+ * Parsed host data of recently used sessions is cached within the session
+ * memory budget, so requests don't re-read hosts.json every time.
+ */
+export class FileSessionStore implements SessionStore {
+  readonly name = 'file' as const;
+
+  // Per-session write queue so concurrent read-modify-write updates don't lose data
+  private locks = new Map<string, Promise<unknown>>();
+
+  // Parsed hosts.json per session; insertion order is least to most recently used
+  private hostCache = new Map<string, { data: SessionData['data']; sizeBytes: number }>();
+  private cachedBytes = 0;
+
+  private expired = new Map<string, number>(); // Session ID -> when it expired
+
+  constructor(private readonly directory: string, private readonly limits: SessionLimits = loadSessionLimits()) {}
+
+  async store(sessionId: string, data: SessionData): Promise<void> {
+    const { data: hosts, ...metadata } = data;
+
+    await this.withLock(sessionId, async () => {
+      await fs.mkdir(this.sessionDir(sessionId), { recursive: true });
+      await this.writeJSON(sessionId, HOSTS_FILE, hosts);
+      await this.writeJSON(sessionId, SESSION_FILE, metadata);
+      this.cacheHosts(sessionId, hosts);
+      this.expired.delete(sessionId);
+    });
+  }
+
+  async get(sessionId: string): Promise<SessionData | null> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return null;
+    }
+
+    if (await this.expireIfIdle(sessionId)) {
+      return null;
+    }
+
+    const metadata = await this.readMetadata(sessionId);
+    if (!metadata) {
+      return null;
+    }
+
+    // Refresh the idle timer
+    const now = new Date();
+    await fs.utimes(path.join(this.sessionDir(sessionId), SESSION_FILE), now, now).catch(() => {});
+
+    return { ...metadata, data: await this.readHosts(sessionId) };
+  }
+
+  async status(sessionId: string): Promise<SessionStatus> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return 'missing';
+    }
+    if (!(await this.expireIfIdle(sessionId)) && (await this.readMetadata(sessionId))) {
+      return 'active';
+    }
+    return this.expired.has(sessionId) ? 'expired' : 'missing';
+  }
+
+  async update(sessionId: string, changes: Partial<SessionData>): Promise<boolean> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return false;
+    }
+
+    return this.withLock(sessionId, async () => {
+      const metadata = await this.readMetadata(sessionId);
+      if (!metadata) {
+        return false;
+      }
+
+      const { data: hosts, ...metadataChanges } = changes;
+      if (hosts !== undefined) {
+        await this.writeJSON(sessionId, HOSTS_FILE, hosts);
+        this.cacheHosts(sessionId, hosts);
+      }
+      await this.writeJSON(sessionId, SESSION_FILE, { ...metadata, ...metadataChanges });
+      return true;
+    });
+  }
+
+  async appendChatHistory(sessionId: string, entries: ChatHistoryEntry[]): Promise<boolean> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return false;
+    }
+
+    return this.withLock(sessionId, async () => {
+      const metadata = await this.readMetadata(sessionId);
+      if (!metadata) {
+        return false;
+      }
+
+      await this.writeJSON(sessionId, SESSION_FILE, {
+        ...metadata,
+        chatHistory: [...(metadata.chatHistory || []), ...entries]
+      });
+      return true;
+    });
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return false;
+    }
+
+    return this.withLock(sessionId, async () => {
+      const exists = (await this.readMetadata(sessionId)) !== null;
+      await fs.rm(this.sessionDir(sessionId), { recursive: true, force: true });
+      this.uncacheHosts(sessionId);
+      return exists;
+    });
+  }
+
+  async size(): Promise<number> {
+    return (await this.getActiveSessionIds()).length;
+  }
+
+  async clear(): Promise<void> {
+    const sessionIds = await this.getActiveSessionIds();
+    await Promise.all(sessionIds.map(sessionId => this.delete(sessionId)));
+    this.expired.clear();
+  }
+
+  async sweep(): Promise<string[]> {
+    const sessionIds = await this.getActiveSessionIds();
+    const idle = await Promise.all(sessionIds.map(sessionId => this.expireIfIdle(sessionId)));
+
+    const cutoff = Date.now() - REMOVED_SESSION_MEMORY_MS;
+    this.expired.forEach((at, sessionId) => {
+      if (at < cutoff) {
+        this.expired.delete(sessionId);
+      }
+    });
+
+    return sessionIds.filter((_, index) => idle[index]);
+  }
+
+  async referencedFilePaths(): Promise<Set<string>> {
+    const sessionIds = await this.getActiveSessionIds();
+    const metadata = await Promise.all(sessionIds.map(sessionId => this.readMetadata(sessionId)));
+    return new Set(metadata.map(session => session?.filePath).filter((filePath): filePath is string => !!filePath));
+  }
+
+  async getActiveSessionIds(): Promise<string[]> {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(this.directory, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const sessionIds = entries
+      .filter(entry => entry.isDirectory() && SESSION_ID_PATTERN.test(entry.name))
+      .map(entry => entry.name);
+
+    // Skip directories left without metadata (e.g. a store that failed half-way)
+    const complete = await Promise.all(sessionIds.map(async sessionId => (await this.readMetadata(sessionId)) !== null));
+    return sessionIds.filter((_, index) => complete[index]);
+  }
+
+  private sessionDir(sessionId: string): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session ID "${sessionId}"`);
+    }
+    return path.join(this.directory, sessionId);
+  }
+
+  /**
+   * Delete the session if it has been idle longer than the TTL, along with its
+   * upload temp file. Returns true if it was expired.
+   */
+  private async expireIfIdle(sessionId: string): Promise<boolean> {
+    if (this.limits.ttlMs <= 0) {
+      return false;
+    }
+
+    return this.withLock(sessionId, async () => {
+      let lastAccessedAt: number;
+      try {
+        lastAccessedAt = (await fs.stat(path.join(this.sessionDir(sessionId), SESSION_FILE))).mtimeMs;
+      } catch {
+        return false; // Missing or only half-written
+      }
+      if (Date.now() - lastAccessedAt <= this.limits.ttlMs) {
+        return false;
+      }
+
+      const metadata = await this.readMetadata(sessionId);
+      await fs.rm(this.sessionDir(sessionId), { recursive: true, force: true });
+      this.uncacheHosts(sessionId);
+      this.expired.set(sessionId, Date.now());
+      if (metadata?.filePath) {
+        await fs.unlink(metadata.filePath).catch(() => {
+          // Already cleaned up
+        });
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Host data from the cache, or read from disk and cached
+   */
+  private async readHosts(sessionId: string): Promise<SessionData['data']> {
+    const cached = this.hostCache.get(sessionId);
+    if (cached) {
+      this.hostCache.delete(sessionId);
+      this.hostCache.set(sessionId, cached);
+      return cached.data;
+    }
+
+    const data = await this.readJSON(sessionId, HOSTS_FILE);
+    this.cacheHosts(sessionId, data);
+    return data;
+  }
+
+  /**
+   * Cache a session's host data, dropping least recently used entries to stay
+   * within the memory budget. Data larger than the whole budget isn't cached.
+   */
+  private cacheHosts(sessionId: string, data: SessionData['data']): void {
+    this.uncacheHosts(sessionId);
+
+    const sizeBytes = estimateSize(data);
+    if (this.limits.maxBytes > 0 && sizeBytes > this.limits.maxBytes) {
+      return;
+    }
+
+    this.hostCache.set(sessionId, { data, sizeBytes });
+    this.cachedBytes += sizeBytes;
+
+    for (const cachedId of Array.from(this.hostCache.keys())) {
+      if (this.limits.maxBytes <= 0 || this.cachedBytes <= this.limits.maxBytes) {
+        break;
+      }
+      this.uncacheHosts(cachedId);
+    }
+  }
+
+  private uncacheHosts(sessionId: string): void {
+    const cached = this.hostCache.get(sessionId);
+    if (cached) {
+      this.hostCache.delete(sessionId);
+      this.cachedBytes -= cached.sizeBytes;
+    }
+  }
+
+  private async readMetadata(sessionId: string): Promise<SessionMetadata | null> {
+    const metadata = await this.readJSON(sessionId, SESSION_FILE);
+    if (!metadata) {
+      return null;
+    }
+
+    // Dates are stored as ISO strings
+    return {
+      ...metadata,
+      uploadedAt: new Date(metadata.uploadedAt),
+      ...(Array.isArray(metadata.chatHistory) ? {
+        chatHistory: metadata.chatHistory.map((entry: any) => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+      } : {})
+    };
+  }
+
+  private async readJSON(sessionId: string, file: string): Promise<any> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.sessionDir(sessionId), file), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write to a temporary file and rename it so readers never see a partial file
+   */
+  private async writeJSON(sessionId: string, file: string, value: any): Promise<void> {
+    const target = path.join(this.sessionDir(sessionId), file);
+    const temporary = `${target}.${process.pid}.tmp`;
+
+    await fs.writeFile(temporary, JSON.stringify(value ?? null), 'utf-8');
+    await fs.rename(temporary, target);
+  }
+
+  private async withLock<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(sessionId) || Promise.resolve();
+    const current = previous.catch(() => {}).then(task);
+    this.locks.set(sessionId, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(sessionId) === current) {
+        this.locks.delete(sessionId);
+      }
+    }
+  }
+}
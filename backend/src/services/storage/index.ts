@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import path from 'path';
+import { SessionStore, SessionStoreConfig, SessionStoreName } from '../../types';
+import { MemorySessionStore } from './memorySessionStore';
+import { FileSessionStore } from './fileSessionStore';
+
+const SESSION_STORE_NAMES: SessionStoreName[] = ['memory', 'file'];
+
+let activeStore: SessionStore | null = null;
+
+/**
+ * Read session storage configuration from environment variables
+ */
+export function loadSessionStoreConfig(env: NodeJS.ProcessEnv = process.env): SessionStoreConfig {
+  const backend = (env.SESSION_STORE || 'memory').toLowerCase();
+
+  if (!SESSION_STORE_NAMES.includes(backend as SessionStoreName)) {
+    throw new Error(`Unsupported SESSION_STORE "${backend}". Expected one of: ${SESSION_STORE_NAMES.join(', ')}`);
+  }
+
+  return {
+    backend: backend as SessionStoreName,
+    directory: path.resolve(env.SESSION_STORE_DIR || path.join('data', 'sessions'))
+  };
+}
+
+/**
+ * Create an unguessable session ID (192 random bits, URL- and filename-safe)
+ */
+export function generateSessionId(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * Build a session store for the given configuration
+ */
+export function createSessionStore(config: SessionStoreConfig): SessionStore {
+  switch (config.backend) {
+    case 'memory':
+      return new MemorySessionStore();
+    case 'file':
+      return new FileSessionStore(config.directory);
+    default:
+      throw new Error(`Unsupported session store: ${config.backend}`);
+  }
+}
+
+/**
+ * Get the configured session store, creating it on first use
+ */
+export function getSessionStore(): SessionStore {
+  if (!activeStore) {
+    activeStore = createSessionStore(loadSessionStoreConfig());
+  }
+
+  return activeStore;
+}
+
+/**
+ * Override the active store (pass null to re-read configuration on next use)
+ */
+export function setSessionStore(store: SessionStore | null): void {
+  activeStore = store;
+}
+
+export { MemorySessionStore, FileSessionStore };
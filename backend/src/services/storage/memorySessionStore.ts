@@ -0,0 +1,67 @@
+import { ChatHistoryEntry, SessionData, SessionStatus, SessionStore } from '../../types';
+import { InMemoryStore } from '../../utils/inMemoryStore';
+
+/**
+ * Session store backed by the process-local InMemoryStore.
+ * Fast, but everything is lost when the server restarts, and idle or
+ * least recently used sessions are dropped to stay within memory limits.
+ */
+export class MemorySessionStore implements SessionStore {
+  readonly name = 'memory' as const;
+
+  async store(sessionId: string, data: SessionData): Promise<void> {
+    InMemoryStore.store(sessionId, data);
+  }
+
+  async get(sessionId: string): Promise<SessionData | null> {
+    return InMemoryStore.get(sessionId);
+  }
+
+  async status(sessionId: string): Promise<SessionStatus> {
+    return InMemoryStore.status(sessionId);
+  }
+
+  async update(sessionId: string, changes: Partial<SessionData>): Promise<boolean> {
+    const current = InMemoryStore.get(sessionId);
+    if (!current) {
+      return false;
+    }
+
+    InMemoryStore.store(sessionId, { ...current, ...changes });
+    return true;
+  }
+
+  async appendChatHistory(sessionId: string, entries: ChatHistoryEntry[]): Promise<boolean> {
+    const current = InMemoryStore.get(sessionId);
+    if (!current) {
+      return false;
+    }
+
+    InMemoryStore.store(sessionId, { ...current, chatHistory: [...(current.chatHistory || []), ...entries] });
+    return true;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return InMemoryStore.delete(sessionId);
+  }
+
+  async size(): Promise<number> {
+    return InMemoryStore.size();
+  }
+
+  async clear(): Promise<void> {
+    InMemoryStore.clear();
+  }
+
+  async getActiveSessionIds(): Promise<string[]> {
+    return InMemoryStore.getActiveSessionIds();
+  }
+
+  async sweep(): Promise<string[]> {
+    return InMemoryStore.sweep();
+  }
+
+  async referencedFilePaths(): Promise<Set<string>> {
+    return InMemoryStore.referencedFilePaths();
+  }
+}
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import { AuthenticatedUser } from '../types';
+
+// Long enough to open the stream right after asking for the ticket
+const STREAM_TICKET_TTL_MS = 60 * 1000;
+
+interface TicketRecord {
+  user: AuthenticatedUser;
+  expiresAt: number;
+}
+
+/**
+ * Single-use, short-lived tickets that stand in for the user's credential on
+ * EventSource requests, which can't send an Authorization header. Only a hash
+ * of each ticket is kept, and a ticket stops working once it has been used.
+ */
+export class StreamTickets {
+  private static tickets = new Map<string, TicketRecord>();
+
+  /**
+   * Issue a ticket for the user
+   */
+  static issue(user: AuthenticatedUser): { ticket: string; expiresAt: string } {
+    this.pruneExpired();
+
+    const ticket = crypto.randomBytes(24).toString('base64url');
+    const expiresAt = Date.now() + STREAM_TICKET_TTL_MS;
+    this.tickets.set(this.hash(ticket), { user, expiresAt });
+
+    return { ticket, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Use up a ticket. Returns the user it was issued to, or null if it is unknown, used or expired.
+   */
+  static redeem(ticket: string): AuthenticatedUser | null {
+    const key = this.hash(ticket);
+    const record = this.tickets.get(key);
+    this.tickets.delete(key);
+
+    if (!record || record.expiresAt < Date.now()) {
+      return null;
+    }
+    return { id: record.user.id, method: 'stream-ticket' };
+  }
+
+  /**
+   * Clear all tickets (for testing/cleanup)
+   */
+  static clear(): void {
+    this.tickets.clear();
+  }
+
+  private static pruneExpired(): void {
+    const now = Date.now();
+    this.tickets.forEach((record, key) => {
+      if (record.expiresAt < now) {
+        this.tickets.delete(key);
+      }
+    });
+  }
+
+  private static hash(ticket: string): string {
+    return crypto.createHash('sha256').update(ticket).digest('hex');
+  }
+}
@@ -0,0 +1,230 @@
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { HostSummary, SummarizationJob, SummarizeOptions } from '../types';
+import { ANONYMOUS_USER_ID } from '../middleware/auth';
+import { getSessionStore } from './storage';
+import { GeminiService } from './geminiService';
+import { HostIndex } from './hostIndex';
+
+interface JobRecord {
+  job: SummarizationJob;
+  ownerId: string;
+  abortController: AbortController;
+  events: EventEmitter;
+}
+
+/**
+ * Events emitted while a job runs
+ */
+export type JobEvent =
+  | { type: 'summary'; summary: HostSummary; processedCount: number; totalCount: number }
+  | { type: 'error'; ip: string; error: string }
+  | { type: 'done'; job: SummarizationJob };
+
+// Finished jobs are kept around for an hour so clients can fetch the final result
+const FINISHED_JOB_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Runs host summarization in the background and tracks progress per job
+ */
+export class SummarizationJobs {
+  private static jobs = new Map<string, JobRecord>();
+
+  /**
+   * Start summarizing a session's hosts. If a job is already running for
+   * the session, that job is returned instead of starting a second one.
+   */
+  static async start(sessionId: string, options: Pick<SummarizeOptions, 'localOnly'> = {}): Promise<SummarizationJob> {
+    this.pruneFinishedJobs();
+
+    const sessionData = await getSessionStore().get(sessionId);
+    if (!sessionData) {
+      throw new Error('Session not found');
+    }
+
+    // Checked after loading the session so concurrent starts can't both miss the running job
+    const running = this.runningJob(sessionId);
+    if (running) {
+      return running.job;
+    }
+
+    const record: JobRecord = {
+      job: {
+        id: uuidv4(),
+        sessionId,
+        status: 'running',
+        processedCount: 0,
+        totalCount: sessionData.data?.hosts?.length || 0,
+        summaries: [],
+        createdAt: new Date()
+      },
+      ownerId: sessionData.ownerId ?? ANONYMOUS_USER_ID,
+      abortController: new AbortController(),
+      events: new EventEmitter()
+    };
+    this.jobs.set(record.job.id, record);
+
+    // Deliberately not awaited - the job runs in the background
+    void this.run(record, options);
+
+    return record.job;
+  }
+
+  /**
+   * Get a job by ID, optionally only if it belongs to the given user
+   */
+  static get(jobId: string, userId?: string): SummarizationJob | null {
+    const record = this.jobs.get(jobId);
+    if (!record || (userId !== undefined && record.ownerId !== userId)) {
+      return null;
+    }
+    return record.job;
+  }
+
+  /**
+   * The job currently summarizing a session, if any
+   */
+  static running(sessionId: string): SummarizationJob | null {
+    return this.runningJob(sessionId)?.job ?? null;
+  }
+
+  /**
+   * Listen to a job's events. Returns an unsubscribe function, or null if the job does not exist.
+   */
+  static subscribe(jobId: string, listener: (event: JobEvent) => void): (() => void) | null {
+    const record = this.jobs.get(jobId);
+    if (!record) {
+      return null;
+    }
+
+    record.events.on('event', listener);
+    return () => {
+      record.events.off('event', listener);
+    };
+  }
+
+  /**
+   * Cancel a running job. Returns false if the job does not exist or has already finished.
+   */
+  static cancel(jobId: string): boolean {
+    const record = this.jobs.get(jobId);
+    if (!record || record.job.status !== 'running') {
+      return false;
+    }
+
+    record.abortController.abort();
+    this.finish(record, 'cancelled', 'Summarization was cancelled');
+    return true;
+  }
+
+  /**
+   * Drop jobs that finished more than an hour ago. Runs when a job starts and
+   * from the server's sweep, so an idle server doesn't keep old results.
+   */
+  static pruneFinishedJobs(): void {
+    const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS;
+    this.jobs.forEach((record, jobId) => {
+      if (record.job.completedAt && record.job.completedAt.getTime() < cutoff) {
+        this.jobs.delete(jobId);
+      }
+    });
+  }
+
+  /**
+   * Clear all jobs (for testing/cleanup)
+   */
+  static clear(): void {
+    this.jobs.forEach(record => record.abortController.abort());
+    this.jobs.clear();
+  }
+
+  /**
+   * Summarize the session and store the summaries once every host is done
+   */
+  private static async run(record: JobRecord, options: Pick<SummarizeOptions, 'localOnly'>): Promise<void> {
+    const { job } = record;
+
+    try {
+      const store = getSessionStore();
+      const sessionData = await store.get(job.sessionId);
+      if (!sessionData) {
+        this.finish(record, 'failed', 'Session not found or expired');
+        return;
+      }
+
+      const result = await GeminiService.summarizeHosts(sessionData.data, {
+        ...options,
+        signal: record.abortController.signal,
+        onProgress: (summary, processedCount, totalCount) => {
+          if (job.status !== 'running') return;
+          job.summaries.push(summary);
+          job.processedCount = processedCount;
+          job.totalCount = totalCount;
+
+          if (!options.localOnly && summary.source === 'rule-based') {
+            this.emit(record, { type: 'error', ip: summary.ip, error: 'AI summarization failed; using rule-based summary' });
+          }
+          this.emit(record, { type: 'summary', summary, processedCount, totalCount });
+        }
+      });
+
+      if (job.status !== 'running') {
+        return; // Cancelled while the last batch was in flight
+      }
+
+      if (!result.success || !result.summaries) {
+        this.finish(record, 'failed', result.error || 'Failed to generate summaries');
+        return;
+      }
+
+      job.summaries = result.summaries;
+      job.processedCount = result.processedCount || 0;
+      job.totalCount = result.totalCount || 0;
+      job.quotaExceeded = result.quotaExceeded;
+
+      // Clean up uploaded file but keep session data with summaries for context
+      try {
+        if (sessionData.filePath) {
+          await fs.unlink(sessionData.filePath);
+        }
+      } catch (cleanupError) {
+        // Cleanup warning
+      }
+
+      // Index hosts and summaries now so chat can pick the relevant hosts quickly
+      const updated = await store.update(job.sessionId, {
+        summaries: result.summaries,
+        searchIndex: HostIndex.build(sessionData.data?.hosts || [], result.summaries),
+        filePath: undefined
+      });
+      if (!updated) {
+        this.finish(record, 'failed', 'Session expired or was removed before the summaries could be saved. Please upload your file again.');
+        return;
+      }
+
+      this.finish(record, 'completed');
+
+    } catch (error) {
+      this.finish(record, 'failed', error instanceof Error ? error.message : 'Unknown error occurred during summarization');
+    }
+  }
+
+  private static finish(record: JobRecord, status: SummarizationJob['status'], error?: string): void {
+    record.job.status = status;
+    record.job.error = error;
+    record.job.completedAt = new Date();
+
+    this.emit(record, { type: 'done', job: record.job });
+    record.events.removeAllListeners();
+  }
+
+  private static emit(record: JobRecord, event: JobEvent): void {
+    record.events.emit('event', event);
+  }
+
+  private static runningJob(sessionId: string): JobRecord | undefined {
+    return Array.from(this.jobs.values())
+      .find(record => record.job.sessionId === sessionId && record.job.status === 'running');
+  }
+}
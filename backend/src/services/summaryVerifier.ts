@@ -0,0 +1,121 @@
+import { CensysHost, RiskLevel, StructuredHostSummary } from '../types';
+import { RISK_LEVELS } from '../utils/summarySchema';
+
+type Vulnerability = NonNullable<NonNullable<CensysHost['services']>[number]['vulnerabilities']>[number];
+
+const CVE_MENTION = /\bCVE-\d{4}-\d{4,}\b/gi;
+
+// Narrative claims that can't be true of a host with vulnerabilities on record
+const NO_VULNERABILITIES_CLAIM = /\b(no|zero) (known |reported )?(vulnerabilities|CVEs)\b|\bnot vulnerable\b|\bwithout (any )?(known )?vulnerabilities\b/i;
+
+// Narrative claims that can't be true of a host with high or critical findings
+const LOW_RISK_CLAIM = /\b(is|appears|looks|seems) (to be )?(safe|secure|benign|harmless)\b|\b(no|low|minimal)[- ]risk\b/i;
+
+export interface SummaryVerificationResult {
+  summary: StructuredHostSummary;
+  corrections: string[]; // Claims changed to match the data
+  errors: string[]; // Claims that need the model to rewrite the summary
+}
+
+/**
+ * Checks a model-written summary against the host record it describes, so a
+ * summary can't list CVEs or ports the host doesn't have or play down
+ * vulnerabilities the data shows (whether from a model mistake or from
+ * instructions planted in the host's banners)
+ */
+export class SummaryVerifier {
+  static verify(host: CensysHost, summary: StructuredHostSummary): SummaryVerificationResult {
+    const corrections: string[] = [];
+    const errors: string[] = [];
+    const services = (host.services || []).filter(service => service && typeof service === 'object');
+    const vulnerabilities = this.vulnerabilities(host);
+
+    const ports = new Set(services.map(service => service.port));
+    const keyServices = summary.keyServices.filter(service => {
+      if (ports.has(service.port)) return true;
+      corrections.push(`Removed key service on port ${service.port}, which is not open on this host`);
+      return false;
+    });
+
+    // CVE IDs are compared upper-cased, as the host data is indexed
+    const notableCVEs = summary.notableCVEs
+      .filter(cve => {
+        if (vulnerabilities.has(cve.cveId.toUpperCase())) return true;
+        corrections.push(`Removed ${cve.cveId}, which is not in the host data`);
+        return false;
+      })
+      .map(cve => {
+        const score = vulnerabilities.get(cve.cveId.toUpperCase())!.cvss_score;
+        if (typeof score !== 'number' || cve.cvssScore === undefined || cve.cvssScore === score) return cve;
+        corrections.push(`Changed the CVSS score of ${cve.cveId} from ${cve.cvssScore} to ${score}, as in the host data`);
+        return { ...cve, cvssScore: score };
+      });
+
+    let riskLevel = summary.riskLevel;
+    const floor = this.riskFloor(vulnerabilities);
+    if (floor && this.rank(riskLevel) > this.rank(floor.level)) {
+      corrections.push(`Raised risk level from ${riskLevel} to ${floor.level}: ${floor.reason}`);
+      riskLevel = floor.level;
+    }
+
+    const unknownCVEs = Array.from(new Set((summary.narrative.match(CVE_MENTION) || []).map(id => id.toUpperCase())))
+      .filter(id => !vulnerabilities.has(id));
+    if (unknownCVEs.length > 0) {
+      errors.push(`"narrative" mentions ${unknownCVEs.join(', ')}, which the host data does not contain`);
+    }
+    if (vulnerabilities.size > 0 && NO_VULNERABILITIES_CLAIM.test(summary.narrative)) {
+      errors.push(`"narrative" says the host has no vulnerabilities, but the host data lists ${vulnerabilities.size}`);
+    }
+    if (floor && this.rank(floor.level) <= this.rank('high') && LOW_RISK_CLAIM.test(summary.narrative)) {
+      errors.push(`"narrative" plays down the host's risk, but ${floor.reason}`);
+    }
+
+    return {
+      summary: { ...summary, riskLevel, keyServices, notableCVEs },
+      corrections,
+      errors
+    };
+  }
+
+  private static vulnerabilities(host: CensysHost): Map<string, Vulnerability> {
+    const map = new Map<string, Vulnerability>();
+    (host.services || []).forEach(service => {
+      (service?.vulnerabilities || []).forEach(vuln => {
+        if (vuln?.cve_id) map.set(String(vuln.cve_id).toUpperCase(), vuln);
+      });
+    });
+    return map;
+  }
+
+  /**
+   * Lowest risk level the data supports: the band of the highest CVSS score,
+   * and at least high for a known exploited CVE
+   */
+  private static riskFloor(vulnerabilities: Map<string, Vulnerability>): { level: RiskLevel; reason: string } | null {
+    let floor: { level: RiskLevel; reason: string } | null = null;
+    const consider = (level: RiskLevel, reason: string) => {
+      if (!floor || this.rank(level) < this.rank(floor.level)) {
+        floor = { level, reason };
+      }
+    };
+
+    vulnerabilities.forEach((vuln, cveId) => {
+      if (vuln.known_exploited) {
+        consider('high', `${cveId} is known to be exploited`);
+      }
+      if (typeof vuln.cvss_score === 'number') {
+        const band: RiskLevel | null = vuln.cvss_score >= 9 ? 'critical' : vuln.cvss_score >= 7 ? 'high' : vuln.cvss_score >= 4 ? 'medium' : null;
+        if (band) consider(band, `${cveId} has CVSS ${vuln.cvss_score}`);
+      }
+    });
+
+    return floor;
+  }
+
+  /**
+   * Position in RISK_LEVELS; lower is more severe
+   */
+  private static rank(level: RiskLevel): number {
+    return RISK_LEVELS.indexOf(level);
+  }
+}
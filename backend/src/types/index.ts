@@ -2,10 +2,14 @@
  * Type definitions for Censys host data structure
  */
 
+export type HostDataSource = 'censys' | 'shodan' | 'nmap';
+
 export interface CensysHost {
   ip: string;
+  source?: HostDataSource; // Where the host record came from; Censys when unset
   location?: {
     country?: string;
+    country_code?: string;
     city?: string;
     coordinates?: {
       latitude: number;
@@ -15,9 +19,28 @@ export interface CensysHost {
   services?: Array<{
     port: number;
     service_name?: string;
+    protocol?: string;
     transport_protocol?: string;
     certificate?: any;
     banner?: string;
+    software?: Array<{
+      product?: string;
+      vendor?: string;
+      version?: string;
+    }>;
+    vulnerabilities?: Array<{
+      cve_id: string;
+      severity?: string;
+      cvss_score?: number;
+      description?: string;
+      // Filled in from the local NVD feed and known-exploited list (see CVEEnricher)
+      cvss_vector?: string;
+      cwe_ids?: string[];
+      published_at?: string;
+      known_exploited?: boolean;
+      known_exploited_since?: string;
+    }>;
+    [key: string]: any;
   }>;
   autonomous_system?: {
     asn?: number;
@@ -29,6 +52,10 @@ export interface CensysHost {
     version?: string;
     vendor?: string;
   };
+  threat_intelligence?: {
+    risk_level?: string;
+    security_labels?: string[];
+  };
   tags?: string[];
   last_updated_at?: string;
   [key: string]: any; // Allow for additional Censys fields
@@ -39,9 +66,65 @@ export interface CensysData {
   [key: string]: any; // Allow for metadata
 }
 
+export type RiskLevel = 'critical' | 'high' | 'medium' | 'low' | 'none';
+
+export interface StructuredHostSummary {
+  riskLevel: RiskLevel;
+  keyServices: Array<{
+    port: number;
+    service: string;
+    software?: string;
+    note?: string;
+  }>;
+  notableCVEs: Array<{
+    cveId: string;
+    cvssScore?: number;
+    note?: string;
+  }>;
+  certificateFindings: string[];
+  operatingSystem: string | null;
+  recommendedActions: string[];
+  narrative: string;
+}
+
+export type RiskFactorCategory = 'vulnerability' | 'exposure' | 'certificate' | 'threat-intelligence';
+
+export interface RiskFactor {
+  category: RiskFactorCategory;
+  description: string;
+  points: number;
+}
+
+export interface HostRiskScore {
+  score: number; // 0-100
+  level: RiskLevel;
+  factors: RiskFactor[]; // Highest contribution first
+}
+
 export interface HostSummary {
   ip: string;
-  summary: string;
+  summary: string; // Plain-text narrative (same as structured.narrative)
+  source?: 'llm' | 'rule-based';
+  dataSource?: HostDataSource; // Where the summarized host record came from
+  structured?: StructuredHostSummary;
+  risk?: HostRiskScore; // Computed locally by RiskScorer, independent of the LLM
+  injectionFindings?: InjectionFinding[]; // Host fields that look like instructions to the model
+  corrections?: string[]; // Model claims changed because the host data contradicts them
+}
+
+export type InjectionField = 'banner' | 'http title' | 'certificate subject';
+
+export interface InjectionFinding {
+  port?: number;
+  field: InjectionField;
+  pattern: string; // Which InjectionDetector pattern matched
+  excerpt: string; // The matching text with a little context
+}
+
+export interface SummarizeOptions {
+  localOnly?: boolean; // Skip the LLM and use the rule-based summarizer for every host
+  signal?: AbortSignal; // Stop before the next batch once aborted
+  onProgress?: (summary: HostSummary, processedCount: number, totalCount: number) => void;
 }
 
 export interface ProcessingResult {
@@ -50,6 +133,40 @@ export interface ProcessingResult {
   error?: string;
   processedCount?: number;
   totalCount?: number;
+  fallbackCount?: number;
+  cancelled?: boolean;
+  quotaExceeded?: QuotaExceededInfo; // The LLM budget ran out; remaining hosts were summarized locally
+}
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SummarizationJob {
+  id: string;
+  sessionId: string;
+  status: JobStatus;
+  processedCount: number;
+  totalCount: number;
+  summaries: HostSummary[];
+  error?: string;
+  createdAt: Date;
+  completedAt?: Date;
+  quotaExceeded?: QuotaExceededInfo;
+}
+
+export interface CVEDetails {
+  cveId: string;
+  cvssScore?: number;
+  cvssVector?: string;
+  severity?: string;
+  cweIds: string[];
+  publishedAt?: string;
+  description?: string;
+}
+
+export interface CVEEnrichmentStatus {
+  cveCount: number;
+  knownExploitedCount: number;
+  error?: string;
 }
 
 export interface ValidationResult {
@@ -66,9 +183,450 @@ export interface ValidationResult {
   };
 }
 
+export type SourceFormat =
+  | 'censys-hosts'   // { "hosts": [...] }
+  | 'search-v2'      // Censys Search API v2 response
+  | 'platform'       // Censys Platform export (host data under "resource")
+  | 'host-array'     // Bare array of hosts
+  | 'single-host'    // A single host object
+  | 'ndjson'         // One host per line
+  | 'nmap-xml'       // Imported from Nmap XML output
+  | 'shodan'         // Imported from Shodan host, search or download JSON
+  | 'unknown';
+
+export type UploadFormat = 'json' | 'ndjson' | 'xml';
+
+export interface LineError {
+  line: number;
+  error: string;
+}
+
+export interface HostTally {
+  total: number;
+  valid: number;
+  withCensysFields: number;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: string; // Machine-readable error code, e.g. SESSION_EXPIRED
+  retryAfterSeconds?: number; // Set on 429 responses, mirrors the Retry-After header
   message?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Type definitions for pluggable LLM providers
+ */
+
+export type LLMProviderName = 'gemini' | 'openai' | 'fake';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  generateText(prompt: string): Promise<string>;
+  generateChat(systemPrompt: string, turns: ChatTurn[]): Promise<string>; // The last turn is the user's new message
+  // One model step of a tool-using chat: the exchanges are earlier rounds of tool calls and their results for the last turn
+  generateToolChat(systemPrompt: string, turns: ChatTurn[], tools: ChatToolDefinition[], exchanges: ChatToolExchange[], allowToolCalls: boolean): Promise<ChatToolStep>;
+  generateJSON<T = any>(prompt: string): Promise<T>;
+  healthCheck(): Promise<boolean>;
+}
+
+/**
+ * Type definitions for chat tools
+ */
+
+// Subset of JSON Schema understood by every provider
+export interface ChatToolSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: string[];
+  items?: ChatToolSchema;
+  properties?: Record<string, ChatToolSchema>;
+  required?: string[];
+}
+
+export interface ChatToolDefinition {
+  name: string;
+  description: string;
+  parameters: ChatToolSchema; // Always an object schema
+}
+
+export interface ChatToolCall {
+  id: string; // Pairs the call with its result
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ChatToolExchange {
+  calls: ChatToolCall[];
+  results: unknown[]; // In the same order as calls
+}
+
+export interface ChatToolStep {
+  text: string;
+  toolCalls: ChatToolCall[]; // Empty when the model answered
+}
+
+export interface ChatToolInvocation {
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Type definitions for chat retrieval
+ */
+
+export interface HostSearchDocument {
+  ip: string;
+  length: number;                // Number of terms in the document
+  terms: Record<string, number>; // Term -> frequency
+}
+
+export interface HostSearchIndex {
+  builtAt: string;
+  documents: HostSearchDocument[]; // In host order
+  documentFrequency: Record<string, number>;
+  averageLength: number;
+}
+
+export type ChatContextStrategy = 'all' | 'relevance' | 'risk';
+
+export interface ChatContext {
+  strategy: ChatContextStrategy; // Every host, hosts matching the question, or the riskiest hosts when nothing matched
+  hosts: string[];               // IPs of the hosts given to the model
+  totalHosts: number;
+}
+
+/**
+ * Type definitions for host queries
+ */
+
+export interface HostQueryFilters {
+  ports?: number[];      // Any of these ports open
+  services?: string[];   // Any of these service names (case-insensitive)
+  countries?: string[];  // Country name or ISO code
+  asns?: number[];
+  os?: string;           // Substring of the operating system product
+  cves?: string[];       // Any of these CVE IDs
+  minCvss?: number;      // At least one vulnerability scored this high
+  tags?: string[];       // Any of these tags or threat intelligence labels
+  text?: string;         // Case-insensitive substring anywhere in the host record
+}
+
+export type HostSortField = 'ip' | 'country' | 'asn' | 'services' | 'cvss' | 'risk' | 'updated';
+
+export interface HostQuery {
+  filters: HostQueryFilters;
+  sort: HostSortField;
+  order: 'asc' | 'desc';
+  page: number;     // 1-based
+  pageSize: number;
+}
+
+export interface HostQueryResult {
+  hosts: CensysHost[];
+  total: number;      // Hosts matching the filters, across all pages
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  query: HostQuery;
+}
+
+/**
+ * Type definitions for dataset statistics
+ */
+
+export interface ValueCount {
+  value: string;
+  count: number; // Hosts with this value
+}
+
+export interface CVSSHistogramBucket {
+  range: string; // e.g. "7-8"; the last bucket includes 10
+  min: number;
+  max: number;
+  count: number; // Vulnerability findings (host and CVE pairs) scored in this range
+}
+
+export interface DatasetStatistics {
+  generatedAt: string;
+  totals: {
+    hosts: number;
+    services: number;
+    distinctPorts: number;
+    countries: number;
+    asns: number;
+    distinctCves: number;
+    hostsWithVulnerabilities: number;
+    hostsWithCriticalVulnerabilities: number; // Most severe vulnerability rated critical (or scored 9.0+ without a rating)
+    hostsWithKnownExploited: number;
+    certificates: number;
+  };
+  topPorts: ValueCount[];
+  topServices: ValueCount[];
+  topCountries: ValueCount[];
+  topAsns: ValueCount[];
+  topOperatingSystems: ValueCount[];
+  topSoftware: ValueCount[];
+  topCves: ValueCount[];
+  hostsByHighestSeverity: Record<'critical' | 'high' | 'medium' | 'low' | 'unknown' | 'none', number>;
+  cvssHistogram: CVSSHistogramBucket[];
+  unscoredVulnerabilities: number;
+  riskLevels: Record<RiskLevel, number>;
+  certificateExpiry: {
+    expired: number;
+    within30Days: number;
+    within90Days: number;
+    later: number;
+    unknown: number; // No expiry date in the data
+  };
+}
+
+/**
+ * Type definitions for session comparison
+ */
+
+export interface DiffService {
+  port: number;
+  transport?: string;
+  service?: string;
+}
+
+export interface DiffVulnerability {
+  cveId: string;
+  ports: number[];
+  cvssScore?: number;
+  severity?: string;
+  knownExploited?: boolean;
+}
+
+export interface SoftwareChange {
+  port: number;
+  product: string;
+  from: string | null; // Version before; null when the product was not on the port
+  to: string | null;   // Version after; null when the product is gone from the port
+}
+
+export interface DiffCertificate {
+  fingerprint: string | null;
+  subject: string | null;
+  issuer: string | null;
+  expiresAt: string | null;
+}
+
+export interface CertificateRotation {
+  port: number;
+  from: DiffCertificate;
+  to: DiffCertificate;
+}
+
+export interface HostChanges {
+  ip: string;
+  portsOpened: DiffService[];
+  portsClosed: DiffService[];
+  softwareChanges: SoftwareChange[];
+  newCves: DiffVulnerability[];
+  resolvedCves: DiffVulnerability[];
+  certificateRotations: CertificateRotation[];
+}
+
+export interface DiffHost {
+  ip: string;
+  ports: number[];
+  cves: string[];
+}
+
+export interface SessionDiffResult {
+  baseSessionId: string;
+  targetSessionId: string;
+  summary: {
+    baseHosts: number;
+    targetHosts: number;
+    hostsAdded: number;
+    hostsRemoved: number;
+    hostsChanged: number;
+    hostsUnchanged: number;
+    portsOpened: number;
+    portsClosed: number;
+    softwareChanges: number;
+    newCves: number;      // On hosts present in both uploads
+    resolvedCves: number;
+    certificateRotations: number;
+  };
+  hostsAdded: DiffHost[];     // In target order
+  hostsRemoved: DiffHost[];   // In base order
+  changedHosts: HostChanges[]; // In target order
+}
+
+/**
+ * Type definitions for multi-file sessions
+ */
+
+export interface SessionFile {
+  filename: string;
+  uploadedAt: Date;
+  hostCount: number; // Host records in the file, before merging
+}
+
+export interface MergeConflict {
+  ip: string;
+  field: string; // Host field, or "service 443/tcp"
+  kept: 'existing' | 'incoming'; // The record with the later last_updated_at (incoming on a tie)
+}
+
+export interface HostMergeReport {
+  hostsBefore: number;
+  hostsReceived: number;
+  hostsAdded: number;     // New IPs
+  hostsMerged: number;    // Records combined into a host with the same IP
+  duplicateHosts: number; // Records identical to the host already held for their IP
+  conflicts: number;      // Fields or services both records had with different values
+  hostsAfter: number;
+  conflictDetails: MergeConflict[]; // The first conflicts, for review
+}
+
+/**
+ * Type definitions for session storage
+ */
+
+export interface ChatHistoryEntry {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  toolCalls?: ChatToolInvocation[]; // Tools the assistant ran for this answer
+}
+
+export interface SessionData {
+  data: any;
+  originalFilename: string;
+  uploadedAt: Date;
+  filePath?: string;
+  ownerId?: string; // User who uploaded the data; sessions without one belong to the anonymous user
+  files?: SessionFile[]; // Every file merged into the session, in upload order
+  summaries?: HostSummary[];
+  searchIndex?: HostSearchIndex; // Built when summarization finishes, used to pick chat context
+  chatHistory?: ChatHistoryEntry[];
+}
+
+export type SessionStoreName = 'memory' | 'file';
+
+export type SessionStatus = 'active' | 'expired' | 'evicted' | 'missing';
+
+export interface SessionLimits {
+  ttlMs: number;    // Idle time before a session expires (0 = never)
+  maxBytes: number; // Estimated memory budget across all sessions (0 = unlimited)
+}
+
+export interface SessionStoreConfig {
+  backend: SessionStoreName;
+  directory: string; // Used by the file backend
+}
+
+export interface SessionStore {
+  readonly name: SessionStoreName;
+  store(sessionId: string, data: SessionData): Promise<void>;
+  get(sessionId: string): Promise<SessionData | null>;
+  status(sessionId: string): Promise<SessionStatus>;
+  update(sessionId: string, changes: Partial<SessionData>): Promise<boolean>;
+  appendChatHistory(sessionId: string, entries: ChatHistoryEntry[]): Promise<boolean>;
+  delete(sessionId: string): Promise<boolean>;
+  size(): Promise<number>;
+  clear(): Promise<void>;
+  getActiveSessionIds(): Promise<string[]>;
+  sweep(): Promise<string[]>; // Expire idle sessions and delete their temp files; returns the removed IDs
+  referencedFilePaths(): Promise<Set<string>>; // Upload temp files still needed by live sessions
+}
+
+/**
+ * Type definitions for rate limiting and the LLM budget
+ */
+
+export interface RateLimitRule {
+  name: string;     // Which endpoint group the limit applies to, e.g. "chat"
+  max: number;      // Requests allowed per client per window (0 = unlimited)
+  windowMs: number;
+}
+
+export type LLMBudgetWindow = 'minute' | 'day';
+
+export interface LLMBudgetLimits {
+  requestsPerMinute: number; // 0 = unlimited
+  requestsPerDay: number;
+  tokensPerMinute: number;
+  tokensPerDay: number;
+}
+
+export interface LLMBudgetUsage {
+  window: LLMBudgetWindow;
+  requests: number;
+  tokens: number;
+  resetsAt: string;
+}
+
+export interface LLMBudgetStatus {
+  limits: LLMBudgetLimits;
+  usage: LLMBudgetUsage[];
+}
+
+export interface QuotaExceededInfo {
+  limit: string;            // e.g. "requests per minute"
+  retryAfterSeconds: number;
+}
+
+/**
+ * Type definitions for redaction before LLM calls
+ */
+
+export type RedactionCategory = 'secrets' | 'emails' | 'ips' | 'hostnames';
+
+export type RedactionConfig = Record<RedactionCategory, boolean>;
+
+/**
+ * Type definitions for authentication
+ */
+
+export type AuthMethod = 'api-key' | 'jwt' | 'stream-ticket' | 'anonymous';
+
+export interface AuthenticatedUser {
+  id: string;
+  method: AuthMethod;
+}
+
+export interface AuthConfig {
+  disabled: boolean;                // Every request runs as the anonymous user (local development only)
+  apiKeys: Map<string, string>;     // SHA-256 of the key -> user ID
+  jwtSecret?: string;               // HS256 shared secret; the token's "sub" claim is the user ID
+  tokenSecret: string;              // Signs tokens issued at login: JWT_SECRET, or random per process
+  tokenTtlSeconds: number;          // Lifetime of tokens issued at login
+}
+
+export interface IssuedToken {
+  token: string;
+  userId: string;
+  expiresAt: string;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
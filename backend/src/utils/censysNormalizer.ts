@@ -0,0 +1,183 @@
+import { CensysData, CensysHost, SourceFormat } from '../types';
+
+export interface NormalizationResult {
+  data: CensysData | any;
+  format: SourceFormat;
+  changed: boolean; // False when the data was already in the internal shape
+}
+
+/**
+ * Maps the different Censys export shapes onto the internal CensysData/CensysHost model:
+ * - Internal/legacy:     { "hosts": [...] }
+ * - Search API v2:       { "result": { "hits": [...] } } or a single host under "result"
+ * - Platform exports:    records with host data nested under "resource"
+ * - Bare arrays:         [host, host, ...]
+ */
+export class CensysNormalizer {
+  /**
+   * Detect the shape of parsed upload data and convert it to { hosts: [...] }
+   */
+  static normalize(raw: any): NormalizationResult {
+    if (Array.isArray(raw)) {
+      const format: SourceFormat = raw.some(item => this.isPlatformRecord(item)) ? 'platform' : 'host-array';
+      return { data: { hosts: raw.map(host => this.normalizeHost(host)) }, format, changed: true };
+    }
+
+    if (!raw || typeof raw !== 'object') {
+      return { data: raw, format: 'unknown', changed: false };
+    }
+
+    if (Array.isArray(raw.hosts)) {
+      const hosts = raw.hosts.map((host: any) => this.normalizeHost(host));
+      const changed = hosts.some((host: any, index: number) => host !== raw.hosts[index]);
+      const format: SourceFormat = raw.hosts.some((item: any) => this.isPlatformRecord(item)) ? 'platform' : 'censys-hosts';
+      return { data: changed ? { ...raw, hosts } : raw, format, changed };
+    }
+
+    const result = raw.result;
+    if (result && typeof result === 'object') {
+      if (Array.isArray(result.hits)) {
+        const { hits, ...searchMetadata } = result;
+        return {
+          data: {
+            metadata: { source: 'censys-search-v2', ...searchMetadata },
+            hosts: hits.map((hit: any) => this.normalizeHost(hit))
+          },
+          format: 'search-v2',
+          changed: true
+        };
+      }
+
+      if (this.isPlatformRecord(result)) {
+        return { data: { hosts: [this.normalizeHost(result)] }, format: 'platform', changed: true };
+      }
+
+      if (typeof result.ip === 'string') {
+        return { data: { hosts: [this.normalizeHost(result)] }, format: 'search-v2', changed: true };
+      }
+    }
+
+    if (this.isPlatformRecord(raw)) {
+      return { data: { hosts: [this.normalizeHost(raw)] }, format: 'platform', changed: true };
+    }
+
+    if (typeof raw.ip === 'string') {
+      return { data: { hosts: [this.normalizeHost(raw)] }, format: 'single-host', changed: true };
+    }
+
+    return { data: raw, format: 'unknown', changed: false };
+  }
+
+  /**
+   * Convert a single host record to the internal CensysHost shape.
+   * Hosts already in the internal shape are returned unchanged (same object).
+   */
+  static normalizeHost(record: any): CensysHost {
+    if (!record || typeof record !== 'object') {
+      return record;
+    }
+
+    const host = this.unwrapPlatformRecord(record);
+    if (host === record && !this.needsMapping(host)) {
+      return host;
+    }
+
+    const { operating_systems, last_updated, ...rest } = host;
+    const normalized: CensysHost = { ...rest, ip: host.ip };
+
+    if (Array.isArray(host.services)) {
+      normalized.services = host.services.map((service: any) => this.normalizeService(service));
+    }
+
+    if (!normalized.operating_system && Array.isArray(operating_systems) && operating_systems.length > 0) {
+      normalized.operating_system = operating_systems[0];
+    }
+
+    if (!normalized.last_updated_at && last_updated) {
+      normalized.last_updated_at = last_updated;
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Platform records nest the host under "resource" (sometimes under "host.resource")
+   */
+  private static unwrapPlatformRecord(record: any): any {
+    if (record.resource && typeof record.resource === 'object') {
+      return record.resource;
+    }
+    if (record.host?.resource && typeof record.host.resource === 'object') {
+      return record.host.resource;
+    }
+    return record;
+  }
+
+  private static isPlatformRecord(record: any): boolean {
+    return !!record && typeof record === 'object' && this.unwrapPlatformRecord(record) !== record;
+  }
+
+  /**
+   * Whether a host uses field names that differ from the internal model
+   */
+  private static needsMapping(host: any): boolean {
+    if (Array.isArray(host.operating_systems) || host.last_updated) {
+      return true;
+    }
+
+    return Array.isArray(host.services) && host.services.some((service: any) =>
+      !!service && (
+        service.extended_service_name !== undefined ||
+        service.vulns !== undefined ||
+        service.cert !== undefined ||
+        (service.service_name === undefined && service.protocol !== undefined)
+      )
+    );
+  }
+
+  /**
+   * Map Search v2 and Platform service fields onto the internal service shape
+   */
+  private static normalizeService(service: any): any {
+    if (!service || typeof service !== 'object') {
+      return service;
+    }
+
+    const { extended_service_name, vulns, cert, ...rest } = service;
+    const normalized: any = { ...rest };
+
+    // v2 reports e.g. service_name "HTTP" with extended_service_name "HTTPS"; the extended name is more specific
+    const serviceName = extended_service_name || service.service_name || service.protocol;
+    if (serviceName) {
+      normalized.service_name = serviceName;
+    }
+
+    if (typeof normalized.port === 'string' && /^\d+$/.test(normalized.port)) {
+      normalized.port = parseInt(normalized.port, 10);
+    }
+
+    if (!normalized.certificate && cert) {
+      normalized.certificate = cert;
+    }
+
+    if (!normalized.vulnerabilities && Array.isArray(vulns)) {
+      normalized.vulnerabilities = vulns
+        .map((vuln: any) => this.normalizeVulnerability(vuln))
+        .filter((vuln: any) => vuln.cve_id);
+    }
+
+    return normalized;
+  }
+
+  private static normalizeVulnerability(vuln: any): any {
+    const score = vuln?.cvss_score ?? vuln?.cvss ?? vuln?.score ??
+      vuln?.metrics?.cvss_v31?.score ?? vuln?.metrics?.cvss_v3?.score ?? vuln?.metrics?.cvss_v2?.score;
+
+    return {
+      cve_id: vuln?.cve_id || vuln?.id || vuln?.cve,
+      severity: vuln?.severity,
+      cvss_score: typeof score === 'number' ? score : undefined,
+      description: vuln?.description || vuln?.summary
+    };
+  }
+}
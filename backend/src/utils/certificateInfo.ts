@@ -0,0 +1,66 @@
+/**
+ * Normalized view of a service certificate across Censys (parsed.*),
+ * Shodan (subject/issuer objects, expired flag) and flat shapes
+ */
+export interface CertificateInfo {
+  subject: string | null;
+  issuer: string | null;
+  expired: boolean;
+  expiresAt: Date | null;
+  fingerprint: string | null; // SHA-256 when the data has one
+  selfSigned: boolean;
+}
+
+export function inspectCertificate(certificate: any): CertificateInfo | null {
+  if (!certificate || typeof certificate !== 'object') {
+    return null;
+  }
+
+  const cert = certificate.parsed || certificate;
+  const subject = distinguishedName(cert.subject_dn ?? cert.subject);
+  const issuer = distinguishedName(cert.issuer_dn ?? cert.issuer);
+  const expiresAt = parseCertificateDate(cert.validity?.end ?? cert.validity_period?.not_after ?? cert.expires);
+
+  return {
+    subject,
+    issuer,
+    expired: cert.expired === true || (!!expiresAt && expiresAt.getTime() < Date.now()),
+    expiresAt,
+    fingerprint: firstString(certificate.fingerprint_sha256, cert.fingerprint_sha256, cert.fingerprint?.sha256, cert.fingerprint),
+    selfSigned: cert.signature?.self_signed === true || (!!subject && subject === issuer)
+  };
+}
+
+function distinguishedName(value: any): string | null {
+  if (typeof value === 'string') {
+    return value || null;
+  }
+  if (value && typeof value === 'object') {
+    const parts = Object.entries(value)
+      .filter(([, part]) => typeof part === 'string' || Array.isArray(part))
+      .map(([key, part]) => `${key}=${Array.isArray(part) ? part.join('+') : part}`);
+    return parts.length > 0 ? parts.join(', ') : null;
+  }
+  return null;
+}
+
+/**
+ * ISO dates, plus the ASN.1 form Shodan uses (e.g. 20250101120000Z)
+ */
+function parseCertificateDate(value: any): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const asn1 = String(value).match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/);
+  const date = asn1
+    ? new Date(Date.UTC(+asn1[1], +asn1[2] - 1, +asn1[3], +asn1[4], +asn1[5], +asn1[6]))
+    : new Date(value);
+
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function firstString(...values: any[]): string | null {
+  const found = values.find(value => typeof value === 'string' && value);
+  return found ? found.toLowerCase() : null;
+}
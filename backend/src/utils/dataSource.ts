@@ -0,0 +1,21 @@
+import { CensysHost, HostDataSource } from '../types';
+
+const DATA_SOURCE_LABELS: Record<HostDataSource, string> = {
+  censys: 'Censys',
+  shodan: 'Shodan',
+  nmap: 'Nmap'
+};
+
+/**
+ * Where a host record came from; hosts without a source tag are Censys data
+ */
+export function hostDataSource(host: CensysHost | null | undefined): HostDataSource {
+  return host?.source && host.source in DATA_SOURCE_LABELS ? host.source : 'censys';
+}
+
+/**
+ * Human-readable name of a data source, e.g. "Shodan"
+ */
+export function dataSourceLabel(source: HostDataSource | undefined): string {
+  return DATA_SOURCE_LABELS[source || 'censys'] || DATA_SOURCE_LABELS.censys;
+}
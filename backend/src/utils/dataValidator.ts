@@ -1,5 +1,7 @@
-import { CensysData, ValidationResult } from '../types';
+import { CensysData, HostTally, ValidationResult } from '../types';
 import { GeminiService } from '../services/geminiService';
+import { parseJSONResponse } from './jsonResponse';
+import { UNTRUSTED_DATA_RULES, untrustedBlock } from './untrustedData';
 
 /**
  * Utility class for validating Censys host data
@@ -21,11 +23,12 @@ export class DataValidator {
 
   /**
    * Comprehensive validation that automatically combines AI and traditional validation methods
-   * This is the primary validation method that should be used for all uploads
+   * This is the primary validation method that should be used for all uploads.
+   * Pass a tally collected while streaming the file to avoid re-checking every host.
    */
-  static async validateData(data: any, useAI: boolean = true): Promise<ValidationResult> {
+  static async validateData(data: any, useAI: boolean = true, tally?: HostTally): Promise<ValidationResult> {
     // Always perform traditional validation first for basic structure checks
-    const traditionalResult = this.validateCensysData(data);
+    const traditionalResult = this.validateCensysData(data, tally);
     
     // If traditional validation fails completely, return immediately
     if (!traditionalResult.isValid) {
@@ -100,7 +103,7 @@ export class DataValidator {
   /**
    * Validates if the provided data is valid JSON and contains Censys host data
    */
-  static validateCensysData(data: any): ValidationResult {
+  static validateCensysData(data: any, tally?: HostTally): ValidationResult {
     try {
       // Check if data exists
       if (!data || typeof data !== 'object') {
@@ -138,56 +141,85 @@ export class DataValidator {
         };
       }
 
-      // Validate individual hosts
-      const validHosts = data.hosts.filter((host: any) => this.isValidHost(host));
-
-      if (validHosts.length === 0) {
-        return {
-          isValid: true,
-          isCensysData: false,
-          error: 'No valid hosts found. Each host must have an "ip" field with a valid IP address.'
-        };
+      // Validate individual hosts (unless they were already checked while streaming)
+      let hostTally = tally;
+      if (!hostTally) {
+        hostTally = this.createHostTally();
+        for (const host of data.hosts) {
+          this.tallyHost(hostTally, host);
+        }
       }
 
-      // Check if we have a reasonable percentage of valid hosts
-      const validRatio = validHosts.length / data.hosts.length;
-      if (validRatio < 0.5) {
-        return {
-          isValid: true,
-          isCensysData: false,
-          error: `Only ${Math.round(validRatio * 100)}% of hosts have valid IP addresses. This may not be Censys host data.`
-        };
-      }
+      return this.evaluateHostTally(hostTally);
 
-      // Validate Censys-specific structure
-      const censysValidation = this.validateCensysStructure(data.hosts);
-      if (!censysValidation.isValid) {
-        return {
-          isValid: true,
-          isCensysData: false,
-          error: censysValidation.error
-        };
-      }
+    } catch (error) {
+      return {
+        isValid: false,
+        isCensysData: false,
+        error: 'Failed to validate data structure'
+      };
+    }
+  }
+
+  /**
+   * Start counting host checks for incremental validation
+   */
+  static createHostTally(): HostTally {
+    return { total: 0, valid: 0, withCensysFields: 0 };
+  }
 
+  /**
+   * Run the per-host checks on a single host and add it to the tally
+   */
+  static tallyHost(tally: HostTally, host: any): void {
+    tally.total++;
+    if (this.isValidHost(host)) tally.valid++;
+    if (this.hasCensysFields(host)) tally.withCensysFields++;
+  }
+
+  /**
+   * Turn per-host counts into a validation result
+   */
+  private static evaluateHostTally(tally: HostTally): ValidationResult {
+    if (tally.valid === 0) {
       return {
         isValid: true,
-        isCensysData: true,
-        hostCount: validHosts.length
+        isCensysData: false,
+        error: 'No valid hosts found. Each host must have an "ip" field with a valid IP address.'
       };
+    }
 
-    } catch (error) {
+    // Check if we have a reasonable percentage of valid hosts
+    const validRatio = tally.valid / tally.total;
+    if (validRatio < 0.5) {
       return {
-        isValid: false,
+        isValid: true,
         isCensysData: false,
-        error: 'Failed to validate data structure'
+        error: `Only ${Math.round(validRatio * 100)}% of hosts have valid IP addresses. This may not be Censys host data.`
+      };
+    }
+
+    // Validate Censys-specific structure
+    const censysValidation = this.validateCensysStructure(tally);
+    if (!censysValidation.isValid) {
+      return {
+        isValid: true,
+        isCensysData: false,
+        error: censysValidation.error
       };
     }
+
+    return {
+      isValid: true,
+      isCensysData: true,
+      hostCount: tally.valid
+    };
   }
 
   /**
    * Validates if a single host object is valid
    */
-  private static isValidHost(host: any): boolean {
+  static isValidHost(host: any): boolean {
     if (!host || typeof host !== 'object') {
       return false;
     }
@@ -217,11 +249,9 @@ export class DataValidator {
   /**
    * Validates Censys-specific data structure and fields
    */
-  private static validateCensysStructure(hosts: any[]): { isValid: boolean; error?: string } {
+  private static validateCensysStructure(tally: HostTally): { isValid: boolean; error?: string } {
     // Check if at least some hosts have Censys-typical fields
-    const hostsWithCensysFields = hosts.filter(host => this.hasCensysFields(host));
-
-    if (hostsWithCensysFields.length === 0) {
+    if (tally.withCensysFields === 0) {
       return {
         isValid: false,
         error: 'Data does not appear to contain Censys host information. Expected fields like "services", "location", or "autonomous_system" are missing.'
@@ -229,7 +259,7 @@ export class DataValidator {
     }
 
     // If less than 30% of hosts have Censys fields, it's likely not real Censys data
-    const censysRatio = hostsWithCensysFields.length / hosts.length;
+    const censysRatio = tally.withCensysFields / tally.total;
     if (censysRatio < 0.3) {
       return {
         isValid: false,
@@ -350,14 +380,16 @@ export class DataValidator {
   }
 
   /**
-   * Creates a validation prompt for the AI service
+   * Creates a validation prompt for the AI service; the sample is fenced off as untrusted data
    */
   private static createValidationPrompt(sampleData: any): string {
     return `
 Please analyze this data structure and determine if it appears to be Censys host data:
 
+${UNTRUSTED_DATA_RULES}
+
 Data Structure:
-${JSON.stringify(sampleData, null, 2)}
+${untrustedBlock('DATA STRUCTURE', JSON.stringify(sampleData, null, 2))}
 
 This is the structure of valid Censys host data. Not all fields are required, but typical Censys data includes fields like 
 "services", "location", "autonomous_system", and "dns". The data should be consistent with network and security-related information.:
@@ -439,22 +471,21 @@ Key indicators of Censys data:
    * Calls the AI service for validation
    */
   private static async callAIService(prompt: string): Promise<any> {
-    // Use the existing Gemini service
-    return await GeminiService.generateContent(prompt);
+    // Use the configured LLM provider through the Gemini service
+    return await GeminiService.generateJSON(prompt);
   }
 
   /**
    * Parses the AI response and converts it to ValidationResult
    */
-  private static parseAIResponse(aiResponse: string, originalData: any): ValidationResult {
+  private static parseAIResponse(aiResponse: any, originalData: any): ValidationResult {
     try {
-      // Extract JSON from AI response
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
+      // Provider has already extracted the JSON object from the response
+      const aiAnalysis = typeof aiResponse === 'string' ? parseJSONResponse(aiResponse) : aiResponse;
+
+      if (!aiAnalysis || typeof aiAnalysis !== 'object') {
         throw new Error('No JSON found in AI response');
       }
-
-      const aiAnalysis = JSON.parse(jsonMatch[0]);
       
       // Convert AI analysis to ValidationResult
       const result: ValidationResult = {
@@ -1,39 +1,160 @@
+import fs from 'fs/promises';
+import { SessionData, SessionLimits, SessionStatus } from '../types';
+
+/**
+ * Simple in-memory storage for session data.
+ * Sessions expire after an idle TTL, and the least recently used sessions are
+ * evicted once the estimated total size exceeds the memory budget. Uploaded
+ * temp files of expired or evicted sessions are deleted.
+ */
+
+interface StoredSession {
+  session: SessionData;
+  sizeBytes: number;
+  lastAccessedAt: number;
+}
+
+// Remember why sessions went away for a day so clients get a meaningful error
+const REMOVED_SESSION_MEMORY_MS = 24 * 60 * 60 * 1000;
+const MAX_REMEMBERED_REMOVALS = 10000;
+
+/**
+ * Thrown when a single session is larger than the whole memory budget
+ */
+export class SessionTooLargeError extends Error {
+  constructor(readonly sizeBytes: number, readonly maxBytes: number) {
+    super(`Session data (${Math.ceil(sizeBytes / 1024 / 1024)} MB) exceeds the ${Math.floor(maxBytes / 1024 / 1024)} MB session memory limit`);
+    this.name = 'SessionTooLargeError';
+  }
+}
+
 /**
- * Simple in-memory storage for session data
- * Data persists until server restart to provide context across conversations
+ * Read session limits from environment variables (0 disables a limit)
  */
+export function loadSessionLimits(env: NodeJS.ProcessEnv = process.env): SessionLimits {
+  const ttlMinutes = parseFloat(env.SESSION_TTL_MINUTES ?? '60');
+  const memoryLimitMB = parseFloat(env.SESSION_MEMORY_LIMIT_MB ?? '512');
 
-interface SessionData {
-  data: any;
-  originalFilename: string;
-  uploadedAt: Date;
-  filePath?: string;
-  summaries?: any[];
+  return {
+    ttlMs: Number.isFinite(ttlMinutes) && ttlMinutes > 0 ? ttlMinutes * 60 * 1000 : 0,
+    maxBytes: Number.isFinite(memoryLimitMB) && memoryLimitMB > 0 ? memoryLimitMB * 1024 * 1024 : 0
+  };
+}
+
+/**
+ * Rough in-memory size of a value: UTF-16 strings, 8-byte numbers and a small
+ * per-object/per-property overhead. Walks iteratively so deep data can't overflow the stack.
+ */
+export function estimateSize(value: any): number {
+  let bytes = 0;
+  const stack: any[] = [value];
+  const seen = new Set<object>();
+
+  while (stack.length > 0) {
+    const current = stack.pop();
+
+    if (typeof current === 'string') {
+      bytes += 2 * current.length;
+    } else if (typeof current === 'number') {
+      bytes += 8;
+    } else if (typeof current === 'boolean') {
+      bytes += 4;
+    } else if (current instanceof Date) {
+      bytes += 8;
+    } else if (current && typeof current === 'object' && !seen.has(current)) {
+      seen.add(current);
+      if (Array.isArray(current)) {
+        bytes += 16 + 8 * current.length;
+        current.forEach(item => stack.push(item));
+      } else {
+        bytes += 16;
+        Object.keys(current).forEach(key => {
+          bytes += 8 + 2 * key.length;
+          stack.push(current[key]);
+        });
+      }
+    }
+  }
+
+  return bytes;
 }
 
 class InMemoryStoreClass {
-  private dataStore = new Map<string, SessionData>();
-  // Removed timers and TTL - data persists until server restart
+  private dataStore = new Map<string, StoredSession>(); // Insertion order is least to most recently used
+  private removed = new Map<string, { reason: 'expired' | 'evicted'; at: number }>();
+  private dataSizes = new WeakMap<object, number>(); // Host data rarely changes; don't re-walk it on every update
+  private totalBytes = 0;
+  private limits: SessionLimits = loadSessionLimits();
 
   /**
-   * Store data (persists until server restart)
+   * Change the TTL and memory budget (evicting immediately if the budget shrank)
+   */
+  configure(limits: Partial<SessionLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+    this.sweep();
+    this.evictToBudget();
+  }
+
+  getLimits(): SessionLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Store data, evicting least recently used sessions if needed to stay within budget
    */
   store(sessionId: string, data: SessionData): void {
-    this.dataStore.set(sessionId, data);
+    const sizeBytes = this.sizeOf(data);
+    if (this.limits.maxBytes > 0 && sizeBytes > this.limits.maxBytes) {
+      throw new SessionTooLargeError(sizeBytes, this.limits.maxBytes);
+    }
+
+    this.remove(sessionId);
+    this.dataStore.set(sessionId, { session: data, sizeBytes, lastAccessedAt: Date.now() });
+    this.totalBytes += sizeBytes;
+    this.removed.delete(sessionId);
+
+    this.evictToBudget(sessionId);
   }
 
   /**
-   * Retrieve data by session ID
+   * Retrieve data by session ID, refreshing its TTL and LRU position
    */
   get(sessionId: string): SessionData | null {
-    return this.dataStore.get(sessionId) || null;
+    const entry = this.dataStore.get(sessionId);
+    if (!entry) {
+      return null;
+    }
+
+    if (this.isExpired(entry)) {
+      this.expire(sessionId, 'expired');
+      return null;
+    }
+
+    entry.lastAccessedAt = Date.now();
+    this.dataStore.delete(sessionId);
+    this.dataStore.set(sessionId, entry);
+    return entry.session;
+  }
+
+  /**
+   * Whether a session is available, or why it isn't
+   */
+  status(sessionId: string): SessionStatus {
+    const entry = this.dataStore.get(sessionId);
+    if (entry && !this.isExpired(entry)) {
+      return 'active';
+    }
+    if (entry) {
+      this.expire(sessionId, 'expired');
+    }
+    return this.removed.get(sessionId)?.reason || 'missing';
   }
 
   /**
    * Delete data by session ID
    */
   delete(sessionId: string): boolean {
-    return this.dataStore.delete(sessionId);
+    return this.remove(sessionId) !== null;
   }
 
   /**
@@ -43,11 +164,27 @@ class InMemoryStoreClass {
     return this.dataStore.size;
   }
 
+  /**
+   * Estimated bytes held by all sessions (for monitoring)
+   */
+  totalSize(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Estimated bytes held by one session
+   */
+  sessionSize(sessionId: string): number {
+    return this.dataStore.get(sessionId)?.sizeBytes ?? 0;
+  }
+
   /**
    * Clear all data (for testing/cleanup)
    */
   clear(): void {
     this.dataStore.clear();
+    this.removed.clear();
+    this.totalBytes = 0;
   }
 
   /**
@@ -56,8 +193,102 @@ class InMemoryStoreClass {
   getActiveSessionIds(): string[] {
     return Array.from(this.dataStore.keys());
   }
+
+  /**
+   * Upload temp files still needed by live sessions
+   */
+  referencedFilePaths(): Set<string> {
+    return new Set(
+      Array.from(this.dataStore.values())
+        .map(entry => entry.session.filePath)
+        .filter((filePath): filePath is string => !!filePath)
+    );
+  }
+
+  /**
+   * Expire idle sessions; returns the IDs that were removed
+   */
+  sweep(): string[] {
+    const expired = Array.from(this.dataStore.entries())
+      .filter(([, entry]) => this.isExpired(entry))
+      .map(([sessionId]) => sessionId);
+
+    expired.forEach(sessionId => this.expire(sessionId, 'expired'));
+    this.pruneRemovals();
+    return expired;
+  }
+
+  private isExpired(entry: StoredSession): boolean {
+    return this.limits.ttlMs > 0 && Date.now() - entry.lastAccessedAt > this.limits.ttlMs;
+  }
+
+  /**
+   * Evict least recently used sessions until the budget is met, never evicting `keep`
+   */
+  private evictToBudget(keep?: string): void {
+    if (this.limits.maxBytes <= 0) {
+      return;
+    }
+
+    for (const sessionId of Array.from(this.dataStore.keys())) {
+      if (this.totalBytes <= this.limits.maxBytes) {
+        break;
+      }
+      if (sessionId !== keep) {
+        this.expire(sessionId, 'evicted');
+      }
+    }
+  }
+
+  private expire(sessionId: string, reason: 'expired' | 'evicted'): void {
+    const session = this.remove(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.removed.set(sessionId, { reason, at: Date.now() });
+    if (session.filePath) {
+      fs.unlink(session.filePath).catch(() => {
+        // Already cleaned up
+      });
+    }
+  }
+
+  private remove(sessionId: string): SessionData | null {
+    const entry = this.dataStore.get(sessionId);
+    if (!entry) {
+      return null;
+    }
+
+    this.dataStore.delete(sessionId);
+    this.totalBytes -= entry.sizeBytes;
+    return entry.session;
+  }
+
+  private pruneRemovals(): void {
+    const cutoff = Date.now() - REMOVED_SESSION_MEMORY_MS;
+    for (const [sessionId, removal] of Array.from(this.removed.entries())) {
+      if (removal.at < cutoff || this.removed.size > MAX_REMEMBERED_REMOVALS) {
+        this.removed.delete(sessionId);
+      }
+    }
+  }
+
+  private sizeOf(session: SessionData): number {
+    const { data, ...rest } = session;
+
+    let dataBytes = data && typeof data === 'object' ? this.dataSizes.get(data) : undefined;
+    if (dataBytes === undefined) {
+      dataBytes = estimateSize(data);
+      if (data && typeof data === 'object') {
+        this.dataSizes.set(data, dataBytes);
+      }
+    }
+
+    return dataBytes + estimateSize(rest);
+  }
 }
 
 // Export singleton instance
 export const InMemoryStore = new InMemoryStoreClass();
-export type { SessionData };
\ No newline at end of file
+export type { SessionData };
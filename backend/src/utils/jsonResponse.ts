@@ -0,0 +1,25 @@
+/**
+ * Helpers for pulling structured JSON out of free-form LLM responses
+ */
+
+/**
+ * Extract and parse the first JSON object or array found in a model response.
+ * Models frequently wrap JSON in prose or markdown code fences, so we strip
+ * those before parsing.
+ */
+export function parseJSONResponse<T = any>(text: string): T {
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch {
+    // Fall through to a looser extraction below
+  }
+
+  const jsonMatch = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    throw new Error('No JSON found in AI response');
+  }
+
+  return JSON.parse(jsonMatch[0]) as T;
+}
@@ -0,0 +1,316 @@
+import fs from 'fs';
+
+/**
+ * Incremental JSON parser for large host files.
+ *
+ * Produces the same value as JSON.parse, but reads the file in chunks and
+ * parses host arrays (the root array, the root "hosts" field, a Search v2
+ * "result.hits" field or a Shodan search "matches" field) one element at a time, so the full file text is never
+ * held in memory. Every other value is small and parsed with JSON.parse once
+ * it is complete.
+ */
+
+// Object paths whose array values are streamed element by element
+const STREAMED_ARRAY_PATHS = [['hosts'], ['result', 'hits'], ['matches']];
+
+const isStreamedPath = (path: string[]) =>
+  STREAMED_ARRAY_PATHS.some(streamed => streamed.length === path.length && streamed.every((key, i) => key === path[i]));
+
+const isStreamedPathPrefix = (path: string[]) =>
+  STREAMED_ARRAY_PATHS.some(streamed => streamed.length > path.length && path.every((key, i) => key === streamed[i]));
+
+/**
+ * Add a key the way JSON.parse does: "__proto__" becomes an ordinary property
+ * instead of replacing the object's prototype
+ */
+const setKey = (container: Record<string, any>, key: string, value: unknown): void => {
+  Object.defineProperty(container, key, { value, writable: true, enumerable: true, configurable: true });
+};
+
+interface ObjectFrame {
+  container: Record<string, any>;
+  path: string[];
+}
+
+type Mode =
+  | 'root'          // Before the first value
+  | 'key'           // Inside an object, expecting a key or '}'
+  | 'key-string'    // Reading a key
+  | 'colon'         // Expecting ':' after a key
+  | 'value-start'   // Expecting an object value
+  | 'object-next'   // After a streamed array or nested object, expecting ',' or '}'
+  | 'element'       // Inside a streamed array, expecting an element or ']'
+  | 'value'         // Capturing a complete value
+  | 'raw-root'      // Root is neither object nor array: capture everything
+  | 'end';          // After the root value, only whitespace allowed
+
+const WHITESPACE = new Set([' ', '\t', '\n', '\r', '\uFEFF']);
+
+class JSONStreamScanner {
+  private mode: Mode = 'root';
+  private root: any;
+  private frames: ObjectFrame[] = [];
+  private hosts: any[] | null = null;
+  private hostCount = 0;
+  private key = '';
+  private afterComma = false;  // A key/element is required next
+  private valueOwner: 'object' | 'array' = 'object';
+
+  // Capture state for keys and values
+  private buffer = '';
+  private captureStart = -1;
+  private nest = 0;
+  private inString = false;
+  private escape = false;
+
+  // Position tracking for error messages
+  private offset = 0;
+
+  constructor(private readonly onHost: (host: any, index: number) => void) {}
+
+  write(chunk: string): void {
+    for (let i = 0; i < chunk.length; i++) {
+      this.step(chunk, i);
+    }
+
+    // Carry a partially captured key/value over to the next chunk
+    if (this.captureStart >= 0) {
+      this.buffer += chunk.slice(this.captureStart);
+      this.captureStart = 0;
+    }
+    this.offset += chunk.length;
+  }
+
+  end(): any {
+    if (this.mode === 'raw-root') {
+      return JSON.parse(this.buffer);
+    }
+    if (this.mode !== 'end') {
+      throw new SyntaxError('Unexpected end of JSON input');
+    }
+    return this.root;
+  }
+
+  private step(chunk: string, i: number): void {
+    const ch = chunk[i];
+
+    switch (this.mode) {
+      case 'root':
+        if (WHITESPACE.has(ch)) return;
+        if (ch === '{') {
+          this.root = {};
+          this.frames.push({ container: this.root, path: [] });
+          this.mode = 'key';
+        } else if (ch === '[') {
+          this.root = [];
+          this.hosts = this.root;
+          this.mode = 'element';
+        } else {
+          this.mode = 'raw-root';
+          this.captureStart = i;
+        }
+        return;
+
+      case 'raw-root':
+        return;
+
+      case 'key':
+        if (WHITESPACE.has(ch)) return;
+        if (ch === '"') {
+          this.mode = 'key-string';
+          this.captureStart = i;
+          this.afterComma = false;
+          return;
+        }
+        if (ch === '}' && !this.afterComma) {
+          this.closeObject();
+          return;
+        }
+        return this.fail(ch, i);
+
+      case 'key-string':
+        if (this.escape) {
+          this.escape = false;
+        } else if (ch === '\\') {
+          this.escape = true;
+        } else if (ch === '"') {
+          this.key = JSON.parse(this.takeCapture(chunk, i + 1));
+          this.mode = 'colon';
+        }
+        return;
+
+      case 'colon':
+        if (WHITESPACE.has(ch)) return;
+        if (ch === ':') {
+          this.mode = 'value-start';
+          return;
+        }
+        return this.fail(ch, i);
+
+      case 'value-start': {
+        if (WHITESPACE.has(ch)) return;
+        const frame = this.currentFrame();
+        const path = [...frame.path, this.key];
+
+        if (ch === '[' && isStreamedPath(path)) {
+          this.hosts = [];
+          setKey(frame.container, this.key, this.hosts);
+          this.afterComma = false;
+          this.mode = 'element';
+          return;
+        }
+        if (ch === '{' && isStreamedPathPrefix(path)) {
+          // Descend into objects that lead to a streamed array instead of capturing them
+          const container = {};
+          setKey(frame.container, this.key, container);
+          this.frames.push({ container, path });
+          this.afterComma = false;
+          this.mode = 'key';
+          return;
+        }
+        this.startValue('object', chunk, i);
+        return;
+      }
+
+      case 'element':
+        if (WHITESPACE.has(ch)) return;
+        if (ch === ']' && !this.afterComma) {
+          this.closeHosts();
+          return;
+        }
+        if (ch === ',' || ch === ']') {
+          return this.fail(ch, i);
+        }
+        this.startValue('array', chunk, i);
+        return;
+
+      case 'value':
+        this.stepValue(chunk, i);
+        return;
+
+      case 'object-next':
+        if (WHITESPACE.has(ch)) return;
+        if (ch === ',') {
+          this.afterComma = true;
+          this.mode = 'key';
+          return;
+        }
+        if (ch === '}') {
+          this.closeObject();
+          return;
+        }
+        return this.fail(ch, i);
+
+      case 'end':
+        if (WHITESPACE.has(ch)) return;
+        return this.fail(ch, i);
+    }
+  }
+
+  private startValue(owner: 'object' | 'array', chunk: string, i: number): void {
+    this.valueOwner = owner;
+    this.mode = 'value';
+    this.captureStart = i;
+    this.nest = 0;
+    this.inString = false;
+    this.escape = false;
+    this.stepValue(chunk, i);
+  }
+
+  private stepValue(chunk: string, i: number): void {
+    const ch = chunk[i];
+
+    if (this.inString) {
+      if (this.escape) {
+        this.escape = false;
+      } else if (ch === '\\') {
+        this.escape = true;
+      } else if (ch === '"') {
+        this.inString = false;
+      }
+      return;
+    }
+
+    if (ch === '"') {
+      this.inString = true;
+    } else if (ch === '{' || ch === '[') {
+      this.nest++;
+    } else if ((ch === '}' || ch === ']') && this.nest > 0) {
+      this.nest--;
+    } else if (this.nest === 0 && (ch === ',' || ch === '}' || ch === ']')) {
+      this.finishValue(chunk, i);
+    }
+  }
+
+  private finishValue(chunk: string, i: number): void {
+    const ch = chunk[i];
+    const value = JSON.parse(this.takeCapture(chunk, i));
+
+    if (this.valueOwner === 'array') {
+      this.hosts!.push(value);
+      this.onHost(value, this.hostCount++);
+
+      if (ch === ',') {
+        this.afterComma = true;
+        this.mode = 'element';
+      } else if (ch === ']') {
+        this.closeHosts();
+      } else {
+        this.fail(ch, i);
+      }
+      return;
+    }
+
+    setKey(this.currentFrame().container, this.key, value);
+    if (ch === ',') {
+      this.afterComma = true;
+      this.mode = 'key';
+    } else if (ch === '}') {
+      this.closeObject();
+    } else {
+      this.fail(ch, i);
+    }
+  }
+
+  private closeHosts(): void {
+    // A root array ends the document; a streamed field returns to its object
+    this.mode = this.root === this.hosts ? 'end' : 'object-next';
+  }
+
+  private closeObject(): void {
+    this.frames.pop();
+    this.mode = this.frames.length === 0 ? 'end' : 'object-next';
+  }
+
+  private currentFrame(): ObjectFrame {
+    return this.frames[this.frames.length - 1];
+  }
+
+  private takeCapture(chunk: string, endIndex: number): string {
+    const text = this.buffer + chunk.slice(this.captureStart, endIndex);
+    this.buffer = '';
+    this.captureStart = -1;
+    return text;
+  }
+
+  private fail(ch: string, i: number): never {
+    throw new SyntaxError(`Unexpected token ${JSON.stringify(ch)} in JSON at position ${this.offset + i}`);
+  }
+}
+
+/**
+ * Parse a JSON file incrementally, reporting each host as soon as it is parsed
+ */
+export async function parseJSONFile(
+  filePath: string,
+  onHost: (host: any, index: number) => void = () => {}
+): Promise<any> {
+  const scanner = new JSONStreamScanner(onHost);
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8', highWaterMark: 64 * 1024 });
+
+  for await (const chunk of stream) {
+    scanner.write(chunk as string);
+  }
+
+  return scanner.end();
+}
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import readline from 'readline';
+import { CensysData, LineError } from '../types';
+import { DataValidator } from './dataValidator';
+import { CensysNormalizer } from './censysNormalizer';
+import { ShodanImporter } from './shodanImporter';
+
+// Cap the number of line errors returned so a badly broken file doesn't flood the response
+const MAX_REPORTED_LINE_ERRORS = 100;
+
+export interface NDJSONParseResult {
+  data: CensysData;
+  lineErrors: LineError[];
+  badLineCount: number;
+  shodanLineCount: number;
+}
+
+/**
+ * Parse a newline-delimited JSON (JSON Lines) file with one host per line.
+ * Bad lines are skipped and reported by line number instead of failing the whole file.
+ */
+export async function parseNDJSONFile(
+  filePath: string,
+  onHost: (host: any, index: number) => void = () => {}
+): Promise<NDJSONParseResult> {
+  const hosts: any[] = [];
+  const lineErrors: LineError[] = [];
+  let badLineCount = 0;
+  let shodanLineCount = 0;
+  let lineNumber = 0;
+
+  const reportBadLine = (error: string) => {
+    badLineCount++;
+    if (lineErrors.length < MAX_REPORTED_LINE_ERRORS) {
+      lineErrors.push({ line: lineNumber, error });
+    }
+  };
+
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'utf8' }),
+    crlfDelay: Infinity
+  });
+
+  for await (const rawLine of lines) {
+    lineNumber++;
+    const line = rawLine.replace(/^\uFEFF/, '').trim();
+
+    if (!line) {
+      continue;
+    }
+
+    let host: any;
+    try {
+      host = JSON.parse(line);
+    } catch (parseError) {
+      reportBadLine(`Invalid JSON: ${parseError instanceof Error ? parseError.message : 'parse error'}`);
+      continue;
+    }
+
+    if (!host || typeof host !== 'object' || Array.isArray(host)) {
+      reportBadLine('Expected a JSON object describing a single host');
+      continue;
+    }
+
+    // Lines may be Search v2 hits, Platform records or Shodan banners as well as internal hosts
+    if (ShodanImporter.isShodanRecord(host)) {
+      host = ShodanImporter.convertRecord(host);
+      shodanLineCount++;
+    } else {
+      host = CensysNormalizer.normalizeHost(host);
+    }
+
+    if (!DataValidator.isValidHost(host)) {
+      reportBadLine('Host is missing a valid "ip" field');
+      continue;
+    }
+
+    hosts.push(host);
+    onHost(host, hosts.length - 1);
+  }
+
+  return {
+    data: { hosts },
+    lineErrors,
+    badLineCount,
+    shodanLineCount
+  };
+}
+
+/**
+ * Whether a filename looks like newline-delimited JSON
+ */
+export function isNDJSONFilename(filename: string): boolean {
+  return /\.(ndjson|jsonl)$/i.test(filename);
+}
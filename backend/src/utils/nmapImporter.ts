@@ -0,0 +1,182 @@
+import fs from 'fs/promises';
+import { XMLParser } from 'fast-xml-parser';
+import { CensysData, CensysHost } from '../types';
+
+// Elements that can repeat in Nmap output and must always parse as arrays
+const REPEATED_ELEMENTS = new Set([
+  'host', 'address', 'hostname', 'port', 'script', 'osmatch', 'osclass', 'cpe', 'elem', 'table'
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseAttributeValue: false,
+  htmlEntities: true, // Script output uses numeric entities such as &#xa; for newlines
+  isArray: name => REPEATED_ELEMENTS.has(name)
+});
+
+/**
+ * Imports Nmap XML scan output (nmap -oX) as CensysHost records so scans can
+ * flow through the same validation, summarization and chat features.
+ */
+export class NmapImporter {
+  /**
+   * Whether the start of a file looks like Nmap XML output
+   */
+  static isNmapXML(head: string): boolean {
+    return /^\s*(<\?xml[^>]*>\s*)?(<!DOCTYPE nmaprun>\s*)?(<\?xml-stylesheet[^>]*>\s*)?<nmaprun[\s>]/i.test(head);
+  }
+
+  /**
+   * Read and convert an Nmap XML file
+   */
+  static async importFile(filePath: string): Promise<CensysData> {
+    return this.importXML(await fs.readFile(filePath, 'utf-8'));
+  }
+
+  /**
+   * Convert Nmap XML text to { metadata, hosts }
+   */
+  static importXML(xml: string): CensysData {
+    const document = parser.parse(xml);
+    const run = document?.nmaprun;
+
+    if (!run || typeof run !== 'object') {
+      throw new Error('Not an Nmap XML report: missing <nmaprun> element');
+    }
+
+    const hosts = (run.host || [])
+      .filter((host: any) => host?.status?.state !== 'down')
+      .map((host: any) => this.convertHost(host, run))
+      .filter((host: CensysHost | null): host is CensysHost => host !== null);
+
+    return {
+      metadata: {
+        source: 'nmap',
+        scanner: run.scanner,
+        version: run.version,
+        args: run.args,
+        started_at: this.epochToISO(run.start)
+      },
+      hosts
+    };
+  }
+
+  private static convertHost(host: any, run: any): CensysHost | null {
+    const addresses: any[] = host.address || [];
+    const ipAddress = addresses.find(address => address.addrtype === 'ipv4') ||
+      addresses.find(address => address.addrtype === 'ipv6');
+
+    if (!ipAddress?.addr) {
+      return null;
+    }
+
+    const converted: CensysHost = {
+      ip: ipAddress.addr,
+      source: 'nmap',
+      services: (host.ports?.port || [])
+        .filter((port: any) => String(port.state?.state || '').startsWith('open'))
+        .map((port: any) => this.convertPort(port))
+    };
+
+    const mac = addresses.find(address => address.addrtype === 'mac');
+    if (mac) {
+      converted.mac_address = { address: mac.addr, vendor: mac.vendor };
+    }
+
+    const names = (host.hostnames?.hostname || []).map((hostname: any) => hostname.name).filter(Boolean);
+    if (names.length > 0) {
+      converted.dns = { names };
+    }
+
+    const operatingSystem = this.convertOS(host.os);
+    if (operatingSystem) {
+      converted.operating_system = operatingSystem;
+    }
+
+    const scannedAt = this.epochToISO(host.endtime || host.starttime || run.start);
+    if (scannedAt) {
+      converted.last_updated_at = scannedAt;
+    }
+
+    return converted;
+  }
+
+  private static convertPort(port: any): NonNullable<CensysHost['services']>[number] {
+    const service = port.service || {};
+    const scripts: any[] = port.script || [];
+
+    const converted: NonNullable<CensysHost['services']>[number] = {
+      port: parseInt(port.portid, 10),
+      transport_protocol: port.protocol ? String(port.protocol).toUpperCase() : undefined,
+      service_name: this.serviceName(service)
+    };
+
+    if (service.product || service.version) {
+      converted.software = [{
+        product: service.product,
+        version: service.version
+      }];
+    }
+
+    if (service.extrainfo) {
+      converted.extra_info = service.extrainfo;
+    }
+
+    const cpes = (service.cpe || []).map((cpe: any) => (typeof cpe === 'string' ? cpe : cpe?.['#text'])).filter(Boolean);
+    if (cpes.length > 0) {
+      converted.cpes = cpes;
+    }
+
+    // NSE script output is the closest thing Nmap has to a service banner
+    const scriptOutput = scripts
+      .filter(script => script.id && script.output)
+      .map(script => `${script.id}: ${String(script.output).trim()}`);
+    if (scriptOutput.length > 0) {
+      converted.banner = scriptOutput.join('\n');
+    }
+
+    const sslCert = scripts.find(script => script.id === 'ssl-cert');
+    if (sslCert) {
+      converted.certificate = { source: 'nmap ssl-cert', raw: String(sslCert.output || '').trim() };
+    }
+
+    return converted;
+  }
+
+  /**
+   * Nmap reports e.g. name="http" tunnel="ssl"; Censys would call that HTTPS
+   */
+  private static serviceName(service: any): string | undefined {
+    if (!service.name) {
+      return undefined;
+    }
+
+    const name = String(service.name).toUpperCase();
+    return service.tunnel === 'ssl' && name === 'HTTP' ? 'HTTPS' : name;
+  }
+
+  /**
+   * Use the most accurate OS match
+   */
+  private static convertOS(os: any): CensysHost['operating_system'] | null {
+    const matches: any[] = os?.osmatch || [];
+    if (matches.length === 0) {
+      return null;
+    }
+
+    const best = matches.reduce((a, b) => (parseInt(b.accuracy, 10) > parseInt(a.accuracy, 10) ? b : a));
+    const osClass = (best.osclass || [])[0] || {};
+
+    return {
+      product: best.name,
+      vendor: osClass.vendor,
+      version: osClass.osgen
+    };
+  }
+
+  private static epochToISO(epoch: any): string | undefined {
+    const seconds = parseInt(epoch, 10);
+    return Number.isFinite(seconds) ? new Date(seconds * 1000).toISOString() : undefined;
+  }
+}
@@ -0,0 +1,67 @@
+import { Request, Response } from 'express';
+import { currentUserId, ANONYMOUS_USER_ID } from '../middleware/auth';
+import { getSessionStore } from '../services/storage';
+import { ApiResponse, SessionData } from '../types';
+
+/**
+ * Respond for a session that couldn't be loaded: 410 with SESSION_EXPIRED or
+ * SESSION_EVICTED when it existed but was dropped, otherwise 404 SESSION_NOT_FOUND
+ */
+export async function sendSessionUnavailable(res: Response, sessionId: string): Promise<void> {
+  const status = await getSessionStore().status(sessionId);
+
+  if (status === 'expired') {
+    res.status(410).json({
+      success: false,
+      error: 'Session expired after a period of inactivity. Please upload your file again.',
+      code: 'SESSION_EXPIRED'
+    } as ApiResponse);
+    return;
+  }
+
+  if (status === 'evicted') {
+    res.status(410).json({
+      success: false,
+      error: 'Session was removed to free up server memory. Please upload your file again.',
+      code: 'SESSION_EVICTED'
+    } as ApiResponse);
+    return;
+  }
+
+  res.status(404).json({
+    success: false,
+    error: 'Session not found. Please upload your file again.',
+    code: 'SESSION_NOT_FOUND'
+  } as ApiResponse);
+}
+
+/**
+ * Whether the session belongs to the user (sessions without an owner belong to the anonymous user)
+ */
+export function isSessionOwner(session: SessionData, userId: string): boolean {
+  return (session.ownerId ?? ANONYMOUS_USER_ID) === userId;
+}
+
+/**
+ * Load a session owned by the requesting user. Sends the error response and
+ * returns null if the session is unavailable or belongs to someone else.
+ */
+export async function loadOwnedSession(req: Request, res: Response, sessionId: string): Promise<SessionData | null> {
+  const session = await getSessionStore().get(sessionId);
+
+  if (!session) {
+    await sendSessionUnavailable(res, sessionId);
+    return null;
+  }
+
+  if (!isSessionOwner(session, currentUserId(req))) {
+    res.status(403).json({
+      success: false,
+      error: 'You do not have access to this session.',
+      code: 'SESSION_FORBIDDEN'
+    } as ApiResponse);
+    return null;
+  }
+
+  return session;
+}
@@ -0,0 +1,185 @@
+import { CensysData, CensysHost } from '../types';
+
+type CensysService = NonNullable<CensysHost['services']>[number];
+
+/**
+ * Imports Shodan data as CensysHost records. Accepts:
+ * - Host lookups (`shodan host` / /shodan/host/{ip}) with a data[] array of banners
+ * - Search results ({ "matches": [...] }) and `shodan download` banners, one per service
+ * Banners for the same IP are merged into one host.
+ */
+export class ShodanImporter {
+  /**
+   * Whether a single record looks like a Shodan host or banner
+   */
+  static isShodanRecord(record: any): boolean {
+    return !!record && typeof record === 'object' && typeof record.ip_str === 'string' &&
+      (Array.isArray(record.data) || record.port !== undefined || record._shodan !== undefined);
+  }
+
+  /**
+   * Whether parsed JSON looks like Shodan output
+   */
+  static isShodanData(raw: any): boolean {
+    if (Array.isArray(raw)) {
+      return raw.length > 0 && raw.some(record => this.isShodanRecord(record));
+    }
+    if (raw && Array.isArray(raw.matches)) {
+      return raw.matches.some((record: any) => this.isShodanRecord(record));
+    }
+    return this.isShodanRecord(raw);
+  }
+
+  /**
+   * Convert parsed Shodan JSON to { metadata, hosts }
+   */
+  static convert(raw: any): CensysData {
+    const records: any[] = Array.isArray(raw) ? raw : Array.isArray(raw?.matches) ? raw.matches : [raw];
+
+    return {
+      metadata: {
+        source: 'shodan',
+        ...(typeof raw?.total === 'number' ? { total: raw.total } : {})
+      },
+      hosts: this.mergeHosts(records.filter(record => this.isShodanRecord(record)).map(record => this.convertRecord(record)))
+    };
+  }
+
+  /**
+   * Convert a single Shodan host or banner record to a CensysHost
+   */
+  static convertRecord(record: any): CensysHost {
+    const banners: any[] = Array.isArray(record.data) ? record.data : [record];
+    const location = record.location || record;
+
+    const host: CensysHost = {
+      ip: record.ip_str,
+      source: 'shodan',
+      services: banners.map(banner => this.convertBanner(banner))
+    };
+
+    if (location.country_name || location.city) {
+      host.location = {
+        country: location.country_name,
+        country_code: location.country_code,
+        city: location.city,
+        ...(typeof location.latitude === 'number' && typeof location.longitude === 'number'
+          ? { coordinates: { latitude: location.latitude, longitude: location.longitude } }
+          : {})
+      };
+    }
+
+    if (record.asn || record.org || record.isp) {
+      const asn = parseInt(String(record.asn || '').replace(/^AS/i, ''), 10);
+      host.autonomous_system = {
+        asn: Number.isFinite(asn) ? asn : undefined,
+        name: record.org || record.isp
+      };
+    }
+
+    if (record.os) {
+      host.operating_system = { product: record.os };
+    }
+
+    const names = [...(record.hostnames || []), ...(record.domains || [])];
+    if (names.length > 0) {
+      host.dns = { names: Array.from(new Set(names)) };
+    }
+
+    if (Array.isArray(record.tags) && record.tags.length > 0) {
+      host.tags = record.tags;
+    }
+
+    const updated = record.last_update || record.timestamp;
+    if (updated) {
+      host.last_updated_at = this.toISO(updated);
+    }
+
+    return host;
+  }
+
+  /**
+   * Combine records that share an IP, keeping one service per port/transport
+   */
+  static mergeHosts(hosts: CensysHost[]): CensysHost[] {
+    const byIP = new Map<string, CensysHost>();
+
+    hosts.forEach(host => {
+      const existing = byIP.get(host.ip);
+      if (!existing) {
+        byIP.set(host.ip, host);
+        return;
+      }
+
+      const services = [...(existing.services || [])];
+      (host.services || []).forEach(service => {
+        const duplicate = services.some(current =>
+          current.port === service.port && current.transport_protocol === service.transport_protocol
+        );
+        if (!duplicate) services.push(service);
+      });
+
+      byIP.set(host.ip, {
+        ...host,
+        ...existing,
+        services,
+        last_updated_at: [existing.last_updated_at, host.last_updated_at].filter(Boolean).sort().pop()
+      });
+    });
+
+    return Array.from(byIP.values());
+  }
+
+  private static convertBanner(banner: any): CensysService {
+    const service: CensysService = {
+      port: banner.port,
+      transport_protocol: banner.transport ? String(banner.transport).toUpperCase() : undefined,
+      service_name: this.serviceName(banner)
+    };
+
+    if (banner.product || banner.version) {
+      service.software = [{ product: banner.product, version: banner.version }];
+    }
+
+    if (typeof banner.data === 'string' && banner.data.trim()) {
+      service.banner = banner.data.trim();
+    }
+
+    if (banner.ssl?.cert) {
+      service.certificate = banner.ssl.cert;
+    }
+
+    if (banner.http?.title) {
+      service.http = { title: banner.http.title, server: banner.http.server };
+    }
+
+    // Shodan keys banner vulns by CVE ID: { "CVE-2021-1234": { cvss, summary, verified } }
+    if (banner.vulns && typeof banner.vulns === 'object') {
+      service.vulnerabilities = Object.entries(banner.vulns).map(([cveId, details]: [string, any]) => ({
+        cve_id: cveId,
+        cvss_score: typeof details?.cvss === 'number' ? details.cvss : parseFloat(details?.cvss) || undefined,
+        description: details?.summary,
+        verified: details?.verified
+      }));
+    }
+
+    return service;
+  }
+
+  /**
+   * Shodan's crawler module is the closest thing to a service name (e.g. "https", "ssh", "http-simple-new")
+   */
+  private static serviceName(banner: any): string | undefined {
+    const module = banner._shodan?.module;
+    if (!module) {
+      return banner.product ? String(banner.product).toUpperCase() : undefined;
+    }
+    return String(module).replace(/-simple-new$/, '').toUpperCase();
+  }
+
+  private static toISO(timestamp: string): string {
+    // Shodan timestamps have no timezone but are UTC
+    const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(timestamp) ? timestamp : `${timestamp}Z`);
+    return Number.isNaN(date.getTime()) ? timestamp : date.toISOString();
+  }
+}
@@ -0,0 +1,190 @@
+import { RiskLevel, StructuredHostSummary } from '../types';
+
+export const RISK_LEVELS: RiskLevel[] = ['critical', 'high', 'medium', 'low', 'none'];
+
+// Words models commonly use instead of our risk levels
+const RISK_LEVEL_ALIASES: Record<string, RiskLevel> = {
+  severe: 'critical',
+  moderate: 'medium',
+  minimal: 'none',
+  info: 'none',
+  informational: 'none'
+};
+
+const CVE_ID = /^CVE-\d{4}-\d{4,}$/i;
+
+/**
+ * JSON Schema for structured host summaries, included in the summarization prompt
+ */
+export const STRUCTURED_SUMMARY_SCHEMA = {
+  type: 'object',
+  required: ['riskLevel', 'keyServices', 'notableCVEs', 'certificateFindings', 'operatingSystem', 'recommendedActions', 'narrative'],
+  properties: {
+    riskLevel: { type: 'string', enum: RISK_LEVELS },
+    keyServices: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['port', 'service'],
+        properties: {
+          port: { type: 'integer' },
+          service: { type: 'string' },
+          software: { type: 'string' },
+          note: { type: 'string' }
+        }
+      }
+    },
+    notableCVEs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['cveId'],
+        properties: {
+          cveId: { type: 'string', pattern: '^CVE-\\d{4}-\\d{4,}$' },
+          cvssScore: { type: 'number', minimum: 0, maximum: 10 },
+          note: { type: 'string' }
+        }
+      }
+    },
+    certificateFindings: { type: 'array', items: { type: 'string' } },
+    operatingSystem: { type: ['string', 'null'] },
+    recommendedActions: { type: 'array', items: { type: 'string' } },
+    narrative: { type: 'string', minLength: 1 }
+  }
+};
+
+export interface SummaryValidationResult {
+  summary?: StructuredHostSummary;
+  errors: string[];
+}
+
+/**
+ * Validates model output against STRUCTURED_SUMMARY_SCHEMA.
+ * Harmless deviations (casing, snake_case keys, a string where a list is expected,
+ * numeric strings, malformed list items) are repaired; anything that can't be
+ * repaired is reported as an error so the caller can ask the model to fix it.
+ */
+export class SummarySchema {
+  static validate(value: any): SummaryValidationResult {
+    const errors: string[] = [];
+
+    if (Array.isArray(value) && value.length === 1) {
+      value = value[0];
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return { errors: ['Response must be a single JSON object'] };
+    }
+
+    const riskLevel = this.riskLevel(value.riskLevel ?? value.risk_level);
+    if (!riskLevel) {
+      errors.push(`"riskLevel" must be one of: ${RISK_LEVELS.join(', ')}`);
+    }
+
+    const narrative = value.narrative ?? value.summary;
+    if (typeof narrative !== 'string' || !narrative.trim()) {
+      errors.push('"narrative" must be a non-empty string');
+    }
+
+    const keyServices = this.list(value.keyServices ?? value.key_services, 'keyServices', errors)
+      .map(item => this.service(item))
+      .filter((item): item is StructuredHostSummary['keyServices'][number] => item !== null);
+
+    const notableCVEs = this.list(value.notableCVEs ?? value.notable_cves, 'notableCVEs', errors)
+      .map(item => this.cve(item))
+      .filter((item): item is StructuredHostSummary['notableCVEs'][number] => item !== null);
+
+    const certificateFindings = this.strings(value.certificateFindings ?? value.certificate_findings, 'certificateFindings', errors);
+    const recommendedActions = this.strings(value.recommendedActions ?? value.recommended_actions, 'recommendedActions', errors);
+
+    const os = value.operatingSystem ?? value.operating_system;
+    if (os !== undefined && os !== null && typeof os !== 'string') {
+      errors.push('"operatingSystem" must be a string or null');
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    return {
+      summary: {
+        riskLevel: riskLevel!,
+        keyServices,
+        notableCVEs,
+        certificateFindings,
+        operatingSystem: typeof os === 'string' && os.trim() && !/^(unknown|n\/a|none)$/i.test(os.trim()) ? os.trim() : null,
+        recommendedActions,
+        narrative: narrative.trim()
+      },
+      errors
+    };
+  }
+
+  private static riskLevel(value: any): RiskLevel | null {
+    if (typeof value !== 'string') {
+      return null;
+    }
+
+    const level = value.trim().toLowerCase();
+    if ((RISK_LEVELS as string[]).includes(level)) {
+      return level as RiskLevel;
+    }
+    return RISK_LEVEL_ALIASES[level] || null;
+  }
+
+  /**
+   * Missing lists are treated as empty; anything else that isn't a list is an error
+   */
+  private static list(value: any, field: string, errors: string[]): any[] {
+    if (value === undefined || value === null) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      errors.push(`"${field}" must be an array`);
+      return [];
+    }
+    return value;
+  }
+
+  private static strings(value: any, field: string, errors: string[]): string[] {
+    const items = typeof value === 'string' ? [value] : this.list(value, field, errors);
+    return items
+      .filter((item: any) => typeof item === 'string' && item.trim())
+      .map((item: string) => item.trim());
+  }
+
+  private static service(item: any): StructuredHostSummary['keyServices'][number] | null {
+    if (!item || typeof item !== 'object') {
+      return null;
+    }
+
+    const port = typeof item.port === 'string' ? parseInt(item.port, 10) : item.port;
+    const service = item.service ?? item.service_name ?? item.name;
+    if (!Number.isInteger(port) || typeof service !== 'string' || !service.trim()) {
+      return null;
+    }
+
+    return {
+      port,
+      service: service.trim(),
+      ...(typeof item.software === 'string' && item.software.trim() ? { software: item.software.trim() } : {}),
+      ...(typeof item.note === 'string' && item.note.trim() ? { note: item.note.trim() } : {})
+    };
+  }
+
+  private static cve(item: any): StructuredHostSummary['notableCVEs'][number] | null {
+    const record = typeof item === 'string' ? { cveId: item } : item;
+    const cveId = record?.cveId ?? record?.cve_id ?? record?.id;
+    if (typeof cveId !== 'string' || !CVE_ID.test(cveId.trim())) {
+      return null;
+    }
+
+    const rawScore = record.cvssScore ?? record.cvss_score ?? record.cvss;
+    const score = typeof rawScore === 'string' ? parseFloat(rawScore) : rawScore;
+
+    return {
+      cveId: cveId.trim().toUpperCase(),
+      ...(typeof score === 'number' && score >= 0 && score <= 10 ? { cvssScore: score } : {}),
+      ...(typeof record.note === 'string' && record.note.trim() ? { note: record.note.trim() } : {})
+    };
+  }
+}
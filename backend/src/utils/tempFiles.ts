@@ -0,0 +1,40 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Delete upload temp files older than maxAgeMs that no live session still needs.
+ * Returns the paths that were removed.
+ */
+export async function cleanupTempFiles(directory: string, maxAgeMs: number, keep: Set<string>): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const cutoff = Date.now() - maxAgeMs;
+  const removed: string[] = [];
+
+  for (const name of names) {
+    const filePath = path.join(directory, name);
+    if (keep.has(filePath)) {
+      continue;
+    }
+
+    try {
+      const stats = await fs.stat(filePath);
+      if (stats.isFile() && stats.mtimeMs < cutoff) {
+        await fs.unlink(filePath);
+        removed.push(filePath);
+      }
+    } catch {
+      // File disappeared while sweeping
+    }
+  }
+
+  return removed;
+}
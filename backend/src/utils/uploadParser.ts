@@ -0,0 +1,96 @@
+import fs from 'fs/promises';
+import { DataValidator } from './dataValidator';
+import { parseJSONFile } from './jsonStreamParser';
+import { isNDJSONFilename, parseNDJSONFile } from './ndjsonParser';
+import { CensysNormalizer } from './censysNormalizer';
+import { NmapImporter } from './nmapImporter';
+import { ShodanImporter } from './shodanImporter';
+import { HostTally, LineError, SourceFormat, UploadFormat } from '../types';
+
+export interface ParsedUpload {
+  data: any;
+  sourceFormat: SourceFormat;
+  tally?: HostTally; // Per-host checks collected while streaming, when still valid for data
+  lineErrors?: LineError[];
+  skippedLines?: number;
+}
+
+// Formats produced by our own importers rather than exported by Censys
+const IMPORTED_FORMATS: SourceFormat[] = ['nmap-xml', 'shodan'];
+
+/**
+ * Work out the file format from its first bytes, falling back to the filename
+ */
+export async function detectUploadFormat(filePath: string, originalname: string): Promise<UploadFormat> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(1024), 0, 1024, 0);
+    const head = buffer.subarray(0, bytesRead).toString('utf-8');
+
+    if (NmapImporter.isNmapXML(head)) {
+      return 'xml';
+    }
+  } finally {
+    await handle.close();
+  }
+
+  return isNDJSONFilename(originalname) ? 'ndjson' : 'json';
+}
+
+/**
+ * Parse an uploaded file of the given format into { hosts: [...] } data
+ */
+export async function parseUpload(filePath: string, format: UploadFormat): Promise<ParsedUpload> {
+  const tally = DataValidator.createHostTally();
+
+  switch (format) {
+    case 'xml':
+      return { data: await NmapImporter.importFile(filePath), sourceFormat: 'nmap-xml' };
+
+    case 'ndjson': {
+      const parsed = await parseNDJSONFile(filePath, host => DataValidator.tallyHost(tally, host));
+
+      // `shodan download` files have one banner per line; fold them into one host per IP
+      if (parsed.shodanLineCount > 0) {
+        return {
+          data: { metadata: { source: 'shodan' }, hosts: ShodanImporter.mergeHosts(parsed.data.hosts) },
+          sourceFormat: 'shodan',
+          lineErrors: parsed.lineErrors,
+          skippedLines: parsed.badLineCount
+        };
+      }
+
+      return {
+        data: parsed.data,
+        sourceFormat: 'ndjson',
+        tally,
+        lineErrors: parsed.lineErrors,
+        skippedLines: parsed.badLineCount
+      };
+    }
+
+    case 'json': {
+      const parsed = await parseJSONFile(filePath, host => DataValidator.tallyHost(tally, host));
+
+      if (ShodanImporter.isShodanData(parsed)) {
+        return { data: ShodanImporter.convert(parsed), sourceFormat: 'shodan' };
+      }
+
+      // Map Search v2, Platform and bare-array exports onto the internal model
+      const normalized = CensysNormalizer.normalize(parsed);
+      return {
+        data: normalized.data,
+        sourceFormat: normalized.format,
+        // Hosts counted while streaming only apply if normalization left them untouched
+        tally: normalized.changed ? undefined : tally
+      };
+    }
+  }
+}
+
+/**
+ * Whether the data came from a non-Censys importer (and so shouldn't be judged on Censys authenticity)
+ */
+export function isImportedFormat(sourceFormat: SourceFormat): boolean {
+  return IMPORTED_FORMATS.includes(sourceFormat);
+}
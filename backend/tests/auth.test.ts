@@ -0,0 +1,186 @@
+import request from 'supertest';
+import app from '../src/server';
+import { loadAuthConfig, setAuthConfig, signToken } from '../src/middleware/auth';
+import { StreamTickets } from '../src/services/streamTickets';
+import { SummarizationJobs } from '../src/services/summarizationJobs';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+
+const JWT_SECRET = 'test-secret';
+const ALICE_KEY = 'alice-api-key';
+const BOB_KEY = 'bob-api-key';
+
+const hostsFile = Buffer.from(JSON.stringify({ hosts: [{ ip: '10.0.0.1', services: [{ port: 22, service_name: 'SSH' }] }] }));
+
+const upload = (key: string) => request(app)
+  .post('/api/upload')
+  .set('X-API-Key', key)
+  .attach('file', hostsFile, { filename: 'hosts.json', contentType: 'application/json' });
+
+describe('Authentication configuration', () => {
+  test('should parse user:key pairs and the JWT secret', () => {
+    const config = loadAuthConfig({ API_KEYS: 'alice:one, bob:two', JWT_SECRET: 'secret' });
+
+    expect(config.disabled).toBe(false);
+    expect(Array.from(config.apiKeys.values())).toEqual(['alice', 'bob']);
+    expect(config.jwtSecret).toBe('secret');
+    expect(config.tokenSecret).toBe('secret');
+    expect(config.tokenTtlSeconds).toBe(15 * 60);
+  });
+
+  test('should refuse to run without any credentials unless disabled', () => {
+    expect(() => loadAuthConfig({})).toThrow('Authentication is not configured');
+    expect(loadAuthConfig({ AUTH_DISABLED: 'true' }).disabled).toBe(true);
+  });
+
+  test('should reject malformed API key entries', () => {
+    expect(() => loadAuthConfig({ API_KEYS: 'just-a-key' })).toThrow('API_KEYS entries must look like "user:key"');
+  });
+});
+
+describe('Authenticated API', () => {
+  beforeEach(() => {
+    setAuthConfig(loadAuthConfig({ API_KEYS: `alice:${ALICE_KEY},bob:${BOB_KEY}`, JWT_SECRET }));
+    InMemoryStore.clear();
+    SummarizationJobs.clear();
+  });
+
+  afterEach(() => {
+    setAuthConfig(null);
+    SummarizationJobs.clear();
+    StreamTickets.clear();
+  });
+
+  test('should keep the health check public', async () => {
+    const response = await request(app).get('/api/health');
+
+    expect(response.status).toBe(200);
+    expect(response.body).not.toHaveProperty('sessions');
+    expect(response.body).not.toHaveProperty('llmBudget');
+  });
+
+  test('should only report server status to authenticated users', async () => {
+    const anonymous = await request(app).get('/api/status');
+    expect(anonymous.status).toBe(401);
+
+    const response = await request(app).get('/api/status').set('X-API-Key', ALICE_KEY);
+    expect(response.status).toBe(200);
+    expect(response.body).toHaveProperty('sessions.count', 0);
+    expect(response.body).toHaveProperty('redaction.secrets', true);
+  });
+
+  test('should require credentials', async () => {
+    const missing = await request(app).post('/api/chat').send({ message: 'hello' });
+    expect(missing.status).toBe(401);
+    expect(missing.body.code).toBe('AUTH_REQUIRED');
+
+    const wrong = await request(app).post('/api/chat').set('X-API-Key', 'not-a-key').send({ message: 'hello' });
+    expect(wrong.status).toBe(401);
+    expect(wrong.body.code).toBe('AUTH_INVALID');
+  });
+
+  test('should accept valid JWTs and reject expired or tampered ones', async () => {
+    const valid = signToken({ sub: 'carol', exp: Math.floor(Date.now() / 1000) + 60 }, JWT_SECRET);
+    const expired = signToken({ sub: 'carol', exp: Math.floor(Date.now() / 1000) - 3600 }, JWT_SECRET);
+    const forged = signToken({ sub: 'carol' }, 'another-secret');
+
+    const ok = await request(app).post('/api/chat').set('Authorization', `Bearer ${valid}`).send({ message: 'hello' });
+    expect(ok.status).toBe(200);
+
+    for (const token of [expired, forged]) {
+      const response = await request(app).post('/api/chat').set('Authorization', `Bearer ${token}`).send({ message: 'hello' });
+      expect(response.status).toBe(401);
+    }
+  });
+
+  test('should issue unguessable session IDs bound to the uploader', async () => {
+    const first = await upload(ALICE_KEY);
+    const second = await upload(ALICE_KEY);
+
+    expect(first.status).toBe(200);
+    expect(first.body.data.sessionId).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(first.body.data.sessionId).not.toBe(second.body.data.sessionId);
+    expect(InMemoryStore.get(first.body.data.sessionId)?.ownerId).toBe('alice');
+  });
+
+  test("should reject access to another user's session", async () => {
+    const { sessionId } = (await upload(ALICE_KEY)).body.data;
+
+    const summarize = await request(app).post('/api/summarize').set('X-API-Key', BOB_KEY).send({ sessionId });
+    expect(summarize.status).toBe(403);
+    expect(summarize.body.code).toBe('SESSION_FORBIDDEN');
+
+    const chat = await request(app).post('/api/chat').set('X-API-Key', BOB_KEY).send({ message: 'summarize', sessionId });
+    expect(chat.status).toBe(403);
+
+    const { ticket } = (await request(app).post('/api/auth/stream-ticket').set('X-API-Key', BOB_KEY)).body.data;
+    const stream = await request(app).get('/api/summarize/stream').query({ sessionId, ticket });
+    expect(stream.status).toBe(403);
+  });
+
+  test("should hide other users' jobs", async () => {
+    const { sessionId } = (await upload(ALICE_KEY)).body.data;
+    const started = await request(app).post('/api/summarize').set('X-API-Key', ALICE_KEY).send({ sessionId, localOnly: true });
+    expect(started.status).toBe(202);
+
+    const { jobId } = started.body.data;
+    expect((await request(app).get(`/api/jobs/${jobId}`).set('X-API-Key', BOB_KEY)).status).toBe(404);
+    expect((await request(app).delete(`/api/jobs/${jobId}`).set('X-API-Key', BOB_KEY)).status).toBe(404);
+    expect((await request(app).get(`/api/jobs/${jobId}`).set('X-API-Key', ALICE_KEY)).status).toBe(200);
+  });
+
+  test('should not accept credentials in the query string', async () => {
+    const response = await request(app).get('/api/auth/me').query({ access_token: ALICE_KEY });
+
+    expect(response.status).toBe(401);
+  });
+
+  test('should exchange an API key for a short-lived token', async () => {
+    expect((await request(app).post('/api/auth/login').send({})).status).toBe(400);
+
+    const rejected = await request(app).post('/api/auth/login').send({ apiKey: 'not-a-key' });
+    expect(rejected.status).toBe(401);
+    expect(rejected.body.code).toBe('AUTH_INVALID');
+
+    const login = await request(app).post('/api/auth/login').send({ apiKey: ALICE_KEY });
+    expect(login.status).toBe(200);
+    expect(login.body.data.userId).toBe('alice');
+    expect(new Date(login.body.data.expiresAt).getTime() - Date.now()).toBeLessThanOrEqual(15 * 60 * 1000);
+
+    const me = await request(app).get('/api/auth/me').set('Authorization', `Bearer ${login.body.data.token}`);
+    expect(me.body.data).toEqual({ userId: 'alice', method: 'jwt' });
+  });
+
+  test('should issue tokens without JWT_SECRET that stop working when they expire', async () => {
+    setAuthConfig(loadAuthConfig({ API_KEYS: `alice:${ALICE_KEY}`, AUTH_TOKEN_TTL_MINUTES: '1' }));
+    const { token } = (await request(app).post('/api/auth/login').send({ apiKey: ALICE_KEY })).body.data;
+
+    expect((await request(app).get('/api/auth/me').set('Authorization', `Bearer ${token}`)).status).toBe(200);
+
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 1000);
+    try {
+      expect((await request(app).get('/api/auth/me').set('Authorization', `Bearer ${token}`)).status).toBe(401);
+    } finally {
+      dateNow.mockRestore();
+    }
+  });
+
+  test('should accept a stream ticket once, for its user, on GET requests only', async () => {
+    const issue = async () => (await request(app).post('/api/auth/stream-ticket').set('X-API-Key', ALICE_KEY)).body.data.ticket;
+
+    const ticket = await issue();
+    const first = await request(app).get('/api/auth/me').query({ ticket });
+    expect(first.body.data).toEqual({ userId: 'alice', method: 'stream-ticket' });
+    expect((await request(app).get('/api/auth/me').query({ ticket })).status).toBe(401);
+
+    const posted = await request(app).post(`/api/chat?ticket=${await issue()}`).send({ message: 'hello' });
+    expect(posted.status).toBe(401);
+
+    const expiring = await issue();
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 1000);
+    try {
+      expect((await request(app).get('/api/auth/me').query({ ticket: expiring })).status).toBe(401);
+    } finally {
+      dateNow.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import request from 'supertest';
+import app from '../src/server';
+import { CensysNormalizer } from '../src/utils/censysNormalizer';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+
+const searchV2Response = {
+  code: 200,
+  status: 'OK',
+  result: {
+    query: 'services.port: 443',
+    total: 1,
+    hits: [
+      {
+        ip: '198.51.100.7',
+        services: [
+          { port: 443, service_name: 'HTTP', extended_service_name: 'HTTPS', transport_protocol: 'TCP' },
+          { port: 22, service_name: 'SSH', transport_protocol: 'TCP' }
+        ],
+        location: { country: 'Germany', city: 'Frankfurt' },
+        autonomous_system: { asn: 16509, name: 'AMAZON-02' },
+        last_updated_at: '2024-05-01T00:00:00Z'
+      }
+    ]
+  }
+};
+
+const platformRecord = {
+  resource: {
+    ip: '203.0.113.5',
+    services: [
+      {
+        port: 3389,
+        protocol: 'RDP',
+        vulns: [{ id: 'CVE-2019-0708', severity: 'critical', metrics: { cvss_v31: { score: 9.8 } } }]
+      }
+    ],
+    operating_systems: [{ product: 'Windows Server', vendor: 'Microsoft' }],
+    location: { country: 'United States' }
+  }
+};
+
+describe('CensysNormalizer', () => {
+  test('should leave internal-format data untouched', () => {
+    const data = { hosts: [{ ip: '10.0.0.1', services: [{ port: 80, service_name: 'HTTP' }] }] };
+
+    const result = CensysNormalizer.normalize(data);
+
+    expect(result.format).toBe('censys-hosts');
+    expect(result.changed).toBe(false);
+    expect(result.data).toBe(data);
+  });
+
+  test('should map Search v2 hits and prefer extended service names', () => {
+    const result = CensysNormalizer.normalize(searchV2Response);
+
+    expect(result.format).toBe('search-v2');
+    expect(result.data.metadata).toMatchObject({ source: 'censys-search-v2', query: 'services.port: 443', total: 1 });
+    expect(result.data.hosts[0].ip).toBe('198.51.100.7');
+    expect(result.data.hosts[0].services.map((s: any) => s.service_name)).toEqual(['HTTPS', 'SSH']);
+    expect(result.data.hosts[0].services[0].extended_service_name).toBeUndefined();
+  });
+
+  test('should unwrap Platform resources and map vulns and operating systems', () => {
+    const result = CensysNormalizer.normalize([platformRecord]);
+    const host = result.data.hosts[0];
+
+    expect(result.format).toBe('platform');
+    expect(host.ip).toBe('203.0.113.5');
+    expect(host.services[0].service_name).toBe('RDP');
+    expect(host.services[0].vulnerabilities).toEqual([
+      { cve_id: 'CVE-2019-0708', severity: 'critical', cvss_score: 9.8, description: undefined }
+    ]);
+    expect(host.operating_system).toEqual({ product: 'Windows Server', vendor: 'Microsoft' });
+  });
+
+  test('should wrap bare arrays and single hosts', () => {
+    expect(CensysNormalizer.normalize([{ ip: '10.0.0.1' }])).toMatchObject({
+      format: 'host-array',
+      data: { hosts: [{ ip: '10.0.0.1' }] }
+    });
+    expect(CensysNormalizer.normalize({ result: { ip: '10.0.0.2', services: [] } })).toMatchObject({
+      format: 'search-v2',
+      data: { hosts: [{ ip: '10.0.0.2' }] }
+    });
+    expect(CensysNormalizer.normalize({ something: 'else' }).format).toBe('unknown');
+  });
+});
+
+describe('POST /api/upload with other Censys export shapes', () => {
+  beforeEach(() => {
+    InMemoryStore.clear();
+  });
+
+  test('should report the detected Search v2 format and store normalized hosts', async () => {
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', Buffer.from(JSON.stringify(searchV2Response)), 'search.json');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.sourceFormat).toBe('search-v2');
+    expect(InMemoryStore.get(response.body.data.sessionId)?.data.hosts[0].services[0].service_name).toBe('HTTPS');
+  });
+
+  test('should normalize Platform records in NDJSON uploads', async () => {
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', Buffer.from(JSON.stringify(platformRecord)), 'platform.ndjson');
+
+    expect(response.status).toBe(200);
+    expect(InMemoryStore.get(response.body.data.sessionId)?.data.hosts[0].ip).toBe('203.0.113.5');
+  });
+});
@@ -1,5 +1,16 @@
 import request from 'supertest';
 import app from '../src/server';
+import { FakeProvider, setLLMProvider } from '../src/services/providers';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+
+const storeSession = (sessionId: string, chatHistory: Array<{ role: 'user' | 'assistant'; content: string }> = []) => {
+  InMemoryStore.store(sessionId, {
+    data: { hosts: [{ ip: '10.0.0.1', services: [] }, { ip: '10.0.0.2', services: [] }] },
+    originalFilename: 'hosts.json',
+    uploadedAt: new Date(),
+    chatHistory: chatHistory.map(entry => ({ ...entry, timestamp: new Date() }))
+  });
+};
 
 describe('Chat Controller', () => {
   describe('POST /api/chat', () => {
@@ -33,4 +44,87 @@ describe('Chat Controller', () => {
       expect(response.status).toBe(200);
     }, 30000); // Increase timeout for API call
   });
-});
\ No newline at end of file
+
+  describe('Conversation memory', () => {
+    let provider: FakeProvider;
+
+    beforeEach(() => {
+      InMemoryStore.clear();
+      provider = new FakeProvider();
+      setLLMProvider(provider);
+    });
+
+    afterEach(() => {
+      setLLMProvider(null);
+    });
+
+    it('should send earlier messages as multi-turn history', async () => {
+      storeSession('memory-session');
+
+      await request(app).post('/api/chat').send({ message: 'Which hosts run SSH?', sessionId: 'memory-session' });
+      await request(app).post('/api/chat').send({ message: 'What about the second one?', sessionId: 'memory-session' });
+
+      const turns = provider.calls[provider.calls.length - 1].turns!;
+      expect(turns.map(turn => turn.role)).toEqual(['user', 'assistant', 'user']);
+      expect(turns[0].content).toBe('Which hosts run SSH?');
+      expect(turns[2].content).toBe('What about the second one?');
+    });
+
+    it('should trim old turns to fit the history budget', async () => {
+      const longAnswer = 'x'.repeat(10000); // About 2500 tokens
+      storeSession('long-session', [
+        { role: 'user', content: 'Tell me about 10.0.0.1' },
+        { role: 'assistant', content: longAnswer },
+        { role: 'user', content: 'And 10.0.0.2?' },
+        { role: 'assistant', content: longAnswer },
+        { role: 'user', content: 'Which is riskier?' },
+        { role: 'assistant', content: 'The first.' }
+      ]);
+
+      await request(app).post('/api/chat').send({ message: 'Why?', sessionId: 'long-session' });
+
+      const call = provider.calls[provider.calls.length - 1];
+      expect(call.turns!.map(turn => turn.content.slice(0, 20))).toEqual(['And 10.0.0.2?', 'x'.repeat(20), 'Which is riskier?', 'The first.', 'Why?']);
+      expect(call.prompt).toContain('older messages were trimmed');
+      expect(call.prompt).toContain('- Tell me about 10.0.0.1');
+    });
+  });
+
+  describe('Conversation history endpoints', () => {
+    beforeEach(() => {
+      InMemoryStore.clear();
+    });
+
+    it('should return the stored conversation', async () => {
+      storeSession('history-session');
+      await request(app).post('/api/chat').send({ message: 'Summarize the risks', sessionId: 'history-session' });
+
+      const response = await request(app).get('/api/sessions/history-session/chat');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.messages).toHaveLength(2);
+      expect(response.body.data.messages[0]).toMatchObject({ role: 'user', content: 'Summarize the risks' });
+      expect(response.body.data.messages[1].role).toBe('assistant');
+    });
+
+    it('should clear the conversation but keep the session', async () => {
+      storeSession('clear-session', [
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi' }
+      ]);
+
+      const cleared = await request(app).delete('/api/sessions/clear-session/chat');
+      expect(cleared.status).toBe(200);
+      expect(cleared.body.data.clearedCount).toBe(2);
+
+      expect(InMemoryStore.get('clear-session')?.chatHistory).toEqual([]);
+      expect(InMemoryStore.get('clear-session')?.data.hosts).toHaveLength(2);
+    });
+
+    it('should return 404 for unknown sessions', async () => {
+      const response = await request(app).get('/api/sessions/no-such-session/chat');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
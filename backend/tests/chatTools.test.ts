@@ -0,0 +1,97 @@
+import request from 'supertest';
+import app from '../src/server';
+import { ChatTools } from '../src/services/chatTools';
+import { FakeProvider, setLLMProvider } from '../src/services/providers';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+import { CensysHost } from '../src/types';
+
+const hosts: CensysHost[] = [
+  { ip: '10.0.0.1', location: { country: 'Germany' }, services: [{ port: 22, service_name: 'SSH' }, { port: 80, service_name: 'HTTP' }] },
+  { ip: '10.0.0.2', location: { country: 'Germany' }, services: [{ port: 80, service_name: 'HTTP' }] },
+  {
+    ip: '10.0.0.3',
+    location: { country: 'Japan' },
+    services: [{ port: 443, service_name: 'HTTPS', vulnerabilities: [{ cve_id: 'CVE-2021-44228', severity: 'critical', cvss_score: 10 }] }]
+  }
+];
+
+const call = (name: string, args: Record<string, unknown> = {}) => ChatTools.execute({ id: 'call_1', name, arguments: args }, hosts);
+
+describe('ChatTools', () => {
+  test('should filter hosts with the host query filters', () => {
+    const invocation = call('filter_hosts', { port: [80], country: ['germany'] });
+
+    expect(invocation.error).toBeUndefined();
+    expect(invocation.result).toMatchObject({ total: 2, hosts: [{ ip: '10.0.0.1', services: ['22/SSH', '80/HTTP'] }, { ip: '10.0.0.2' }] });
+  });
+
+  test('should count hosts by field once per host', () => {
+    expect(call('count_hosts', { field: 'port' }).result).toMatchObject({
+      matchingHosts: 3,
+      counts: [{ value: '80', count: 2 }, { value: '22', count: 1 }, { value: '443', count: 1 }]
+    });
+    expect(call('count_hosts', { field: 'cve', port: [443, 22] }).result).toMatchObject({
+      matchingHosts: 2,
+      hostsWithoutValue: 1,
+      counts: [{ value: 'CVE-2021-44228', count: 1 }]
+    });
+  });
+
+  test('should return a host record and dataset totals', () => {
+    expect(call('get_host', { ip: '10.0.0.3' }).result).toMatchObject({ host: { ip: '10.0.0.3' }, risk: { level: expect.any(String) } });
+    expect(call('get_stats').result).toMatchObject({ totals: { hosts: 3, services: 4, hostsWithCriticalVulnerabilities: 1 } });
+  });
+
+  test('should report bad calls as errors', () => {
+    expect(call('get_host', { ip: '192.0.2.1' }).error).toContain('No host with IP 192.0.2.1');
+    expect(call('count_hosts', { field: 'colour' }).error).toContain('field must be one of');
+    expect(call('filter_hosts', { pageSize: 1000 }).error).toBeDefined();
+    expect(call('drop_tables').error).toContain('Unknown tool');
+  });
+});
+
+describe('Tool-calling chat', () => {
+  beforeEach(() => {
+    InMemoryStore.clear();
+    InMemoryStore.store('tools-session', { data: { hosts }, originalFilename: 'hosts.json', uploadedAt: new Date() });
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  test('should run the requested tools and report them with the answer', async () => {
+    const provider = new FakeProvider('fake-model', (prompt, mode) => {
+      if (mode !== 'tools') return undefined;
+      return prompt.includes('tool result:')
+        ? 'Two hosts expose port 80.'
+        : { toolCalls: [{ name: 'filter_hosts', arguments: { port: [80] } }] };
+    });
+    setLLMProvider(provider);
+
+    const response = await request(app).post('/api/chat').send({ message: 'How many hosts expose port 80?', sessionId: 'tools-session' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.response).toBe('Two hosts expose port 80.');
+    expect(response.body.data.toolCalls).toHaveLength(1);
+    expect(response.body.data.toolCalls[0]).toMatchObject({ name: 'filter_hosts', arguments: { port: [80] }, result: { total: 2 } });
+    expect(provider.calls[provider.calls.length - 1].prompt).toContain('"total":2');
+
+    const history = InMemoryStore.get('tools-session')!.chatHistory!;
+    expect(history[1].toolCalls).toEqual(response.body.data.toolCalls);
+  });
+
+  test('should make the model answer once the tool rounds run out', async () => {
+    const provider = new FakeProvider('fake-model', (prompt, mode) =>
+      mode === 'tools' ? { toolCalls: [{ name: 'get_stats' }] } : undefined
+    );
+    setLLMProvider(provider);
+
+    const response = await request(app).post('/api/chat').send({ message: 'Keep looking things up', sessionId: 'tools-session' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.toolCalls).toHaveLength(4);
+    expect(provider.calls).toHaveLength(5);
+    expect(provider.calls[4].prompt).toContain('tools: none');
+  });
+});
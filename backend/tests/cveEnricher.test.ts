@@ -0,0 +1,115 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { CVEEnricher } from '../src/services/cveEnricher';
+import { GeminiService } from '../src/services/geminiService';
+import { FakeProvider, setLLMProvider } from '../src/services/providers';
+import { CensysHost } from '../src/types';
+
+const nvdFeedPath = path.join(__dirname, 'fixtures', 'nvd-feed.json');
+const knownExploitedPath = path.join(__dirname, 'fixtures', 'known-exploited.json');
+
+const host: CensysHost = {
+  ip: '203.0.113.10',
+  services: [{
+    port: 8080,
+    service_name: 'HTTP',
+    vulnerabilities: [
+      { cve_id: 'CVE-2021-44228' },
+      { cve_id: 'CVE-2020-1234', cvss_score: 5.0, description: 'Scanner description' },
+      { cve_id: 'CVE-2099-0001' }
+    ]
+  }]
+};
+
+describe('CVEEnricher', () => {
+  afterEach(() => {
+    CVEEnricher.reset();
+    setLLMProvider(null);
+  });
+
+  test('should fill in NVD details and known-exploited status, keeping existing values', async () => {
+    await CVEEnricher.load({ nvdFeedPath, knownExploitedPath });
+
+    const [enriched] = await CVEEnricher.enrichHosts([host]);
+    const [log4shell, medium, unknown] = enriched.services![0].vulnerabilities!;
+
+    expect(log4shell).toEqual({
+      cve_id: 'CVE-2021-44228',
+      cvss_score: 10,
+      cvss_vector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:C/C:H/I:H/A:H',
+      severity: 'CRITICAL',
+      cwe_ids: ['CWE-917'],
+      published_at: '2021-12-10T10:15:09.143',
+      description: 'Apache Log4j2 JNDI features do not protect against attacker controlled LDAP and other JNDI related endpoints.',
+      known_exploited: true,
+      known_exploited_since: '2021-12-10'
+    });
+    expect(medium).toMatchObject({ cvss_score: 5.0, description: 'Scanner description', severity: 'MEDIUM', known_exploited: false });
+    expect(unknown).toBe(host.services![0].vulnerabilities![2]);
+    expect(CVEEnricher.status()).toEqual({ cveCount: 2, knownExploitedCount: 1 });
+  });
+
+  test('should read gzipped NVD 1.1 feeds and plain-text exploited lists', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cve-feeds-'));
+    const feedPath = path.join(dir, 'nvdcve-1.1-2021.json.gz');
+    const listPath = path.join(dir, 'exploited.txt');
+    fs.writeFileSync(feedPath, zlib.gzipSync(JSON.stringify({
+      CVE_Items: [{
+        cve: {
+          CVE_data_meta: { ID: 'CVE-2021-44228' },
+          problemtype: { problemtype_data: [{ description: [{ lang: 'en', value: 'CWE-502' }] }] },
+          description: { description_data: [{ lang: 'en', value: 'Log4Shell' }] }
+        },
+        impact: { baseMetricV3: { cvssV3: { vectorString: 'CVSS:3.1/AV:N', baseScore: 10.0, baseSeverity: 'CRITICAL' } } },
+        publishedDate: '2021-12-10T10:15Z'
+      }]
+    })));
+    fs.writeFileSync(listPath, 'cve-2021-44228\nCVE-2019-0708\n');
+
+    try {
+      await CVEEnricher.load({ nvdFeedPath: feedPath, knownExploitedPath: listPath });
+
+      expect(CVEEnricher.lookup('cve-2021-44228')).toEqual({
+        cveId: 'CVE-2021-44228',
+        cvssScore: 10,
+        cvssVector: 'CVSS:3.1/AV:N',
+        severity: 'CRITICAL',
+        cweIds: ['CWE-502'],
+        publishedAt: '2021-12-10T10:15Z',
+        description: 'Log4Shell'
+      });
+      expect(CVEEnricher.isKnownExploited('CVE-2019-0708')).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should report load errors and leave hosts unchanged', async () => {
+    await CVEEnricher.load({ nvdFeedPath: path.join(__dirname, 'fixtures', 'missing.json') });
+
+    expect(CVEEnricher.status().error).toContain('Failed to load CVE feeds');
+    expect(await CVEEnricher.enrichHosts([host])).toEqual([host]);
+  });
+
+  test('should feed enriched CVEs into summary and chat prompts', async () => {
+    await CVEEnricher.load({ nvdFeedPath, knownExploitedPath });
+    const provider = new FakeProvider();
+    setLLMProvider(provider);
+
+    const result = await GeminiService.summarizeHosts({ hosts: [host] });
+    expect(provider.calls[0].prompt).toContain('"cvss_vector": "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:C/C:H/I:H/A:H"');
+    expect(provider.calls[0].prompt).toContain('"known_exploited": true');
+    expect(result.summaries?.[0].risk?.factors[0].description).toBe('CVE-2021-44228 (CVSS 10)');
+
+    await GeminiService.generateChatResponse('Which CVEs matter most?', {
+      data: { hosts: [host] },
+      originalFilename: 'hosts.json',
+      uploadedAt: new Date()
+    });
+    const chatPrompt = provider.calls[provider.calls.length - 1].prompt;
+    expect(chatPrompt).toContain('VULNERABILITY FACTS');
+    expect(chatPrompt).toContain('- CVE-2021-44228: CVSS 10 (CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:C/C:H/I:H/A:H), CWE-917, published 2021-12-10, KNOWN EXPLOITED; affects 203.0.113.10');
+  });
+});
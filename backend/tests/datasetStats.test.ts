@@ -0,0 +1,116 @@
+import request from 'supertest';
+import app from '../src/server';
+import { DatasetStats } from '../src/services/datasetStats';
+import { FakeProvider, setLLMProvider } from '../src/services/providers';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+import { CensysHost } from '../src/types';
+
+const NOW = new Date('2025-06-01T00:00:00Z');
+
+const hosts: CensysHost[] = [
+  {
+    ip: '10.0.0.1',
+    location: { country: 'Germany' },
+    autonomous_system: { asn: 3320, name: 'DTAG' },
+    operating_system: { product: 'Ubuntu' },
+    services: [
+      { port: 22, service_name: 'SSH', software: [{ product: 'OpenSSH' }] },
+      { port: 443, service_name: 'HTTPS', certificate: { validity_period: { not_after: '2025-06-15T00:00:00Z' } } }
+    ]
+  },
+  {
+    ip: '10.0.0.2',
+    location: { country: 'Germany' },
+    autonomous_system: { asn: 3320, name: 'DTAG' },
+    services: [
+      {
+        port: 443,
+        service_name: 'HTTPS',
+        certificate: { expires: '20250101000000Z' },
+        vulnerabilities: [{ cve_id: 'CVE-2021-44228', severity: 'critical', cvss_score: 10, known_exploited: true }]
+      },
+      // The same CVE on a second port is one finding for the host
+      { port: 8443, service_name: 'HTTPS', vulnerabilities: [{ cve_id: 'CVE-2021-44228', cvss_score: 10 }] }
+    ]
+  },
+  {
+    ip: '10.0.0.3',
+    location: { country: 'Japan' },
+    services: [
+      { port: 80, service_name: 'HTTP', certificate: { subject: 'CN=nodate' }, vulnerabilities: [{ cve_id: 'CVE-2023-0001', cvss_score: 5.3 }, { cve_id: 'CVE-2023-0002' }] }
+    ]
+  }
+];
+
+describe('DatasetStats', () => {
+  const stats = DatasetStats.compute(hosts, [], 3, NOW);
+
+  test('should count totals and top values once per host', () => {
+    expect(stats.totals).toEqual({
+      hosts: 3,
+      services: 5,
+      distinctPorts: 4,
+      countries: 2,
+      asns: 1,
+      distinctCves: 3,
+      hostsWithVulnerabilities: 2,
+      hostsWithCriticalVulnerabilities: 1,
+      hostsWithKnownExploited: 1,
+      certificates: 3
+    });
+    expect(stats.topPorts).toEqual([{ value: '443', count: 2 }, { value: '22', count: 1 }, { value: '80', count: 1 }]);
+    expect(stats.topServices[0]).toEqual({ value: 'HTTPS', count: 2 });
+    expect(stats.topCountries).toEqual([{ value: 'Germany', count: 2 }, { value: 'Japan', count: 1 }]);
+    expect(stats.topAsns).toEqual([{ value: 'AS3320 (DTAG)', count: 2 }]);
+    expect(stats.topOperatingSystems).toEqual([{ value: 'Ubuntu', count: 1 }]);
+    expect(stats.topSoftware).toEqual([{ value: 'OpenSSH', count: 1 }]);
+  });
+
+  test('should bucket CVSS scores and rank hosts by their most severe vulnerability', () => {
+    expect(stats.cvssHistogram.map(bucket => bucket.count)).toEqual([0, 0, 0, 0, 0, 1, 0, 0, 0, 1]);
+    expect(stats.cvssHistogram[9].range).toBe('9-10');
+    expect(stats.unscoredVulnerabilities).toBe(1);
+    expect(stats.hostsByHighestSeverity).toEqual({ critical: 1, high: 0, medium: 1, low: 0, unknown: 0, none: 1 });
+  });
+
+  test('should bucket certificates by expiry', () => {
+    expect(stats.certificateExpiry).toEqual({ expired: 1, within30Days: 1, within90Days: 0, later: 0, unknown: 1 });
+  });
+});
+
+describe('GET /api/sessions/:id/stats', () => {
+  beforeEach(() => {
+    InMemoryStore.clear();
+    InMemoryStore.store('stats-session', { data: { hosts }, originalFilename: 'hosts.json', uploadedAt: new Date() });
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  test('should return statistics for the session', async () => {
+    const response = await request(app).get('/api/sessions/stats-session/stats?top=1');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.totals.hosts).toBe(3);
+    expect(response.body.data.topPorts).toEqual([{ value: '443', count: 2 }]);
+  });
+
+  test('should reject an invalid top-N', async () => {
+    const response = await request(app).get('/api/sessions/stats-session/stats?top=0');
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('INVALID_QUERY');
+  });
+
+  test('should give chat the statistics to cite', async () => {
+    const provider = new FakeProvider();
+    setLLMProvider(provider);
+
+    await request(app).post('/api/chat').send({ message: 'Which ports are most common?', sessionId: 'stats-session' });
+
+    const prompt = provider.calls[provider.calls.length - 1].prompt;
+    expect(prompt).toContain('DATASET STATISTICS (computed from all 3 hosts');
+    expect(prompt).toContain('Most common ports (hosts): 443 (2), 22 (1), 80 (1), 8443 (1)');
+  });
+});
@@ -0,0 +1,137 @@
+import request from 'supertest';
+import app from '../src/server';
+import { HostIndex } from '../src/services/hostIndex';
+import { FakeProvider, setLLMProvider } from '../src/services/providers';
+import { SummarizationJobs } from '../src/services/summarizationJobs';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+import { CensysHost } from '../src/types';
+
+// 30 plain web servers, one SSH host, one host with a critical CVE
+const largeHostSet = (): CensysHost[] => [
+  ...Array.from({ length: 30 }, (_, i) => ({
+    ip: `10.0.1.${i + 1}`,
+    location: { city: 'Frankfurt', country: 'Germany' },
+    services: [{ port: 80, service_name: 'HTTP', software: [{ product: 'nginx', version: '1.24.0' }] }]
+  })),
+  {
+    ip: '10.0.2.1',
+    location: { city: 'Austin', country: 'United States' },
+    services: [{ port: 22, service_name: 'SSH', software: [{ vendor: 'OpenBSD', product: 'OpenSSH', version: '7.4' }] }]
+  },
+  {
+    ip: '10.0.2.2',
+    location: { city: 'Tokyo', country: 'Japan' },
+    services: [{
+      port: 8443,
+      service_name: 'HTTPS',
+      vulnerabilities: [{ cve_id: 'CVE-2021-44228', severity: 'critical', cvss_score: 10 }]
+    }]
+  }
+];
+
+describe('HostIndex', () => {
+  test('should rank hosts by keyword relevance', () => {
+    const index = HostIndex.build(largeHostSet());
+
+    expect(HostIndex.search(index, 'Which hosts expose OpenSSH?', 5).map(result => result.ip)).toEqual(['10.0.2.1']);
+    expect(HostIndex.search(index, 'Tell me about CVE-2021-44228', 5)[0].ip).toBe('10.0.2.2');
+    expect(HostIndex.search(index, 'anything in Japan or Austin?', 5).map(result => result.ip).sort()).toEqual(['10.0.2.1', '10.0.2.2']);
+  });
+
+  test('should match software names inside versioned tokens', () => {
+    expect(HostIndex.tokenize('OpenSSH_8.9p1')).toEqual(expect.arrayContaining(['openssh_8.9p1', 'openssh', '8', '9p1']));
+    expect(HostIndex.tokenize('What is the risk?')).toEqual(['risk']);
+  });
+
+  test('should index summaries alongside host data', () => {
+    const hosts = largeHostSet();
+    const index = HostIndex.build(hosts, [{ ip: '10.0.1.5', summary: 'Exposes a forgotten staging admin panel.' }]);
+
+    expect(HostIndex.search(index, 'staging panel', 3).map(result => result.ip)).toEqual(['10.0.1.5']);
+  });
+
+  test('should skip null services and software entries', () => {
+    const hosts = [{ ip: '10.0.3.1', services: [null, { port: 22, service_name: 'SSH', software: [null, { product: 'OpenSSH' }] }] }] as any;
+    const index = HostIndex.build(hosts);
+
+    expect(HostIndex.search(index, 'openssh', 5).map(result => result.ip)).toEqual(['10.0.3.1']);
+  });
+
+  test('should leave out hosts that share no terms with the query', () => {
+    const index = HostIndex.build(largeHostSet());
+
+    expect(HostIndex.search(index, 'mainframe telnet', 5)).toEqual([]);
+  });
+
+  test('should notice when an index no longer matches the hosts', () => {
+    const hosts = largeHostSet();
+    const index = HostIndex.build(hosts);
+
+    expect(HostIndex.matches(index, hosts)).toBe(true);
+    expect(HostIndex.matches(index, hosts.slice(1))).toBe(false);
+    expect(HostIndex.matches(undefined, hosts)).toBe(false);
+  });
+});
+
+describe('Retrieval-based chat context', () => {
+  let provider: FakeProvider;
+
+  const storeSession = (sessionId: string, hosts: CensysHost[]) => {
+    InMemoryStore.store(sessionId, { data: { hosts }, originalFilename: 'hosts.json', uploadedAt: new Date() });
+  };
+
+  beforeEach(() => {
+    InMemoryStore.clear();
+    SummarizationJobs.clear();
+    provider = new FakeProvider();
+    setLLMProvider(provider);
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  test('should send only the relevant hosts and report them', async () => {
+    storeSession('large-session', largeHostSet());
+
+    const response = await request(app).post('/api/chat').send({ message: 'Is anything running OpenSSH?', sessionId: 'large-session' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.context).toEqual({ strategy: 'relevance', hosts: ['10.0.2.1'], totalHosts: 32 });
+
+    const prompt = provider.calls[provider.calls.length - 1].prompt;
+    expect(prompt).toContain('31. 10.0.2.1');
+    expect(prompt).not.toContain('10.0.1.7');
+  });
+
+  test('should fall back to the riskiest hosts when nothing matches', async () => {
+    storeSession('risk-session', largeHostSet());
+
+    const response = await request(app).post('/api/chat').send({ message: 'Give me an overview', sessionId: 'risk-session' });
+
+    expect(response.body.data.context.strategy).toBe('risk');
+    expect(response.body.data.context.hosts).toHaveLength(20);
+    expect(response.body.data.context.hosts[0]).toBe('10.0.2.2');
+  });
+
+  test('should include every host for small sessions', async () => {
+    storeSession('small-session', largeHostSet().slice(-2));
+
+    const response = await request(app).post('/api/chat').send({ message: 'Anything about OpenSSH?', sessionId: 'small-session' });
+
+    expect(response.body.data.context).toEqual({ strategy: 'all', hosts: ['10.0.2.1', '10.0.2.2'], totalHosts: 2 });
+  });
+
+  test('should build the index when summarization finishes', async () => {
+    storeSession('indexed-session', largeHostSet());
+
+    await SummarizationJobs.start('indexed-session', { localOnly: true });
+    for (let attempt = 0; attempt < 50 && !InMemoryStore.get('indexed-session')?.searchIndex; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    const session = InMemoryStore.get('indexed-session')!;
+    expect(session.searchIndex?.documents).toHaveLength(32);
+    expect(HostIndex.matches(session.searchIndex, session.data.hosts)).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+import request from 'supertest';
+import app from '../src/server';
+import { HostMerger } from '../src/services/hostMerger';
+import { HostIndex } from '../src/services/hostIndex';
+import { GeminiService } from '../src/services/geminiService';
+import { SummarizationJobs } from '../src/services/summarizationJobs';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+import { CensysHost } from '../src/types';
+
+const shardA: CensysHost[] = [
+  {
+    ip: '10.0.0.1',
+    location: { country: 'Germany' },
+    services: [{ port: 22, service_name: 'SSH' }, { port: 80, service_name: 'HTTP', software: [{ product: 'nginx', version: '1.18' }] }],
+    tags: ['web'],
+    last_updated_at: '2025-01-01T00:00:00Z'
+  },
+  { ip: '10.0.0.2', services: [{ port: 443, service_name: 'HTTPS' }] }
+];
+
+const shardB: CensysHost[] = [
+  {
+    ip: '10.0.0.1',
+    location: { country: 'Netherlands' },
+    services: [{ port: 80, service_name: 'HTTP', software: [{ product: 'nginx', version: '1.24' }] }, { port: 3389, service_name: 'RDP' }],
+    tags: ['remote-access'],
+    last_updated_at: '2025-02-01T00:00:00Z'
+  },
+  { ip: '10.0.0.2', services: [{ port: 443, service_name: 'HTTPS' }] },
+  { ip: '10.0.0.3', services: [{ port: 21, service_name: 'FTP' }] }
+];
+
+describe('HostMerger', () => {
+  test('should combine services and let the newer record win conflicts', () => {
+    const { hosts, report } = HostMerger.merge(shardA, shardB);
+
+    expect(hosts.map(host => host.ip)).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+    expect(hosts[0].services!.map(service => service.port)).toEqual([22, 80, 3389]);
+    expect(hosts[0].services![1].software![0].version).toBe('1.24');
+    expect(hosts[0].location!.country).toBe('Netherlands');
+    expect(hosts[0].tags).toEqual(['web', 'remote-access']);
+    expect(hosts[0].last_updated_at).toBe('2025-02-01T00:00:00Z');
+
+    expect(report).toEqual({
+      hostsBefore: 2,
+      hostsReceived: 3,
+      hostsAdded: 1,
+      hostsMerged: 1,
+      duplicateHosts: 1,
+      conflicts: 2,
+      hostsAfter: 3,
+      conflictDetails: [
+        { ip: '10.0.0.1', field: 'location', kept: 'incoming' },
+        { ip: '10.0.0.1', field: 'service 80/tcp', kept: 'incoming' }
+      ]
+    });
+  });
+
+  test('should keep the existing values when they are newer', () => {
+    const { hosts, report } = HostMerger.merge(shardB, shardA);
+
+    expect(hosts[0].location!.country).toBe('Netherlands');
+    expect(hosts[0].services!.find(service => service.port === 80)!.software![0].version).toBe('1.24');
+    expect(hosts[0].services!.map(service => service.port)).toEqual([80, 3389, 22]);
+    expect(report.conflictDetails.every(conflict => conflict.kept === 'existing')).toBe(true);
+  });
+
+  test('should deduplicate overlapping records within one file', () => {
+    const { hosts, report } = HostMerger.merge([], [...shardA, ...shardA, { services: [] } as any]);
+
+    expect(hosts).toHaveLength(3);
+    expect(report).toMatchObject({ hostsAdded: 3, duplicateHosts: 2, hostsMerged: 0 });
+  });
+});
+
+describe('POST /api/sessions/:id/files', () => {
+  const attach = (path: string, hosts: CensysHost[], filename: string) => request(app)
+    .post(path)
+    .attach('file', Buffer.from(JSON.stringify({ hosts })), { filename, contentType: 'application/json' });
+
+  beforeEach(() => {
+    InMemoryStore.clear();
+    SummarizationJobs.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should merge a second file into the session and report it', async () => {
+    const first = await attach('/api/upload', shardA, 'shard-a.json');
+    const sessionId = first.body.data.sessionId;
+
+    // Pretend shard A was summarized and indexed
+    const session = InMemoryStore.get(sessionId)!;
+    const summaries = session.data.hosts.map((host: CensysHost) => ({ ip: host.ip, summary: `Summary of ${host.ip}` }));
+    InMemoryStore.store(sessionId, { ...session, summaries, searchIndex: HostIndex.build(session.data.hosts, summaries) });
+
+    const second = await attach(`/api/sessions/${sessionId}/files`, shardB, 'shard-b.json');
+
+    expect(second.status).toBe(200);
+    expect(second.body.data.sessionId).toBe(sessionId);
+    expect(second.body.data.hostCount).toBe(3);
+    expect(second.body.data.merge).toMatchObject({ hostsAdded: 1, hostsMerged: 1, duplicateHosts: 1, conflicts: 2 });
+    expect(second.body.data.files.map((file: { filename: string }) => file.filename)).toEqual(['shard-a.json', 'shard-b.json']);
+
+    const merged = InMemoryStore.get(sessionId)!;
+    expect(merged.data.hosts).toHaveLength(3);
+    expect(merged.summaries!.map(summary => summary.ip)).toEqual(['10.0.0.2']);
+    expect(HostIndex.matches(merged.searchIndex, merged.data.hosts)).toBe(true);
+  });
+
+  test('should reject files for unknown sessions', async () => {
+    const response = await attach('/api/sessions/missing/files', shardB, 'shard-b.json');
+
+    expect(response.status).toBe(404);
+  });
+
+  test('should report the session as gone if it expires while the file is parsed', async () => {
+    const first = await attach('/api/upload', shardA, 'shard-a.json');
+    const sessionId = first.body.data.sessionId;
+
+    const merge = HostMerger.merge.bind(HostMerger);
+    jest.spyOn(HostMerger, 'merge').mockImplementation((existing, incoming) => {
+      InMemoryStore.delete(sessionId);
+      return merge(existing, incoming);
+    });
+
+    const second = await attach(`/api/sessions/${sessionId}/files`, shardB, 'shard-b.json');
+
+    expect(second.status).toBe(404);
+    expect(second.body.code).toBe('SESSION_NOT_FOUND');
+    expect(InMemoryStore.get(sessionId)).toBeNull();
+  });
+
+  test('should refuse files while the session is being summarized', async () => {
+    const first = await attach('/api/upload', shardA, 'shard-a.json');
+    const sessionId = first.body.data.sessionId;
+
+    // Hold the job after it has read the session's hosts
+    let finishSummaries: (summaries: Array<{ ip: string; summary: string }>) => void = () => {};
+    jest.spyOn(GeminiService, 'summarizeHosts').mockImplementation(() => new Promise(resolve => {
+      finishSummaries = summaries => resolve({ success: true, summaries, processedCount: summaries.length, totalCount: summaries.length });
+    }));
+    const started = await request(app).post('/api/summarize').send({ sessionId });
+
+    const second = await attach(`/api/sessions/${sessionId}/files`, shardB, 'shard-b.json');
+
+    expect(second.status).toBe(409);
+    expect(second.body).toMatchObject({ code: 'SUMMARIZATION_RUNNING', data: { jobId: started.body.data.jobId } });
+
+    finishSummaries(shardA.map(host => ({ ip: host.ip, summary: `Summary of ${host.ip}` })));
+    for (let attempt = 0; attempt < 50 && SummarizationJobs.running(sessionId); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    const session = InMemoryStore.get(sessionId)!;
+    expect(SummarizationJobs.get(started.body.data.jobId)?.status).toBe('completed');
+    expect(session.files).toHaveLength(1);
+    expect(session.data.hosts).toHaveLength(2);
+    expect(HostIndex.matches(session.searchIndex, session.data.hosts)).toBe(true);
+
+    // Once the job is done the file can be added
+    const retried = await attach(`/api/sessions/${sessionId}/files`, shardB, 'shard-b.json');
+    expect(retried.status).toBe(200);
+  });
+});
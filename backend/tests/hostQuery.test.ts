@@ -0,0 +1,116 @@
+import request from 'supertest';
+import app from '../src/server';
+import { HostQueryEngine } from '../src/services/hostQuery';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+import { CensysHost } from '../src/types';
+
+const hosts: CensysHost[] = [
+  {
+    ip: '10.0.0.10',
+    location: { country: 'Germany', country_code: 'DE' },
+    autonomous_system: { asn: 3320, name: 'DTAG' },
+    services: [{ port: 80, service_name: 'HTTP' }],
+    last_updated_at: '2025-01-01T00:00:00Z'
+  },
+  {
+    ip: '10.0.0.9',
+    location: { country: 'United States', country_code: 'US' },
+    autonomous_system: { asn: 16509, name: 'AMAZON-02' },
+    operating_system: { product: 'Ubuntu Linux' },
+    services: [
+      { port: 22, service_name: 'SSH', software: [{ product: 'OpenSSH', version: '7.4' }] },
+      { port: 443, service_name: 'HTTPS', vulnerabilities: [{ cve_id: 'CVE-2021-44228', severity: 'critical', cvss_score: 10 }] }
+    ],
+    tags: ['remote-access'],
+    last_updated_at: '2025-03-01T00:00:00Z'
+  },
+  {
+    ip: '192.168.1.1',
+    location: { country: 'Japan', country_code: 'JP' },
+    autonomous_system: { asn: 16509, name: 'AMAZON-02' },
+    services: [{ port: 3389, service_name: 'RDP', vulnerabilities: [{ cve_id: 'CVE-2019-0708', severity: 'high', cvss_score: 7.5 }] }],
+    threat_intelligence: { security_labels: ['C2'] },
+    last_updated_at: '2025-02-01T00:00:00Z'
+  }
+];
+
+const run = (params: Record<string, unknown>) => {
+  const { query, errors } = HostQueryEngine.parse(params);
+  expect(errors).toEqual([]);
+  return HostQueryEngine.run(hosts, query!).hosts.map(host => host.ip);
+};
+
+describe('HostQueryEngine', () => {
+  test('should sort IPv4 addresses numerically by default', () => {
+    expect(run({})).toEqual(['10.0.0.9', '10.0.0.10', '192.168.1.1']);
+  });
+
+  test('should apply each filter', () => {
+    expect(run({ port: '22' })).toEqual(['10.0.0.9']);
+    expect(run({ service: 'rdp' })).toEqual(['192.168.1.1']);
+    expect(run({ country: 'de' })).toEqual(['10.0.0.10']);
+    expect(run({ country: 'japan' })).toEqual(['192.168.1.1']);
+    expect(run({ asn: 'AS16509' })).toEqual(['10.0.0.9', '192.168.1.1']);
+    expect(run({ os: 'ubuntu' })).toEqual(['10.0.0.9']);
+    expect(run({ cve: 'cve-2019-0708' })).toEqual(['192.168.1.1']);
+    expect(run({ minCvss: '8' })).toEqual(['10.0.0.9']);
+    expect(run({ tag: 'c2' })).toEqual(['192.168.1.1']);
+    expect(run({ q: 'openssh' })).toEqual(['10.0.0.9']);
+  });
+
+  test('should match any value of a filter and all filters together', () => {
+    expect(run({ port: ['80', '3389'] })).toEqual(['10.0.0.10', '192.168.1.1']);
+    expect(run({ port: '80,3389' })).toEqual(['10.0.0.10', '192.168.1.1']);
+    expect(run({ port: '80,3389', asn: '16509' })).toEqual(['192.168.1.1']);
+  });
+
+  test('should sort by other fields with sensible default order', () => {
+    expect(run({ sort: 'cvss' })).toEqual(['10.0.0.9', '192.168.1.1', '10.0.0.10']);
+    expect(run({ sort: 'updated', order: 'asc' })).toEqual(['10.0.0.10', '192.168.1.1', '10.0.0.9']);
+    expect(run({ sort: 'services' })).toEqual(['10.0.0.10', '192.168.1.1', '10.0.0.9']);
+  });
+
+  test('should paginate', () => {
+    const { query } = HostQueryEngine.parse({ pageSize: '2', page: '2' });
+    const result = HostQueryEngine.run(hosts, query!);
+
+    expect(result.hosts.map(host => host.ip)).toEqual(['192.168.1.1']);
+    expect(result).toMatchObject({ total: 3, page: 2, pageSize: 2, totalPages: 2 });
+  });
+
+  test('should report every invalid parameter', () => {
+    const { query, errors } = HostQueryEngine.parse({ port: 'http', minCvss: '11', sort: 'name', cve: 'log4shell', color: 'red' });
+
+    expect(query).toBeUndefined();
+    expect(errors).toHaveLength(5);
+  });
+});
+
+describe('GET /api/sessions/:id/hosts', () => {
+  beforeEach(() => {
+    InMemoryStore.clear();
+    InMemoryStore.store('hosts-session', { data: { hosts }, originalFilename: 'hosts.json', uploadedAt: new Date() });
+  });
+
+  test('should return the matching page of hosts', async () => {
+    const response = await request(app).get('/api/sessions/hosts-session/hosts?asn=16509&sort=cvss&pageSize=1');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.total).toBe(2);
+    expect(response.body.data.totalPages).toBe(2);
+    expect(response.body.data.hosts.map((host: CensysHost) => host.ip)).toEqual(['10.0.0.9']);
+  });
+
+  test('should reject invalid parameters', async () => {
+    const response = await request(app).get('/api/sessions/hosts-session/hosts?pageSize=100000');
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('INVALID_QUERY');
+  });
+
+  test('should return 404 for unknown sessions', async () => {
+    const response = await request(app).get('/api/sessions/missing/hosts');
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import app from '../src/server';
+import { parseJSONFile } from '../src/utils/jsonStreamParser';
+import { DataValidator } from '../src/utils/dataValidator';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+
+describe('parseJSONFile', () => {
+  let tempDir: string;
+
+  const writeTemp = (content: string) => {
+    const filePath = path.join(tempDir, `${Math.random().toString(36).slice(2)}.json`);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-stream-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should keep "__proto__" keys as data like JSON.parse', async () => {
+    const document = '{"__proto__": {"polluted": true}, "result": {"__proto__": [1], "hosts": [{"ip": "1.1.1.1"}]}}';
+    const parsed = await parseJSONFile(writeTemp(document));
+
+    expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype);
+    expect(Object.getPrototypeOf(parsed.result)).toBe(Object.prototype);
+    expect(Object.keys(parsed)).toEqual(['__proto__', 'result']);
+    expect(Object.getOwnPropertyDescriptor(parsed, '__proto__')?.value).toEqual({ polluted: true });
+    expect(parsed.polluted).toBeUndefined();
+    expect(Object.getOwnPropertyDescriptor(parsed.result, '__proto__')?.value).toEqual([1]);
+  });
+
+  test('should produce the same value as JSON.parse', async () => {
+    const documents = [
+      '{"metadata":{"tags":["]","}"]},"hosts":[{"ip":"1.1.1.1","banner":"a\\\\\\"}]"},{"ip":"2.2.2.2"}],"z":null}',
+      '[1, {"a": 2}, "x"]',
+      '{"hosts": "not-an-array", "ok": true}',
+      '{"code": 200, "result": {"query": "x", "hits": [{"ip": "1.1.1.1"}, {"ip": "2.2.2.2"}], "total": 2}, "links": {}}',
+      '{"result": {"hosts": [1, 2]}, "a": {"hits": []}}',
+      '  "just a string"  '
+    ];
+
+    for (const document of documents) {
+      expect(await parseJSONFile(writeTemp(document))).toEqual(JSON.parse(document));
+    }
+  });
+
+  test('should report each host across chunk boundaries', async () => {
+    const data = {
+      metadata: { description: 'large export' },
+      hosts: Array.from({ length: 3000 }, (_, i) => ({
+        ip: `10.0.${i >> 8}.${i & 255}`,
+        services: [{ port: 443, banner: '{"nested": [1, 2]}, é'.repeat(i % 5) }]
+      }))
+    };
+    const seen: string[] = [];
+
+    const parsed = await parseJSONFile(writeTemp(JSON.stringify(data, null, 2)), host => seen.push(host.ip));
+
+    expect(parsed).toEqual(data);
+    expect(seen).toHaveLength(3000);
+    expect(seen[2999]).toBe(data.hosts[2999].ip);
+  });
+
+  test('should reject malformed JSON', async () => {
+    for (const document of ['{"a":1,}', '{"hosts":[1,,2]}', '{"hosts":[1]', '']) {
+      await expect(parseJSONFile(writeTemp(document))).rejects.toThrow(SyntaxError);
+    }
+  });
+
+  test('should give the same validation result when hosts are tallied while streaming', async () => {
+    const data = { hosts: [{ ip: '192.168.1.1', services: [] }, { ip: 'bad' }, { ip: '10.0.0.1' }] };
+    const tally = DataValidator.createHostTally();
+
+    const parsed = await parseJSONFile(writeTemp(JSON.stringify(data)), host => DataValidator.tallyHost(tally, host));
+
+    expect(DataValidator.validateCensysData(parsed, tally)).toEqual(DataValidator.validateCensysData(data));
+  });
+});
+
+describe('POST /api/upload', () => {
+  beforeEach(() => {
+    InMemoryStore.clear();
+  });
+
+  test('should stream-parse an uploaded file into session data', async () => {
+    const data = { hosts: [{ ip: '192.168.1.1', services: [{ port: 22 }] }] };
+
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', Buffer.from(JSON.stringify(data)), 'hosts.json');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.hostCount).toBe(1);
+    expect(InMemoryStore.get(response.body.data.sessionId)?.data).toEqual(data);
+  });
+
+  test('should reject invalid JSON', async () => {
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', Buffer.from('{"hosts": ['), 'hosts.json');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('Invalid JSON file');
+  });
+});
@@ -0,0 +1,115 @@
+import { createLLMProvider, FakeProvider, loadLLMConfig, setLLMProvider } from '../src/services/providers';
+import { GeminiService } from '../src/services/geminiService';
+import { GeminiProvider } from '../src/services/providers/geminiProvider';
+import { ChatTools } from '../src/services/chatTools';
+import { DataValidator } from '../src/utils/dataValidator';
+
+describe('LLM providers', () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  describe('loadLLMConfig', () => {
+    test('should default to Gemini with gemini-2.5-flash', () => {
+      const config = loadLLMConfig({ GEMINI_API_KEY: 'key' });
+
+      expect(config.provider).toBe('gemini');
+      expect(config.model).toBe('gemini-2.5-flash');
+      expect(config.apiKey).toBe('key');
+    });
+
+    test('should honour provider, model and base URL overrides', () => {
+      const config = loadLLMConfig({
+        LLM_PROVIDER: 'openai',
+        LLM_MODEL: 'llama3',
+        OPENAI_BASE_URL: 'http://localhost:11434/v1'
+      });
+
+      expect(config.provider).toBe('openai');
+      expect(config.model).toBe('llama3');
+      expect(config.baseUrl).toBe('http://localhost:11434/v1');
+    });
+
+    test('should reject unknown providers', () => {
+      expect(() => loadLLMConfig({ LLM_PROVIDER: 'nope' })).toThrow('Unsupported LLM_PROVIDER');
+    });
+  });
+
+  describe('FakeProvider', () => {
+    test('should be deterministic for the same prompt', async () => {
+      const provider = createLLMProvider({ provider: 'fake', model: 'fake-model' });
+
+      const first = await provider.generateText('Describe 1.1.1.1');
+      const second = await provider.generateText('Describe 1.1.1.1');
+
+      expect(first).toBe(second);
+      expect(await provider.healthCheck()).toBe(true);
+    });
+
+    test('should use a custom responder when provided', async () => {
+      const provider = new FakeProvider('fake-model', (prompt, mode) =>
+        mode === 'json' ? { echoed: prompt } : undefined
+      );
+
+      expect(await provider.generateJSON('hello')).toEqual({ echoed: 'hello' });
+      expect(provider.calls).toHaveLength(1);
+    });
+  });
+
+  describe('GeminiProvider', () => {
+    test('should declare chat tools in Gemini\'s schema, without parameters for tools that take none', () => {
+      const declarations = new GeminiProvider('gemini-2.5-flash', 'key').functionDeclarations(ChatTools.definitions);
+      const byName = Object.fromEntries(declarations.map(declaration => [declaration.name, declaration]));
+
+      expect(declarations.map(declaration => declaration.name)).toEqual(ChatTools.definitions.map(tool => tool.name));
+      expect(byName.get_stats).not.toHaveProperty('parameters');
+      expect(byName.get_host.parameters).toEqual({
+        type: 'OBJECT',
+        properties: { ip: { type: 'STRING', description: 'IP address of the host' } },
+        required: ['ip']
+      });
+      declarations.forEach(declaration => {
+        if (declaration.parameters) {
+          expect(Object.keys(declaration.parameters.properties).length).toBeGreaterThan(0);
+        }
+      });
+    });
+  });
+
+  describe('GeminiService with the fake provider', () => {
+    test('should summarize hosts through the configured provider', async () => {
+      const structured = {
+        riskLevel: 'low',
+        keyServices: [{ port: 22, service: 'SSH' }],
+        notableCVEs: [],
+        certificateFindings: [],
+        operatingSystem: null,
+        recommendedActions: ['Restrict SSH to trusted networks.'],
+        narrative: 'Summary text'
+      };
+      const provider = new FakeProvider('fake-model', (prompt, mode) =>
+        mode === 'text' ? structured : undefined
+      );
+      setLLMProvider(provider);
+
+      const result = await GeminiService.summarizeHosts({
+        hosts: [{ ip: '192.168.1.1', services: [{ port: 22, service_name: 'SSH' }] }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.summaries).toEqual([{ ip: '192.168.1.1', summary: 'Summary text', source: 'llm', dataSource: 'censys', structured, risk: { score: 0, level: 'none', factors: [] } }]);
+      expect(provider.calls[0].prompt).toContain('192.168.1.1');
+    });
+
+    test('should validate data through the provider JSON output', async () => {
+      setLLMProvider(new FakeProvider());
+
+      const result = await DataValidator.validateData({
+        hosts: [{ ip: '192.168.1.1', services: [] }]
+      });
+
+      expect(result.isCensysData).toBe(true);
+      expect(result.aiValidation?.reasoning).toBe('Validated by the fake provider');
+    });
+  });
+});
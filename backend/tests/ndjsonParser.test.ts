@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import app from '../src/server';
+import { isNDJSONFilename, parseNDJSONFile } from '../src/utils/ndjsonParser';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+
+const ndjson = [
+  '{"ip": "192.168.1.1", "services": [{"port": 22}]}',
+  '',
+  '{"ip": "10.0.0.1", "location": {"country": "US"}',
+  '[1, 2]',
+  '{"name": "no ip"}',
+  '{"ip": "10.0.0.2", "autonomous_system": {"asn": 16509}}'
+].join('\n');
+
+describe('parseNDJSONFile', () => {
+  let filePath: string;
+
+  beforeAll(() => {
+    filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'ndjson-')), 'hosts.ndjson');
+    fs.writeFileSync(filePath, ndjson);
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  });
+
+  test('should parse one host per line and report bad lines by number', async () => {
+    const result = await parseNDJSONFile(filePath);
+
+    expect(result.data.hosts.map(host => host.ip)).toEqual(['192.168.1.1', '10.0.0.2']);
+    expect(result.badLineCount).toBe(3);
+    expect(result.lineErrors.map(lineError => lineError.line)).toEqual([3, 4, 5]);
+    expect(result.lineErrors[0].error).toContain('Invalid JSON');
+    expect(result.lineErrors[2].error).toContain('"ip"');
+  });
+
+  test('should recognise NDJSON filenames', () => {
+    expect(isNDJSONFilename('export.ndjson')).toBe(true);
+    expect(isNDJSONFilename('export.JSONL')).toBe(true);
+    expect(isNDJSONFilename('export.json')).toBe(false);
+  });
+});
+
+describe('POST /api/upload with NDJSON', () => {
+  beforeEach(() => {
+    InMemoryStore.clear();
+  });
+
+  test('should accept .jsonl uploads and return line errors', async () => {
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', Buffer.from(ndjson), 'hosts.jsonl');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.format).toBe('ndjson');
+    expect(response.body.data.hostCount).toBe(2);
+    expect(response.body.data.skippedLines).toBe(3);
+    expect(response.body.message).toContain('Skipped 3 invalid line(s)');
+    expect(InMemoryStore.get(response.body.data.sessionId)?.data.hosts).toHaveLength(2);
+  });
+
+  test('should reject files where every line is bad', async () => {
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', Buffer.from('not json\n{"name": "x"}'), 'hosts.ndjson');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('line 1: Invalid JSON');
+  });
+
+  test('should still reject other file types', async () => {
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', Buffer.from('ip\n1.1.1.1'), { filename: 'hosts.csv', contentType: 'text/csv' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('.ndjson');
+  });
+});
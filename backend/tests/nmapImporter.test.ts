@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import request from 'supertest';
+import app from '../src/server';
+import { NmapImporter } from '../src/utils/nmapImporter';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+
+const fixturePath = path.join(__dirname, 'fixtures', 'nmap-scan.xml');
+
+describe('NmapImporter', () => {
+  test('should convert up hosts with open ports into CensysHost records', () => {
+    const data = NmapImporter.importXML(fs.readFileSync(fixturePath, 'utf-8'));
+
+    expect(data.metadata.source).toBe('nmap');
+    expect(data.hosts).toHaveLength(1);
+
+    const host = data.hosts[0];
+    expect(host.ip).toBe('192.0.2.10');
+    expect(host.dns).toEqual({ names: ['web.example.com'] });
+    expect(host.operating_system).toEqual({ product: 'Linux 5.0 - 5.4', vendor: 'Linux', version: '5.X' });
+    expect(host.last_updated_at).toBe('2024-05-01T08:01:00.000Z');
+    expect(host.services?.map(service => service.port)).toEqual([22, 443]);
+  });
+
+  test('should map service product, version and script output', () => {
+    const [ssh, https] = NmapImporter.importXML(fs.readFileSync(fixturePath, 'utf-8')).hosts[0].services!;
+
+    expect(ssh).toMatchObject({
+      service_name: 'SSH',
+      transport_protocol: 'TCP',
+      software: [{ product: 'OpenSSH', version: '8.2p1 Ubuntu 4ubuntu0.5' }],
+      cpes: ['cpe:/a:openbsd:openssh:8.2p1']
+    });
+    expect(ssh.banner).toContain('ssh-hostkey: 3072 aa:bb:cc (RSA)');
+    expect(https.service_name).toBe('HTTPS');
+    expect(https.banner).toContain('http-title: Welcome');
+    expect(https.certificate.raw).toContain('commonName=web.example.com');
+  });
+
+  test('should recognise Nmap XML from the start of a file', () => {
+    expect(NmapImporter.isNmapXML(fs.readFileSync(fixturePath, 'utf-8').slice(0, 300))).toBe(true);
+    expect(NmapImporter.isNmapXML('{"hosts": []}')).toBe(false);
+    expect(NmapImporter.isNmapXML('<?xml version="1.0"?><rss></rss>')).toBe(false);
+  });
+});
+
+describe('POST /api/upload with Nmap XML', () => {
+  beforeEach(() => {
+    InMemoryStore.clear();
+  });
+
+  test('should detect Nmap XML automatically and store the hosts', async () => {
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', fixturePath);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.format).toBe('xml');
+    expect(response.body.data.sourceFormat).toBe('nmap-xml');
+    expect(response.body.data.hostCount).toBe(1);
+    expect(InMemoryStore.get(response.body.data.sessionId)?.data.hosts[0].ip).toBe('192.0.2.10');
+  });
+});
@@ -0,0 +1,150 @@
+import request from 'supertest';
+import app from '../src/server';
+import { loadRateLimitRules, rateLimiters } from '../src/middleware/rateLimit';
+import { GeminiService } from '../src/services/geminiService';
+import { LLMBudget, QuotaExceededError, loadLLMBudgetLimits } from '../src/services/llmBudget';
+import { SummarizationJobs } from '../src/services/summarizationJobs';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+
+const hosts = (count: number) => ({
+  hosts: Array.from({ length: count }, (_, i) => ({ ip: `10.0.0.${i + 1}`, services: [{ port: 22, service_name: 'SSH' }] }))
+});
+
+describe('Per-client rate limits', () => {
+  afterEach(() => {
+    rateLimiters.chat.configure({ max: 0 });
+    rateLimiters.chat.reset();
+  });
+
+  test('should read limits from the environment', () => {
+    const rules = loadRateLimitRules({ RATE_LIMIT_CHAT_PER_MINUTE: '5' });
+
+    expect(rules.chat).toEqual({ name: 'chat', max: 5, windowMs: 60 * 1000 });
+    expect(rules.upload.max).toBe(10);
+    expect(loadRateLimitRules({ RATE_LIMIT_UPLOADS_PER_MINUTE: '0' }).upload.max).toBe(0);
+  });
+
+  test('should reject requests over the limit with Retry-After', async () => {
+    rateLimiters.chat.configure({ max: 2 });
+
+    for (let i = 0; i < 2; i++) {
+      const response = await request(app).post('/api/chat').send({ message: 'hello' });
+      expect(response.status).toBe(200);
+    }
+
+    const limited = await request(app).post('/api/chat').send({ message: 'hello' });
+    expect(limited.status).toBe(429);
+    expect(limited.body.code).toBe('RATE_LIMITED');
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+    expect(limited.body.retryAfterSeconds).toBe(Number(limited.headers['retry-after']));
+  });
+
+  test('should count clients separately', () => {
+    rateLimiters.chat.configure({ max: 1 });
+
+    expect(rateLimiters.chat.hit('user:alice').allowed).toBe(true);
+    expect(rateLimiters.chat.hit('user:alice').allowed).toBe(false);
+    expect(rateLimiters.chat.hit('user:bob').allowed).toBe(true);
+  });
+});
+
+describe('LLM budget', () => {
+  beforeEach(() => {
+    // Mid-minute, so no test straddles a window boundary
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2024-06-01T12:00:30Z'));
+    LLMBudget.reset();
+    InMemoryStore.clear();
+    SummarizationJobs.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    LLMBudget.reset();
+  });
+
+  test('should read limits from the environment', () => {
+    expect(loadLLMBudgetLimits({})).toEqual({
+      requestsPerMinute: 60,
+      requestsPerDay: 0,
+      tokensPerMinute: 1000000,
+      tokensPerDay: 0
+    });
+    expect(loadLLMBudgetLimits({ LLM_REQUESTS_PER_DAY: '500', LLM_TOKENS_PER_MINUTE: '0' }))
+      .toMatchObject({ requestsPerDay: 500, tokensPerMinute: 0 });
+  });
+
+  test('should count requests and tokens and refuse calls beyond the limit', () => {
+    LLMBudget.configure({ requestsPerDay: 2 });
+
+    LLMBudget.reserve('a'.repeat(400));
+    LLMBudget.recordResponse('b'.repeat(40));
+    LLMBudget.reserve('short prompt');
+
+    const day = LLMBudget.status().usage.find(usage => usage.window === 'day');
+    expect(day).toMatchObject({ requests: 2, tokens: 100 + 10 + 3 });
+
+    expect(() => LLMBudget.reserve('one more')).toThrow(QuotaExceededError);
+    expect(LLMBudget.exceeded()).toMatchObject({ limit: 'requests per day' });
+    expect(LLMBudget.retryAfter()).toBeGreaterThan(0);
+  });
+
+  test('should enforce token limits', () => {
+    LLMBudget.configure({ tokensPerMinute: 100 });
+
+    LLMBudget.reserve('a'.repeat(300));
+    expect(() => LLMBudget.reserve('a'.repeat(200))).toThrow('LLM quota exceeded (tokens per minute)');
+  });
+
+  test('should answer chat with a quota error and retry-after when the budget is used up', async () => {
+    LLMBudget.configure({ requestsPerDay: 1 });
+    LLMBudget.reserve('earlier call');
+
+    const response = await request(app).post('/api/chat').send({ message: 'hello' });
+
+    expect(response.status).toBe(429);
+    expect(response.body.code).toBe('LLM_QUOTA_EXCEEDED');
+    expect(response.body.error).toContain('LLM quota exceeded (requests per day)');
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(60);
+  });
+
+  test('should refuse to start AI summarization without budget but allow local summaries', async () => {
+    InMemoryStore.store('budget-session', { data: hosts(2), originalFilename: 'hosts.json', uploadedAt: new Date() });
+    LLMBudget.configure({ requestsPerDay: 1 });
+    LLMBudget.reserve('earlier call');
+
+    const ai = await request(app).post('/api/summarize').send({ sessionId: 'budget-session' });
+    expect(ai.status).toBe(429);
+    expect(ai.body.retryAfterSeconds).toBeGreaterThan(0);
+
+    const local = await request(app).post('/api/summarize').send({ sessionId: 'budget-session', localOnly: true });
+    expect(local.status).toBe(202);
+  });
+
+  test('should retry hosts that hit a short budget wait once the budget refills', async () => {
+    let now = Date.parse('2024-06-01T12:00:30Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const wait = jest.spyOn(GeminiService as any, 'wait').mockImplementation(async (ms: any) => {
+      now += ms;
+    });
+    LLMBudget.configure({ requestsPerMinute: 3 });
+
+    const result = await GeminiService.summarizeHosts(hosts(5));
+
+    // Two hosts of the batch were over the minute limit and waited for the next minute
+    expect(wait).toHaveBeenCalledWith(30000, undefined);
+    expect(result.summaries).toHaveLength(5);
+    expect(result.summaries!.every(summary => summary.source === 'llm')).toBe(true);
+    expect(result.quotaExceeded).toBeUndefined();
+  });
+
+  test('should summarize the remaining hosts locally once the budget runs out', async () => {
+    LLMBudget.configure({ requestsPerDay: 2 });
+
+    const result = await GeminiService.summarizeHosts(hosts(7));
+
+    expect(result.success).toBe(true);
+    expect(result.summaries).toHaveLength(7);
+    expect(result.summaries!.filter(summary => summary.source === 'llm')).toHaveLength(2);
+    expect(result.quotaExceeded).toMatchObject({ limit: 'requests per day' });
+  });
+});
@@ -0,0 +1,109 @@
+import request from 'supertest';
+import app from '../src/server';
+import { RiskScorer } from '../src/services/riskScorer';
+import { SummarizationJobs } from '../src/services/summarizationJobs';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+import { CensysHost } from '../src/types';
+
+describe('RiskScorer', () => {
+  test('should score a host with no findings as none', () => {
+    expect(RiskScorer.score({ ip: '10.0.0.1' })).toEqual({ score: 0, level: 'none', factors: [] });
+  });
+
+  test('should keep a single CVE in its CVSS severity band', () => {
+    const withCVE = (cvss: number): CensysHost => ({
+      ip: '10.0.0.1',
+      services: [{ port: 443, service_name: 'HTTPS', vulnerabilities: [{ cve_id: 'CVE-2024-0001', cvss_score: cvss }] }]
+    });
+
+    expect(RiskScorer.score(withCVE(9.8)).level).toBe('critical');
+    expect(RiskScorer.score(withCVE(7.5)).level).toBe('high');
+    expect(RiskScorer.score(withCVE(5.3)).level).toBe('medium');
+    expect(RiskScorer.score(withCVE(2.1)).level).toBe('low');
+  });
+
+  test('should list contributing factors from every input, highest first', () => {
+    const risk = RiskScorer.score({
+      ip: '10.0.0.1',
+      services: [
+        { port: 3389, service_name: 'RDP' },
+        { port: 445 }, // Unidentified service on a well-known SMB port
+        { port: 23, service_name: 'TELNET' },
+        {
+          port: 443,
+          service_name: 'HTTPS',
+          certificate: { subject: { CN: 'host' }, issuer: { CN: 'host' }, expired: true },
+          vulnerabilities: [
+            { cve_id: 'CVE-2021-44228', cvss_score: 10 },
+            { cve_id: 'CVE-2022-0001', cvss_score: 8.1 }
+          ]
+        }
+      ],
+      threat_intelligence: { risk_level: 'Medium', security_labels: ['scanner'] }
+    });
+
+    expect(risk.score).toBe(100);
+    expect(risk.level).toBe('critical');
+    expect(risk.factors[0]).toEqual({ category: 'vulnerability', description: 'CVE-2021-44228 (CVSS 10)', points: 50 });
+    expect(risk.factors.map(factor => factor.description)).toEqual(expect.arrayContaining([
+      '1 more high/critical CVE(s): CVE-2022-0001',
+      'RDP exposed on port 3389',
+      'SMB exposed on port 445',
+      'Expired certificate on port 443',
+      'Self-signed certificate on port 443',
+      'Threat intelligence rates the host medium risk',
+      'Security labels: scanner'
+    ]));
+
+    // Exposure is capped at 30 points, so the third service is dropped
+    const exposure = risk.factors.filter(factor => factor.category === 'exposure');
+    expect(exposure.reduce((total, factor) => total + factor.points, 0)).toBe(30);
+    expect(exposure).toHaveLength(2);
+  });
+
+  test('should sort summaries by score with unscored summaries last', () => {
+    const summaries = [
+      { ip: 'a', summary: '', risk: { score: 10, level: 'low' as const, factors: [] } },
+      { ip: 'b', summary: '' },
+      { ip: 'c', summary: '', risk: { score: 60, level: 'critical' as const, factors: [] } }
+    ];
+
+    expect(RiskScorer.sortSummaries(summaries).map(summary => summary.ip)).toEqual(['c', 'a', 'b']);
+    expect(RiskScorer.sortSummaries(summaries, 'asc').map(summary => summary.ip)).toEqual(['a', 'c', 'b']);
+  });
+});
+
+describe('GET /api/jobs/:id sorted by risk', () => {
+  beforeEach(() => {
+    InMemoryStore.clear();
+    SummarizationJobs.clear();
+  });
+
+  test('should return summaries with risk scores, sorted on request', async () => {
+    InMemoryStore.store('risk-session', {
+      data: {
+        hosts: [
+          { ip: '10.0.0.1', services: [{ port: 80, service_name: 'HTTP' }] },
+          { ip: '10.0.0.2', services: [{ port: 3389, service_name: 'RDP', vulnerabilities: [{ cve_id: 'CVE-2019-0708', cvss_score: 9.8 }] }] }
+        ]
+      },
+      originalFilename: 'hosts.json',
+      uploadedAt: new Date()
+    });
+
+    const started = await request(app)
+      .post('/api/summarize')
+      .send({ sessionId: 'risk-session', localOnly: true });
+    const jobId = started.body.data.jobId;
+
+    const unsorted = await request(app).get(`/api/jobs/${jobId}`);
+    expect(unsorted.body.data.summaries.map((summary: any) => summary.ip)).toEqual(['10.0.0.1', '10.0.0.2']);
+    expect(unsorted.body.data.summaries[1].risk.level).toBe('critical');
+
+    const sorted = await request(app).get(`/api/jobs/${jobId}`).query({ sort: 'risk' });
+    expect(sorted.body.data.summaries.map((summary: any) => summary.ip)).toEqual(['10.0.0.2', '10.0.0.1']);
+
+    const invalid = await request(app).get(`/api/jobs/${jobId}`).query({ sort: 'name' });
+    expect(invalid.status).toBe(400);
+  });
+});
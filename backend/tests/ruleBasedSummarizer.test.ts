@@ -0,0 +1,101 @@
+import { RuleBasedSummarizer } from '../src/services/ruleBasedSummarizer';
+import { GeminiService } from '../src/services/geminiService';
+import { FakeProvider, setLLMProvider } from '../src/services/providers';
+import { CensysHost } from '../src/types';
+
+const richHost: CensysHost = {
+  ip: '203.0.113.10',
+  location: { city: 'Frankfurt', country: 'Germany' },
+  autonomous_system: { asn: 16509, name: 'AMAZON-02' },
+  operating_system: { vendor: 'Canonical', product: 'Ubuntu Linux', version: '20.04' },
+  services: [
+    {
+      port: 22,
+      service_name: 'SSH',
+      transport_protocol: 'TCP',
+      software: [{ product: 'OpenSSH', version: '8.2p1' }]
+    },
+    {
+      port: 443,
+      service_name: 'HTTPS',
+      vulnerabilities: [
+        { cve_id: 'CVE-2021-44228', cvss_score: 10.0 },
+        { cve_id: 'CVE-2020-1234', cvss_score: 5.3 }
+      ]
+    }
+  ],
+  threat_intelligence: { risk_level: 'High', security_labels: ['c2', 'scanner'] }
+};
+
+describe('RuleBasedSummarizer', () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  test('should describe location, services, OS, CVEs and threat labels', () => {
+    const summary = RuleBasedSummarizer.summarize(richHost);
+
+    expect(summary).toContain('203.0.113.10 is located in Frankfurt, Germany');
+    expect(summary).toContain('AS16509 (AMAZON-02)');
+    expect(summary).toContain('SSH on port 22/tcp (OpenSSH 8.2p1)');
+    expect(summary).toContain('HTTPS on port 443');
+    expect(summary).toContain('Canonical Ubuntu Linux 20.04');
+    expect(summary).toContain('CVE-2021-44228 (CVSS 10), CVE-2020-1234 (CVSS 5.3)');
+    expect(summary).toContain('high risk and labels it c2, scanner');
+  });
+
+  test('should build a structured summary with risk level, CVEs and certificate findings', () => {
+    const host: CensysHost = {
+      ...richHost,
+      services: [
+        ...richHost.services!,
+        {
+          port: 8443,
+          service_name: 'HTTPS',
+          certificate: { parsed: { subject_dn: 'CN=test', issuer_dn: 'CN=test', validity: { end: '2020-01-01T00:00:00Z' } } }
+        }
+      ]
+    };
+
+    const structured = RuleBasedSummarizer.summarizeStructured(host);
+
+    expect(structured.riskLevel).toBe('critical');
+    expect(structured.notableCVEs.map(cve => cve.cveId)).toEqual(['CVE-2021-44228', 'CVE-2020-1234']);
+    expect(structured.keyServices[0]).toEqual({ port: 22, service: 'SSH', software: 'OpenSSH 8.2p1' });
+    expect(structured.certificateFindings).toEqual(['Port 8443: certificate for CN=test, self-signed, expired']);
+    expect(structured.operatingSystem).toBe('Ubuntu Linux 20.04');
+    expect(structured.recommendedActions).toContain('Renew expired TLS certificates.');
+    expect(structured.narrative).toBe(RuleBasedSummarizer.summarize(host));
+  });
+
+  test('should handle hosts with only an IP', () => {
+    const summary = RuleBasedSummarizer.summarize({ ip: '10.0.0.1' });
+
+    expect(summary).toContain('10.0.0.1 has no known location');
+    expect(summary).toContain('No open services were observed.');
+    expect(summary).toContain('No known vulnerabilities were reported.');
+  });
+
+  test('should be used as the fallback when the LLM fails', async () => {
+    setLLMProvider(new FakeProvider('fake-model', () => {
+      throw new Error('model unavailable');
+    }));
+
+    const result = await GeminiService.summarizeHosts({ hosts: [richHost] });
+
+    expect(result.success).toBe(true);
+    expect(result.fallbackCount).toBe(1);
+    expect(result.summaries?.[0].source).toBe('rule-based');
+    expect(result.summaries?.[0].summary).toContain('CVE-2021-44228');
+  });
+
+  test('should skip the LLM entirely when localOnly is set', async () => {
+    const provider = new FakeProvider();
+    setLLMProvider(provider);
+
+    const result = await GeminiService.summarizeHosts({ hosts: [richHost] }, { localOnly: true });
+
+    expect(result.summaries?.[0].source).toBe('rule-based');
+    expect(provider.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,108 @@
+import request from 'supertest';
+import app from '../src/server';
+import { FakeProvider, setLLMProvider } from '../src/services/providers';
+import { SessionDiff } from '../src/services/sessionDiff';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+import { CensysHost } from '../src/types';
+
+const lastWeek: CensysHost[] = [
+  {
+    ip: '10.0.0.1',
+    services: [
+      { port: 22, service_name: 'SSH', software: [{ vendor: 'OpenBSD', product: 'OpenSSH', version: '7.4' }] },
+      { port: 443, service_name: 'HTTPS', certificate: 'AAAA1111', vulnerabilities: [{ cve_id: 'CVE-2019-0001', cvss_score: 5 }] }
+    ]
+  },
+  { ip: '10.0.0.2', services: [{ port: 80, service_name: 'HTTP' }] },
+  { ip: '10.0.0.3', services: [{ port: 21, service_name: 'FTP' }] }
+];
+
+const thisWeek: CensysHost[] = [
+  {
+    ip: '10.0.0.1',
+    services: [
+      { port: 22, service_name: 'SSH', software: [{ vendor: 'OpenBSD', product: 'OpenSSH', version: '9.6' }] },
+      {
+        port: 443,
+        service_name: 'HTTPS',
+        certificate: 'BBBB2222',
+        vulnerabilities: [{ cve_id: 'CVE-2024-0002', cvss_score: 9.8, severity: 'critical', known_exploited: true }]
+      },
+      { port: 3389, service_name: 'RDP' }
+    ]
+  },
+  { ip: '10.0.0.2', services: [{ port: 80, service_name: 'HTTP' }] },
+  { ip: '10.0.0.4', services: [{ port: 8080, service_name: 'HTTP', vulnerabilities: [{ cve_id: 'CVE-2021-44228' }] }] }
+];
+
+describe('SessionDiff', () => {
+  const diff = SessionDiff.compare('old', lastWeek, 'new', thisWeek);
+
+  test('should report added, removed and unchanged hosts', () => {
+    expect(diff.hostsAdded).toEqual([{ ip: '10.0.0.4', ports: [8080], cves: ['CVE-2021-44228'] }]);
+    expect(diff.hostsRemoved).toEqual([{ ip: '10.0.0.3', ports: [21], cves: [] }]);
+    expect(diff.summary).toMatchObject({ baseHosts: 3, targetHosts: 3, hostsAdded: 1, hostsRemoved: 1, hostsChanged: 1, hostsUnchanged: 1 });
+  });
+
+  test('should report port, software, CVE and certificate changes per host', () => {
+    expect(diff.changedHosts).toHaveLength(1);
+    expect(diff.changedHosts[0]).toEqual({
+      ip: '10.0.0.1',
+      portsOpened: [{ port: 3389, service: 'RDP' }],
+      portsClosed: [],
+      softwareChanges: [{ port: 22, product: 'OpenBSD OpenSSH', from: '7.4', to: '9.6' }],
+      newCves: [{ cveId: 'CVE-2024-0002', ports: [443], cvssScore: 9.8, severity: 'critical', knownExploited: true }],
+      resolvedCves: [{ cveId: 'CVE-2019-0001', ports: [443], cvssScore: 5 }],
+      certificateRotations: [{
+        port: 443,
+        from: { fingerprint: 'aaaa1111', subject: null, issuer: null, expiresAt: null },
+        to: { fingerprint: 'bbbb2222', subject: null, issuer: null, expiresAt: null }
+      }]
+    });
+  });
+
+  test('should narrate the changes without the model', () => {
+    expect(SessionDiff.narrate(diff)).toContain('1 host appeared, 1 host disappeared and 1 host changed');
+    expect(SessionDiff.narrate(diff)).toContain('1 new vulnerability appeared (1 known exploited) and 1 resolved');
+    expect(SessionDiff.narrate(SessionDiff.compare('a', lastWeek, 'b', lastWeek))).toBe('No changes: all 3 hosts match the earlier upload.');
+  });
+});
+
+describe('POST /api/compare', () => {
+  let provider: FakeProvider;
+
+  beforeEach(() => {
+    InMemoryStore.clear();
+    InMemoryStore.store('week-1', { data: { hosts: lastWeek }, originalFilename: 'week-1.json', uploadedAt: new Date() });
+    InMemoryStore.store('week-2', { data: { hosts: thisWeek }, originalFilename: 'week-2.json', uploadedAt: new Date() });
+    provider = new FakeProvider('fake-model', (prompt, mode) => mode === 'text' ? 'RDP is newly exposed on 10.0.0.1.' : undefined);
+    setLLMProvider(provider);
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  test('should return the diff and a model-written narrative', async () => {
+    const response = await request(app).post('/api/compare').send({ baseSessionId: 'week-1', targetSessionId: 'week-2' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.diff.summary.hostsChanged).toBe(1);
+    expect(response.body.data.narrative).toBe('RDP is newly exposed on 10.0.0.1.');
+    expect(response.body.data.narrativeSource).toBe('llm');
+    expect(provider.calls[0].prompt).toContain('"CVE-2024-0002"');
+  });
+
+  test('should write the narrative locally when asked to', async () => {
+    const response = await request(app).post('/api/compare').send({ baseSessionId: 'week-1', targetSessionId: 'week-2', localOnly: true });
+
+    expect(response.body.data.narrativeSource).toBe('rule-based');
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  test('should reject missing, identical or unknown sessions', async () => {
+    expect((await request(app).post('/api/compare').send({ baseSessionId: 'week-1' })).status).toBe(400);
+    expect((await request(app).post('/api/compare').send({ baseSessionId: 'week-1', targetSessionId: 'week-1' })).status).toBe(400);
+    expect((await request(app).post('/api/compare').send({ baseSessionId: 'week-1', targetSessionId: 'week-9' })).status).toBe(404);
+  });
+});
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import app from '../src/server';
+import { InMemoryStore, SessionTooLargeError, estimateSize, loadSessionLimits } from '../src/utils/inMemoryStore';
+import { cleanupTempFiles } from '../src/utils/tempFiles';
+
+const session = (hostCount = 1, filePath?: string) => ({
+  data: {
+    hosts: Array.from({ length: hostCount }, (_, index) => ({
+      ip: `10.0.0.${index + 1}`,
+      services: [{ port: 22, service_name: 'SSH', banner: 'SSH-2.0-OpenSSH_8.9p1 Ubuntu-3ubuntu0.6' }]
+    }))
+  },
+  originalFilename: 'hosts.json',
+  uploadedAt: new Date('2024-06-01T12:00:00Z'),
+  filePath
+});
+
+describe('Session limits', () => {
+  const defaults = InMemoryStore.getLimits();
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.parse('2024-06-01T12:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    InMemoryStore.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    InMemoryStore.configure(defaults);
+    InMemoryStore.clear();
+  });
+
+  test('should read limits from the environment', () => {
+    expect(loadSessionLimits({})).toEqual({ ttlMs: 60 * 60 * 1000, maxBytes: 512 * 1024 * 1024 });
+    expect(loadSessionLimits({ SESSION_TTL_MINUTES: '0', SESSION_MEMORY_LIMIT_MB: '2' }))
+      .toEqual({ ttlMs: 0, maxBytes: 2 * 1024 * 1024 });
+  });
+
+  test('should expire idle sessions and keep recently used ones', () => {
+    InMemoryStore.configure({ ttlMs: 60 * 1000, maxBytes: 0 });
+    InMemoryStore.store('idle', session());
+    InMemoryStore.store('busy', session());
+
+    now += 45 * 1000;
+    expect(InMemoryStore.get('busy')).not.toBeNull();
+
+    now += 45 * 1000;
+    expect(InMemoryStore.get('idle')).toBeNull();
+    expect(InMemoryStore.status('idle')).toBe('expired');
+    expect(InMemoryStore.status('busy')).toBe('active');
+    expect(InMemoryStore.status('never-stored')).toBe('missing');
+  });
+
+  test('should account for session sizes and evict the least recently used session', () => {
+    const size = estimateSize(session(20));
+    InMemoryStore.configure({ ttlMs: 0, maxBytes: Math.floor(size * 2.5) });
+
+    InMemoryStore.store('first', session(20));
+    InMemoryStore.store('second', session(20));
+    expect(InMemoryStore.sessionSize('first')).toBeGreaterThan(0);
+    expect(InMemoryStore.totalSize()).toBe(InMemoryStore.sessionSize('first') + InMemoryStore.sessionSize('second'));
+
+    // Touching the first session makes the second the least recently used
+    InMemoryStore.get('first');
+    InMemoryStore.store('third', session(20));
+
+    expect(InMemoryStore.getActiveSessionIds().sort()).toEqual(['first', 'third']);
+    expect(InMemoryStore.status('second')).toBe('evicted');
+    expect(InMemoryStore.totalSize()).toBeLessThanOrEqual(InMemoryStore.getLimits().maxBytes);
+  });
+
+  test('should reject a session larger than the whole budget', () => {
+    InMemoryStore.configure({ ttlMs: 0, maxBytes: 1024 });
+
+    expect(() => InMemoryStore.store('huge', session(50))).toThrow(SessionTooLargeError);
+    expect(InMemoryStore.size()).toBe(0);
+  });
+
+  test('should delete the temp file of an expired session', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'session-expiry-'));
+    const filePath = path.join(directory, 'upload');
+    fs.writeFileSync(filePath, '{}');
+
+    InMemoryStore.configure({ ttlMs: 60 * 1000, maxBytes: 0 });
+    InMemoryStore.store('with-file', session(1, filePath));
+    expect(InMemoryStore.referencedFilePaths()).toEqual(new Set([filePath]));
+
+    now += 2 * 60 * 1000;
+    expect(InMemoryStore.sweep()).toEqual(['with-file']);
+    expect(InMemoryStore.referencedFilePaths().size).toBe(0);
+
+    // The file is unlinked in the background
+    jest.restoreAllMocks();
+    for (let attempt = 0; attempt < 50 && fs.existsSync(filePath); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    expect(fs.existsSync(filePath)).toBe(false);
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should tell clients an expired session apart from an unknown one', async () => {
+    InMemoryStore.configure({ ttlMs: 60 * 1000, maxBytes: 0 });
+    InMemoryStore.store('stale-session', session());
+    now += 2 * 60 * 1000;
+
+    const expired = await request(app).post('/api/summarize').send({ sessionId: 'stale-session' });
+    expect(expired.status).toBe(410);
+    expect(expired.body.code).toBe('SESSION_EXPIRED');
+
+    const chat = await request(app).post('/api/chat').send({ message: 'hello', sessionId: 'stale-session' });
+    expect(chat.status).toBe(410);
+
+    const unknown = await request(app).post('/api/summarize').send({ sessionId: 'no-such-session' });
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.code).toBe('SESSION_NOT_FOUND');
+  });
+});
+
+describe('Temp file cleanup', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'temp-cleanup-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should remove stale files that no session references', async () => {
+    const stale = path.join(directory, 'stale');
+    const referenced = path.join(directory, 'referenced');
+    const fresh = path.join(directory, 'fresh');
+    [stale, referenced, fresh].forEach(file => fs.writeFileSync(file, '{}'));
+
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    fs.utimesSync(stale, hourAgo, hourAgo);
+    fs.utimesSync(referenced, hourAgo, hourAgo);
+
+    const removed = await cleanupTempFiles(directory, 10 * 60 * 1000, new Set([referenced]));
+
+    expect(removed).toEqual([stale]);
+    expect(fs.readdirSync(directory).sort()).toEqual(['fresh', 'referenced']);
+  });
+
+  test('should ignore a missing directory', async () => {
+    await expect(cleanupTempFiles(path.join(directory, 'missing'), 0, new Set())).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import app from '../src/server';
+import {
+  FileSessionStore,
+  MemorySessionStore,
+  createSessionStore,
+  loadSessionStoreConfig,
+  setSessionStore
+} from '../src/services/storage';
+import { SummarizationJobs } from '../src/services/summarizationJobs';
+
+const session = () => ({
+  data: { hosts: [{ ip: '10.0.0.1', services: [{ port: 22, service_name: 'SSH' }] }] },
+  originalFilename: 'hosts.json',
+  uploadedAt: new Date('2024-06-01T12:00:00Z')
+});
+
+describe('Session store configuration', () => {
+  test('should default to the in-memory store', () => {
+    const config = loadSessionStoreConfig({});
+
+    expect(config.backend).toBe('memory');
+    expect(createSessionStore(config)).toBeInstanceOf(MemorySessionStore);
+  });
+
+  test('should select the file store and directory from the environment', () => {
+    const config = loadSessionStoreConfig({ SESSION_STORE: 'FILE', SESSION_STORE_DIR: '/var/lib/censys-sessions' });
+
+    expect(config).toEqual({ backend: 'file', directory: '/var/lib/censys-sessions' });
+    expect(createSessionStore(config)).toBeInstanceOf(FileSessionStore);
+  });
+
+  test('should reject unknown backends', () => {
+    expect(() => loadSessionStoreConfig({ SESSION_STORE: 'redis' })).toThrow('Unsupported SESSION_STORE "redis"');
+  });
+});
+
+describe('FileSessionStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should persist host data, summaries and chat history across instances', async () => {
+    const store = new FileSessionStore(directory);
+    await store.store('abc123', session());
+    await store.update('abc123', { summaries: [{ ip: '10.0.0.1', summary: 'SSH host' }], filePath: undefined });
+    await store.appendChatHistory('abc123', [{ role: 'user', content: 'Hi', timestamp: new Date('2024-06-01T12:05:00Z') }]);
+
+    const reopened = await new FileSessionStore(directory).get('abc123');
+
+    expect(reopened?.data).toEqual(session().data);
+    expect(reopened?.uploadedAt).toEqual(new Date('2024-06-01T12:00:00Z'));
+    expect(reopened?.summaries).toEqual([{ ip: '10.0.0.1', summary: 'SSH host' }]);
+    expect(reopened?.chatHistory).toEqual([{ role: 'user', content: 'Hi', timestamp: new Date('2024-06-01T12:05:00Z') }]);
+    expect(fs.existsSync(path.join(directory, 'abc123', 'hosts.json'))).toBe(true);
+  });
+
+  test('should not lose concurrent chat history appends', async () => {
+    const store = new FileSessionStore(directory);
+    await store.store('abc123', session());
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) =>
+      store.appendChatHistory('abc123', [{ role: 'user', content: `message ${i}`, timestamp: new Date() }])
+    ));
+
+    expect((await store.get('abc123'))?.chatHistory).toHaveLength(10);
+  });
+
+  test('should list, delete and clear sessions', async () => {
+    const store = new FileSessionStore(directory);
+    await store.store('first', session());
+    await store.store('second', session());
+
+    expect((await store.getActiveSessionIds()).sort()).toEqual(['first', 'second']);
+    expect(await store.delete('first')).toBe(true);
+    expect(await store.delete('first')).toBe(false);
+    expect(await store.size()).toBe(1);
+
+    await store.clear();
+    expect(await store.size()).toBe(0);
+  });
+
+  test('should cache parsed host data instead of reading hosts.json on every get', async () => {
+    await new FileSessionStore(directory).store('abc123', session());
+    const readFile = jest.spyOn(fsPromises, 'readFile');
+    const hostReads = () => readFile.mock.calls.filter(([file]) => String(file).endsWith('hosts.json')).length;
+
+    try {
+      const store = new FileSessionStore(directory);
+      await store.get('abc123');
+      await store.get('abc123');
+      expect(hostReads()).toBe(1);
+
+      await store.update('abc123', { data: { hosts: [] } });
+      expect((await store.get('abc123'))?.data).toEqual({ hosts: [] });
+      expect(hostReads()).toBe(1);
+
+      // Data that doesn't fit in the memory budget is read each time
+      const tight = new FileSessionStore(directory, { ttlMs: 0, maxBytes: 1 });
+      await tight.get('abc123');
+      await tight.get('abc123');
+      expect(hostReads()).toBe(3);
+    } finally {
+      readFile.mockRestore();
+    }
+  });
+
+  test('should expire idle sessions with their upload temp file', async () => {
+    const store = new FileSessionStore(directory, { ttlMs: 60 * 60 * 1000, maxBytes: 0 });
+    const uploadPath = path.join(directory, 'upload.tmp');
+    fs.writeFileSync(uploadPath, '{}');
+    await store.store('idle', { ...session(), filePath: uploadPath });
+    await store.store('busy', session());
+
+    expect([...(await store.referencedFilePaths())]).toEqual([uploadPath]);
+    expect(await store.sweep()).toEqual([]);
+
+    // Two hours later, after "busy" was used a minute ago
+    const now = Date.now() + 2 * 60 * 60 * 1000;
+    const touched = new Date(now - 60 * 1000);
+    fs.utimesSync(path.join(directory, 'busy', 'session.json'), touched, touched);
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    try {
+      expect(await store.sweep()).toEqual(['idle']);
+      expect(fs.existsSync(path.join(directory, 'idle'))).toBe(false);
+      expect(fs.existsSync(uploadPath)).toBe(false);
+      expect(await store.status('idle')).toBe('expired');
+      expect(await store.get('idle')).toBeNull();
+      expect(await store.status('busy')).toBe('active');
+      expect(await store.referencedFilePaths()).toEqual(new Set());
+    } finally {
+      dateNow.mockRestore();
+    }
+  });
+
+  test('should expire an idle session when it is next read', async () => {
+    const store = new FileSessionStore(directory, { ttlMs: 60 * 1000, maxBytes: 0 });
+    await store.store('abc123', session());
+
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 1000);
+    try {
+      expect(await store.get('abc123')).toBeNull();
+      expect(await store.status('abc123')).toBe('expired');
+    } finally {
+      dateNow.mockRestore();
+    }
+  });
+
+  test('should treat unsafe or unknown session IDs as missing', async () => {
+    const store = new FileSessionStore(directory);
+
+    expect(await store.get('../etc')).toBeNull();
+    expect(await store.get('missing')).toBeNull();
+    expect(await store.update('missing', { summaries: [] })).toBe(false);
+    await expect(store.store('../escape', session())).rejects.toThrow('Invalid session ID');
+  });
+});
+
+describe('API with the file session store', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+    setSessionStore(new FileSessionStore(directory));
+    SummarizationJobs.clear();
+  });
+
+  afterEach(() => {
+    setSessionStore(null);
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should upload, summarize and chat against sessions on disk', async () => {
+    const uploaded = await request(app)
+      .post('/api/upload')
+      .attach('file', Buffer.from(JSON.stringify(session().data)), 'hosts.json');
+    const sessionId = uploaded.body.data.sessionId;
+
+    expect(uploaded.status).toBe(200);
+    expect(fs.existsSync(path.join(directory, sessionId, 'hosts.json'))).toBe(true);
+
+    const started = await request(app)
+      .post('/api/summarize')
+      .send({ sessionId, localOnly: true });
+    expect(started.status).toBe(202);
+
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const job = await request(app).get(`/api/jobs/${started.body.data.jobId}`);
+      if (job.body.data.status !== 'running') break;
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    const chat = await request(app)
+      .post('/api/chat')
+      .send({ sessionId, message: 'What is exposed?' });
+    expect(chat.status).toBe(200);
+
+    const stored = await new FileSessionStore(directory).get(sessionId);
+    expect(stored?.summaries).toHaveLength(1);
+    expect(stored?.chatHistory?.map(entry => entry.role)).toEqual(['user', 'assistant']);
+  });
+});
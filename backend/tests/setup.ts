@@ -0,0 +1,13 @@
+// Run the whole pipeline against the deterministic in-process provider
+process.env.LLM_PROVIDER = 'fake';
+
+// Requests run as the anonymous user unless a test configures authentication
+process.env.AUTH_DISABLED = 'true';
+
+// No request or LLM budget limits unless a test configures them
+process.env.RATE_LIMIT_UPLOADS_PER_MINUTE = '0';
+process.env.RATE_LIMIT_SUMMARIZE_PER_MINUTE = '0';
+process.env.RATE_LIMIT_CHAT_PER_MINUTE = '0';
+process.env.RATE_LIMIT_LOGIN_PER_MINUTE = '0';
+process.env.LLM_REQUESTS_PER_MINUTE = '0';
+process.env.LLM_TOKENS_PER_MINUTE = '0';
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import request from 'supertest';
+import app from '../src/server';
+import { ShodanImporter } from '../src/utils/shodanImporter';
+import { RuleBasedSummarizer } from '../src/services/ruleBasedSummarizer';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+
+const fixturePath = path.join(__dirname, 'fixtures', 'shodan-host.json');
+const shodanHost = () => JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+
+describe('ShodanImporter', () => {
+  test('should convert a host lookup into a CensysHost tagged with its source', () => {
+    const data = ShodanImporter.convert(shodanHost());
+
+    expect(data.metadata.source).toBe('shodan');
+    expect(data.hosts).toHaveLength(1);
+
+    const host = data.hosts[0];
+    expect(host).toMatchObject({
+      ip: '198.51.100.7',
+      source: 'shodan',
+      location: {
+        country: 'Germany',
+        country_code: 'DE',
+        city: 'Frankfurt am Main',
+        coordinates: { latitude: 50.1155, longitude: 8.6842 }
+      },
+      autonomous_system: { asn: 64500, name: 'Example Hosting GmbH' },
+      operating_system: { product: 'Ubuntu' },
+      dns: { names: ['mail.example.org', 'example.org'] },
+      tags: ['cloud'],
+      last_updated_at: '2024-06-02T11:32:01.123Z'
+    });
+  });
+
+  test('should map banners to services with software and vulnerabilities', () => {
+    const [ssh, https] = ShodanImporter.convert(shodanHost()).hosts[0].services!;
+
+    expect(ssh).toMatchObject({
+      port: 22,
+      transport_protocol: 'TCP',
+      service_name: 'SSH',
+      software: [{ product: 'OpenSSH', version: '8.9p1 Ubuntu-3ubuntu0.1' }],
+      banner: 'SSH-2.0-OpenSSH_8.9p1 Ubuntu-3ubuntu0.1',
+      vulnerabilities: [{ cve_id: 'CVE-2023-38408', cvss_score: 9.8 }]
+    });
+    expect(https.service_name).toBe('HTTPS');
+    expect(https.http).toEqual({ title: 'Webmail', server: 'nginx' });
+    expect(https.certificate.subject.CN).toBe('mail.example.org');
+  });
+
+  test('should merge banner records for the same IP into one host', () => {
+    const { data: banners, ...host } = shodanHost();
+    const matches = banners.map((banner: any) => ({ ...host, ...banner }));
+
+    const data = ShodanImporter.convert({ matches, total: 2 });
+
+    expect(data.metadata.total).toBe(2);
+    expect(data.hosts).toHaveLength(1);
+    expect(data.hosts[0].services?.map(service => service.port)).toEqual([22, 443]);
+    expect(data.hosts[0].last_updated_at).toBe('2024-06-02T11:32:01.123Z');
+  });
+
+  test('should recognise Shodan data only', () => {
+    expect(ShodanImporter.isShodanData(shodanHost())).toBe(true);
+    expect(ShodanImporter.isShodanData([shodanHost()])).toBe(true);
+    expect(ShodanImporter.isShodanData({ hosts: [{ ip: '1.1.1.1' }] })).toBe(false);
+    expect(ShodanImporter.isShodanData({ ip: '1.1.1.1', services: [] })).toBe(false);
+  });
+
+  test('should name the data source in rule-based summaries', () => {
+    const summary = RuleBasedSummarizer.summarize(ShodanImporter.convert(shodanHost()).hosts[0]);
+
+    expect(summary).toContain('Source: Shodan data.');
+    expect(summary).toContain('CVE-2023-38408 (CVSS 9.8)');
+  });
+});
+
+describe('POST /api/upload with Shodan data', () => {
+  beforeEach(() => {
+    InMemoryStore.clear();
+  });
+
+  test('should import a Shodan host lookup', async () => {
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', fixturePath);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.sourceFormat).toBe('shodan');
+    expect(response.body.data.hostCount).toBe(1);
+    expect(InMemoryStore.get(response.body.data.sessionId)?.data.hosts[0].source).toBe('shodan');
+  });
+
+  test('should group `shodan download` banners by IP', async () => {
+    const { data: banners, ...host } = shodanHost();
+    const ndjson = banners.map((banner: any) => JSON.stringify({ ...host, ...banner })).join('\n');
+
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', Buffer.from(ndjson), 'shodan-download.jsonl');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.format).toBe('ndjson');
+    expect(response.body.data.sourceFormat).toBe('shodan');
+    expect(response.body.data.hostCount).toBe(1);
+
+    const stored = InMemoryStore.get(response.body.data.sessionId);
+    expect(stored?.data.hosts[0].services).toHaveLength(2);
+  });
+});
@@ -0,0 +1,152 @@
+import request from 'supertest';
+import app from '../src/server';
+import { FakeProvider, setLLMProvider } from '../src/services/providers';
+import { SummarizationJobs } from '../src/services/summarizationJobs';
+import { InMemoryStore } from '../src/utils/inMemoryStore';
+
+const storeSession = (sessionId: string, hostCount: number) => {
+  InMemoryStore.store(sessionId, {
+    data: {
+      hosts: Array.from({ length: hostCount }, (_, i) => ({ ip: `10.0.0.${i + 1}`, services: [] }))
+    },
+    originalFilename: 'hosts.json',
+    uploadedAt: new Date()
+  });
+};
+
+const waitForJob = async (jobId: string) => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const response = await request(app).get(`/api/jobs/${jobId}`);
+    if (response.body.data.status !== 'running') {
+      return response;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  throw new Error('Job did not finish in time');
+};
+
+describe('Summarization jobs', () => {
+  beforeEach(() => {
+    InMemoryStore.clear();
+    SummarizationJobs.clear();
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  test('should return 404 for unknown sessions', async () => {
+    const response = await request(app)
+      .post('/api/summarize')
+      .send({ sessionId: 'missing' });
+
+    expect(response.status).toBe(404);
+  });
+
+  test('should run in the background and store summaries on completion', async () => {
+    storeSession('job-session', 2);
+
+    const started = await request(app)
+      .post('/api/summarize')
+      .send({ sessionId: 'job-session' });
+
+    expect(started.status).toBe(202);
+    expect(started.body.data.totalCount).toBe(2);
+
+    const finished = await waitForJob(started.body.data.jobId);
+
+    expect(finished.body.data.status).toBe('completed');
+    expect(finished.body.data.processedCount).toBe(2);
+    expect(finished.body.data.summaries).toHaveLength(2);
+    expect(InMemoryStore.get('job-session')?.summaries).toHaveLength(2);
+  });
+
+  test('should fail when the session is removed before the summaries are saved', async () => {
+    setLLMProvider(new FakeProvider('fake-model', () => {
+      InMemoryStore.delete('evicted-session');
+      return undefined;
+    }));
+    storeSession('evicted-session', 1);
+
+    const started = await request(app)
+      .post('/api/summarize')
+      .send({ sessionId: 'evicted-session' });
+    const finished = await waitForJob(started.body.data.jobId);
+
+    expect(finished.body.data.status).toBe('failed');
+    expect(finished.body.data.error).toContain('Session expired or was removed');
+  });
+
+  test('should prune jobs that finished more than an hour ago', async () => {
+    storeSession('old-session', 1);
+
+    const started = await request(app).post('/api/summarize').send({ sessionId: 'old-session' });
+    await waitForJob(started.body.data.jobId);
+
+    SummarizationJobs.pruneFinishedJobs();
+    expect(SummarizationJobs.get(started.body.data.jobId)).not.toBeNull();
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61 * 60 * 1000);
+    SummarizationJobs.pruneFinishedJobs();
+    jest.restoreAllMocks();
+
+    expect(SummarizationJobs.get(started.body.data.jobId)).toBeNull();
+  });
+
+  test('should cancel a running job and keep partial summaries', async () => {
+    setLLMProvider(new FakeProvider('fake-model', () => 'Summary'));
+    storeSession('cancel-session', 10);
+
+    const started = await request(app)
+      .post('/api/summarize')
+      .send({ sessionId: 'cancel-session' });
+    const jobId = started.body.data.jobId;
+
+    // Let the first batch finish; the second waits behind the rate-limit delay
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const cancelled = await request(app).delete(`/api/jobs/${jobId}`);
+
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.data.status).toBe('cancelled');
+    expect(cancelled.body.data.processedCount).toBe(5);
+    expect(InMemoryStore.get('cancel-session')?.summaries).toBeUndefined();
+
+    const again = await request(app).delete(`/api/jobs/${jobId}`);
+    expect(again.status).toBe(409);
+  });
+
+  test('should return 404 for unknown jobs', async () => {
+    const response = await request(app).get('/api/jobs/does-not-exist');
+    expect(response.status).toBe(404);
+  });
+
+  test('should stream one summary event per host followed by done', async () => {
+    setLLMProvider(new FakeProvider('fake-model', (prompt, mode) => {
+      if (prompt.includes('10.0.0.2')) throw new Error('model unavailable');
+      return mode === 'text' ? { riskLevel: 'none', narrative: 'Summary' } : undefined;
+    }));
+    storeSession('stream-session', 3);
+
+    const response = await request(app)
+      .get('/api/summarize/stream')
+      .query({ sessionId: 'stream-session' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    expect(response.text.match(/event: summary/g)).toHaveLength(3);
+    expect(response.text.match(/event: error/g)).toHaveLength(1);
+    expect(response.text).toContain('event: error\ndata: {"ip":"10.0.0.2"');
+    expect(response.text).toContain('"processedCount":3');
+    expect(response.text.trim().split('\n\n').pop()).toContain('event: done');
+  });
+
+  test('should reject streams for unknown sessions', async () => {
+    const response = await request(app)
+      .get('/api/summarize/stream')
+      .query({ sessionId: 'missing' });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,94 @@
+import { SummarySchema } from '../src/utils/summarySchema';
+import { GeminiService } from '../src/services/geminiService';
+import { FakeProvider, setLLMProvider } from '../src/services/providers';
+
+const validSummary = {
+  riskLevel: 'high',
+  keyServices: [{ port: 443, service: 'HTTPS', software: 'nginx 1.18.0' }],
+  notableCVEs: [{ cveId: 'CVE-2021-23017', cvssScore: 7.7 }],
+  certificateFindings: ['Port 443: self-signed certificate'],
+  operatingSystem: 'Ubuntu',
+  recommendedActions: ['Upgrade nginx.'],
+  narrative: '203.0.113.5 runs nginx on port 443.'
+};
+
+describe('SummarySchema', () => {
+  test('should accept a valid structured summary', () => {
+    expect(SummarySchema.validate(validSummary)).toEqual({ summary: validSummary, errors: [] });
+  });
+
+  test('should repair casing, snake_case keys and loose list values', () => {
+    const { summary, errors } = SummarySchema.validate({
+      risk_level: 'Moderate',
+      key_services: [{ port: '22', service_name: 'SSH' }, 'not a service'],
+      notable_cves: ['cve-2023-38408', { cve_id: 'CVE-2020-0001', cvss_score: '5.3' }, 'nonsense'],
+      certificate_findings: 'Expired certificate',
+      operatingSystem: 'unknown',
+      summary: '  Narrative  '
+    });
+
+    expect(errors).toEqual([]);
+    expect(summary).toEqual({
+      riskLevel: 'medium',
+      keyServices: [{ port: 22, service: 'SSH' }],
+      notableCVEs: [{ cveId: 'CVE-2023-38408' }, { cveId: 'CVE-2020-0001', cvssScore: 5.3 }],
+      certificateFindings: ['Expired certificate'],
+      operatingSystem: null,
+      recommendedActions: [],
+      narrative: 'Narrative'
+    });
+  });
+
+  test('should report errors that cannot be repaired', () => {
+    const { summary, errors } = SummarySchema.validate({ riskLevel: 'purple', keyServices: 5 });
+
+    expect(summary).toBeUndefined();
+    expect(errors).toEqual([
+      '"riskLevel" must be one of: critical, high, medium, low, none',
+      '"narrative" must be a non-empty string',
+      '"keyServices" must be an array'
+    ]);
+    expect(SummarySchema.validate('text').errors).toEqual(['Response must be a single JSON object']);
+  });
+});
+
+describe('GeminiService structured summaries', () => {
+  const host = {
+    ip: '203.0.113.5',
+    services: [{ port: 443, service_name: 'HTTPS', vulnerabilities: [{ cve_id: 'CVE-2021-23017', cvss_score: 7.7 }] }]
+  };
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  test('should retry with the validation errors when the response is malformed', async () => {
+    const responses = ['Sorry, here is a paragraph instead.', '```json\n' + JSON.stringify(validSummary) + '\n```'];
+    const provider = new FakeProvider('fake-model', () => responses.shift());
+    setLLMProvider(provider);
+
+    const result = await GeminiService.summarizeHosts({ hosts: [host] });
+
+    expect(provider.calls).toHaveLength(2);
+    expect(provider.calls[1].prompt).toContain('Response is not valid JSON');
+    expect(result.summaries?.[0]).toMatchObject({ source: 'llm', summary: validSummary.narrative, structured: validSummary });
+  });
+
+  test('should fall back to a rule-based structured summary after repeated failures', async () => {
+    const provider = new FakeProvider('fake-model', () => ({ riskLevel: 'unknown' }));
+    setLLMProvider(provider);
+
+    const result = await GeminiService.summarizeHosts({ hosts: [host] });
+    const summary = result.summaries![0];
+
+    expect(provider.calls).toHaveLength(3);
+    expect(summary.source).toBe('rule-based');
+    expect(summary.structured).toMatchObject({
+      riskLevel: 'high',
+      keyServices: [{ port: 443, service: 'HTTPS' }],
+      notableCVEs: [{ cveId: 'CVE-2021-23017', cvssScore: 7.7 }],
+      recommendedActions: ['Patch CVE-2021-23017.']
+    });
+    expect(summary.structured?.narrative).toBe(summary.summary);
+  });
+});
@@ -2,12 +2,23 @@ import React, { useState, useRef, useEffect } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { ChatMessage } from './components/ChatMessage';
 import { LoadingSpinner } from './components/LoadingSpinner';
+import { LoginForm } from './components/LoginForm';
 import { ApiService } from './services/apiService';
-import { ChatMessage as ChatMessageType } from './types';
+import { AuthUser, ChatMessage as ChatMessageType, SummarizationJob } from './types';
 import { Github } from 'lucide-react';
 import './App.css';
 
+// How often to check on a summarization job after its event stream drops
+const JOB_POLL_INTERVAL_MS = 2000;
+
+// Where the current session ID is kept so a reload can resume it
+const SESSION_STORAGE_KEY = 'censysSessionId';
+
 function App() {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [loginError, setLoginError] = useState<string>('');
   const [messages, setMessages] = useState<ChatMessageType[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -17,6 +28,8 @@ function App() {
   const [currentSessionId, setCurrentSessionId] = useState<string>('');
   const [userInput, setUserInput] = useState<string>('');
   const [isChatting, setIsChatting] = useState(false);
+  const summaryJobIdRef = useRef<string>('');
+  const sessionResumedRef = useRef(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Scroll to bottom when new messages are added
@@ -49,6 +62,89 @@ What would you like to analyze today?`,
     setMessages([welcomeMessage]);
   }, []);
 
+  // Find out who is signed in; an expired token sends the user back to the login form
+  useEffect(() => {
+    ApiService.onUnauthorized(() => {
+      setLoginError('Your sign-in has expired. Please sign in again.');
+      setUser(null);
+    });
+
+    ApiService.getCurrentUser().then(response => {
+      setUser(response.success && response.data ? response.data : null);
+      setAuthChecked(true);
+    });
+  }, []);
+
+  // Resume the last session after a reload, with the conversation so far, once the user is known
+  useEffect(() => {
+    if (!user || sessionResumedRef.current) {
+      return;
+    }
+
+    const savedSessionId = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!savedSessionId) {
+      sessionResumedRef.current = true;
+      return;
+    }
+
+    let cancelled = false;
+    ApiService.getChatHistory(savedSessionId).then(response => {
+      if (cancelled) {
+        return;
+      }
+      sessionResumedRef.current = true;
+      if (!response.success || !response.data) {
+        // Expired or removed on the server; start fresh
+        localStorage.removeItem(SESSION_STORAGE_KEY);
+        return;
+      }
+
+      const history = response.data.messages.map((message, index): ChatMessageType => ({
+        id: `history-${index}`,
+        type: message.role,
+        content: message.content,
+        timestamp: new Date(message.timestamp)
+      }));
+      setCurrentSessionId(savedSessionId);
+      setMessages(prev => [
+        ...prev,
+        {
+          id: 'resumed',
+          type: 'system',
+          content: 'Resumed your previous session. You can keep asking questions about the uploaded data.',
+          timestamp: new Date()
+        },
+        ...history
+      ]);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const handleLogin = async (apiKey: string) => {
+    setIsSigningIn(true);
+    setLoginError('');
+
+    const response = await ApiService.login(apiKey);
+    if (response.success && response.data) {
+      setUser({ userId: response.data.userId, method: 'jwt' });
+    } else {
+      const retryHint = response.retryAfterSeconds ? ` Try again in ${response.retryAfterSeconds} second(s).` : '';
+      setLoginError(`${response.error || 'Failed to sign in'}${retryHint}`);
+    }
+    setIsSigningIn(false);
+  };
+
+  const handleLogout = () => {
+    ApiService.logout();
+    // The next user of this browser tab must not see this user's data
+    handleNewAnalysis();
+    setLoginError('');
+    setUser(null);
+  };
+
   const addMessage = (message: Omit<ChatMessageType, 'id' | 'timestamp'>) => {
     const newMessage: ChatMessageType = {
       ...message,
@@ -58,6 +154,10 @@ What would you like to analyze today?`,
     setMessages(prev => [...prev, newMessage]);
   };
 
+  const updateMessage = (id: string, update: (message: ChatMessageType) => ChatMessageType) => {
+    setMessages(prev => prev.map(message => (message.id === id ? update(message) : message)));
+  };
+
   const handleFileSelect = async (file: File) => {
     setUploadError('');
     setIsUploading(true);
@@ -67,7 +167,7 @@ What would you like to analyze today?`,
     // Add user message
     addMessage({
       type: 'user',
-      content: `Uploaded file: ${file.name} (${Math.round(file.size / 1024)} KB)`
+      content: `${currentSessionId ? 'Added file' : 'Uploaded file'}: ${file.name} (${Math.round(file.size / 1024)} KB)`
     });
 
     try {
@@ -79,7 +179,7 @@ What would you like to analyze today?`,
       setUploadProgress(40);
       setUploadStatus('Validating file format...');
 
-      const response = await ApiService.uploadFile(file);
+      const response = await ApiService.uploadFile(file, currentSessionId || undefined);
 
       setUploadProgress(80);
       setUploadStatus('Processing host data...');
@@ -90,6 +190,7 @@ What would you like to analyze today?`,
       
       if (response.success && response.data) {
         setCurrentSessionId(response.data.sessionId);
+        localStorage.setItem(SESSION_STORAGE_KEY, response.data.sessionId);
         addMessage({
           type: 'assistant',
           content: response.message || `Successfully validated ${response.data.hostCount} host(s).`
@@ -125,37 +226,114 @@ What would you like to analyze today?`,
   const handleSummarization = async (sessionId: string) => {
     setIsSummarizing(true);
 
-    // No need to update messages - no button to hide
-
-    addMessage({
-      type: 'system',
-      content: 'Generating AI-powered summaries for your hosts... This may take a moment.'
-    });
+    // Start the job first: a stream can't report why it was refused (e.g. a 429 once the AI quota is used up)
+    const started = await ApiService.summarizeData(sessionId);
+    if (!started.success || !started.data) {
+      const retryHint = started.retryAfterSeconds && started.code !== 'LLM_QUOTA_EXCEEDED'
+        ? ` Try again in ${started.retryAfterSeconds} second(s).`
+        : '';
+      addMessage({
+        type: 'error',
+        content: `${started.error || 'Failed to generate summaries'}${retryHint}`
+      });
+      setIsSummarizing(false);
+      return;
+    }
+    const jobId = started.data.jobId;
+    summaryJobIdRef.current = jobId;
 
-    try {
-      const response = await ApiService.summarizeData(sessionId);
+    // Summaries are appended to this message live as the server streams them
+    const messageId = `summaries-${Date.now()}`;
+    setMessages(prev => [...prev, {
+      id: messageId,
+      type: 'assistant',
+      content: 'Generating AI-powered summaries for your hosts...',
+      timestamp: new Date(),
+      summaries: [],
+      progress: { processed: 0, total: 0 },
+      streaming: true
+    }]);
+
+    const finish = () => {
+      summaryJobIdRef.current = '';
+      setIsSummarizing(false);
+    };
 
-      if (response.success && response.data) {
-        addMessage({
-          type: 'assistant',
-          content: response.message || `Successfully analyzed ${response.data.processedCount} out of ${response.data.totalCount} hosts. Here are the summaries:`,
-          summaries: response.data.summaries
-        });
+    const showResult = (job: SummarizationJob) => {
+      updateMessage(messageId, message => ({
+        ...message,
+        content: job.status === 'completed'
+          ? job.quotaExceeded
+            ? `Generated summaries for ${job.processedCount} host(s). The AI quota ran out (${job.quotaExceeded.limit}), so some hosts were summarized locally; AI is available again in ${job.quotaExceeded.retryAfterSeconds} second(s).`
+            : `Successfully generated summaries for ${job.processedCount} host(s). Is there anything else you'd like me to help you summarize?`
+          : job.status === 'cancelled'
+            ? `Summarization cancelled after ${job.processedCount} of ${job.totalCount} hosts.`
+            : `Summarization stopped after ${job.processedCount} of ${job.totalCount} hosts.`,
+        // Final list is in host order rather than completion order
+        summaries: job.status === 'completed' ? job.summaries : message.summaries,
+        streaming: false
+      }));
+      finish();
+    };
 
-        // Keep session ID for continued conversations about this data
-      } else {
+    // The job keeps running on the server if the stream drops, so follow it by polling instead
+    const pollJob = async () => {
+      const response = await ApiService.getJob(jobId);
+      if (!response.success || !response.data) {
+        updateMessage(messageId, message => ({ ...message, streaming: false }));
         addMessage({
           type: 'error',
-          content: response.error || 'Failed to generate summaries'
+          content: response.error || 'An unexpected error occurred during summarization'
         });
+        finish();
+        return;
       }
-    } catch (error) {
-      addMessage({
-        type: 'error',
-        content: 'An unexpected error occurred during summarization'
-      });
-    } finally {
-      setIsSummarizing(false);
+
+      const job = response.data;
+      if (job.status === 'running') {
+        updateMessage(messageId, message => ({
+          ...message,
+          summaries: job.summaries,
+          progress: { processed: job.processedCount, total: job.totalCount }
+        }));
+        setTimeout(pollJob, JOB_POLL_INTERVAL_MS);
+        return;
+      }
+
+      if (job.status === 'failed' && job.error) {
+        addMessage({ type: 'error', content: job.error });
+      }
+      showResult(job);
+    };
+
+    ApiService.streamJob(jobId, {
+      onProgress: ({ processedCount, totalCount }) => {
+        updateMessage(messageId, message => ({
+          ...message,
+          progress: { processed: processedCount, total: totalCount }
+        }));
+      },
+      onSummary: summary => {
+        updateMessage(messageId, message => ({
+          ...message,
+          summaries: [...(message.summaries || []), summary]
+        }));
+      },
+      onHostError: ({ ip, error }) => {
+        if (!ip) {
+          addMessage({ type: 'error', content: error });
+        }
+      },
+      onDone: showResult,
+      onConnectionError: pollJob
+    });
+
+    // Keep session ID for continued conversations about this data
+  };
+
+  const handleCancelSummarization = async () => {
+    if (summaryJobIdRef.current) {
+      await ApiService.cancelJob(summaryJobIdRef.current);
     }
   };
 
@@ -174,9 +352,26 @@ What would you like to analyze today?`,
       ]);
     }
     setCurrentSessionId('');
+    localStorage.removeItem(SESSION_STORAGE_KEY);
     setUploadError('');
   };
 
+  const handleClearConversation = async () => {
+    const response = await ApiService.clearChatHistory(currentSessionId);
+
+    if (response.success) {
+      addMessage({
+        type: 'system',
+        content: 'Conversation cleared. The assistant no longer remembers earlier questions about this file.'
+      });
+    } else {
+      addMessage({
+        type: 'error',
+        content: response.error || 'Failed to clear conversation'
+      });
+    }
+  };
+
   const handleUserMessage = async (message: string) => {
     if (!message.trim()) return;
 
@@ -196,7 +391,9 @@ What would you like to analyze today?`,
       if (response.success && response.data) {
         addMessage({
           type: 'assistant',
-          content: response.data.response
+          content: response.data.response,
+          context: response.data.context,
+          toolCalls: response.data.toolCalls
         });
       } else {
         addMessage({
@@ -235,90 +432,134 @@ What would you like to analyze today?`,
               <p className="ai-credit">Powered by Google Gemini</p>
               <p className="developer-credit">Developed by Christopher C. Parker</p>
             </div>
+            {user && user.method !== 'anonymous' && (
+              <>
+                <span>{user.userId}</span>
+                <button className="compact-new-analysis-button" onClick={handleLogout}>
+                  Sign out
+                </button>
+              </>
+            )}
           </div>
         </div>
       </header>
 
       <main className="app-main">
-        <div className="chat-container">
-          <div className="messages-container">
-            {messages.map(message => (
-              <ChatMessage key={message.id} message={message} />
-            ))}
+        {!authChecked ? (
+          <LoadingSpinner message="Checking sign-in..." />
+        ) : !user ? (
+          <LoginForm onLogin={handleLogin} isSigningIn={isSigningIn} error={loginError} />
+        ) : (
+          <div className="chat-container">
+            <div className="messages-container">
+              {messages.map(message => (
+                <ChatMessage key={message.id} message={message} />
+              ))}
             
-            {isUploading && (
-              <div className="loading-message">
-                <LoadingSpinner message={uploadStatus} />
-              </div>
-            )}
+              {isUploading && (
+                <div className="loading-message">
+                  <LoadingSpinner message={uploadStatus} />
+                </div>
+              )}
 
-            {isSummarizing && (
-              <div className="loading-message">
-                <LoadingSpinner message="Generating AI summaries for your hosts..." />
-              </div>
-            )}
-            
-            <div ref={messagesEndRef} />
-          </div>
+              <div ref={messagesEndRef} />
+            </div>
 
-          <div className="input-container">
-            {/* Combined input row with chat and upload */}
-            {messages.length > 0 && (
-              <div className="combined-input-container">
-                <form onSubmit={handleInputSubmit} className="chat-input-form">
-                  <div className="chat-input-container">
-                    <input
-                      type="text"
-                      value={userInput}
-                      onChange={(e) => setUserInput(e.target.value)}
-                      placeholder="Chat with the assistant..."
-                      className="chat-input"
-                      disabled={isChatting}
-                    />
+            <div className="input-container">
+              {/* Combined input row with chat and upload */}
+              {messages.length > 0 && (
+                <div className="combined-input-container">
+                  <form onSubmit={handleInputSubmit} className="chat-input-form">
+                    <div className="chat-input-container">
+                      <input
+                        type="text"
+                        value={userInput}
+                        onChange={(e) => setUserInput(e.target.value)}
+                        placeholder="Chat with the assistant..."
+                        className="chat-input"
+                        disabled={isChatting}
+                      />
+                      <button
+                        type="submit"
+                        className="chat-submit-button"
+                        disabled={!userInput.trim() || isChatting}
+                      >
+                        {isChatting ? '...' : 'Send'}
+                      </button>
+                    </div>
+                  </form>
+
+                  {/* Compact file upload button */}
+                  {showUpload && (
+                    <div className="compact-upload-container">
+                      <FileUpload
+                        onFileSelect={handleFileSelect}
+                        isUploading={isUploading}
+                        uploadProgress={uploadProgress}
+                        uploadStatus={uploadStatus}
+                        error=""
+                        compact={true}
+                      />
+                    </div>
+                  )}
+
+                  {/* Merge another file (e.g. the next shard of an export) into this session */}
+                  {currentSessionId && !isUploading && !isSummarizing && (
+                    <div className="compact-upload-container">
+                      <FileUpload
+                        onFileSelect={handleFileSelect}
+                        isUploading={isUploading}
+                        uploadProgress={uploadProgress}
+                        uploadStatus={uploadStatus}
+                        error=""
+                        compact={true}
+                        label="Add file"
+                      />
+                    </div>
+                  )}
+
+                  {/* Cancel running summarization */}
+                  {isSummarizing && (
                     <button
-                      type="submit"
-                      className="chat-submit-button"
-                      disabled={!userInput.trim() || isChatting}
+                      className="compact-new-analysis-button"
+                      onClick={handleCancelSummarization}
                     >
-                      {isChatting ? '...' : 'Send'}
+                      Cancel
                     </button>
-                  </div>
-                </form>
-
-                {/* Compact file upload button */}
-                {showUpload && (
-                  <div className="compact-upload-container">
-                    <FileUpload
-                      onFileSelect={handleFileSelect}
-                      isUploading={isUploading}
-                      uploadProgress={uploadProgress}
-                      uploadStatus={uploadStatus}
-                      error=""
-                      compact={true}
-                    />
-                  </div>
-                )}
-
-                {/* New analysis button */}
-                {!showUpload && !isSummarizing && (
-                  <button
-                    className="compact-new-analysis-button"
-                    onClick={handleNewAnalysis}
-                  >
-                    New File
-                  </button>
-                )}
-              </div>
-            )}
+                  )}
 
-            {/* Show error message if any */}
-            {uploadError && showUpload && (
-              <div className="upload-error-message">
-                {uploadError}
-              </div>
-            )}
+                  {/* Forget the conversation but keep the uploaded data */}
+                  {currentSessionId && !isSummarizing && (
+                    <button
+                      className="compact-new-analysis-button"
+                      onClick={handleClearConversation}
+                      disabled={isChatting}
+                    >
+                      Clear Chat
+                    </button>
+                  )}
+
+                  {/* New analysis button */}
+                  {!showUpload && !isSummarizing && (
+                    <button
+                      className="compact-new-analysis-button"
+                      onClick={handleNewAnalysis}
+                    >
+                      New File
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Show error message if any */}
+              {uploadError && showUpload && (
+                <div className="upload-error-message">
+                  {uploadError}
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
       </main>
 
       <footer className="app-footer">
@@ -1,13 +1,23 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ChatMessage as ChatMessageType } from '../types';
 import { Bot, User, AlertCircle, Info } from 'lucide-react';
 import './ChatMessage.css';
 
+const DATA_SOURCE_LABELS = {
+  censys: 'Censys',
+  shodan: 'Shodan',
+  nmap: 'Nmap'
+};
+
+const MAX_CONTEXT_HOSTS_SHOWN = 8;
+
 interface ChatMessageProps {
   message: ChatMessageType;
 }
 
 export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
+  const [sortByRisk, setSortByRisk] = useState(false);
+
   const getIcon = () => {
     switch (message.type) {
       case 'user':
@@ -35,16 +45,80 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
     });
   };
 
+  const renderProgress = () => {
+    if (!message.streaming || !message.progress) {
+      return null;
+    }
+
+    const { processed, total } = message.progress;
+    return (
+      <div className="summaries-progress">
+        {total > 0 ? `Summarized ${processed} of ${total} hosts...` : 'Starting summarization...'}
+      </div>
+    );
+  };
+
   const renderContent = () => {
-    if (message.summaries && message.summaries.length > 0) {
+    if (message.summaries && (message.summaries.length > 0 || message.streaming)) {
+      const canSort = !message.streaming && message.summaries.some(summary => summary.risk);
+      // Highest risk score first; summaries without a score keep their place at the end
+      const summaries = canSort && sortByRisk
+        ? [...message.summaries].sort((a, b) => (b.risk?.score ?? -1) - (a.risk?.score ?? -1))
+        : message.summaries;
+
       return (
         <div>
           <p>{message.content}</p>
+          {renderProgress()}
+          {canSort && (
+            <button className="sort-summaries-button" onClick={() => setSortByRisk(!sortByRisk)}>
+              {sortByRisk ? 'Show in host order' : 'Sort by risk'}
+            </button>
+          )}
           <div className="summaries-container">
-            {message.summaries.map((summary, index) => (
+            {summaries.map((summary, index) => (
               <div key={index} className="host-summary">
-                <div className="host-ip">{summary.ip}</div>
+                <div className="host-ip">
+                  {summary.ip}
+                  {summary.dataSource && summary.dataSource !== 'censys' && (
+                    <span className="host-data-source">{DATA_SOURCE_LABELS[summary.dataSource]}</span>
+                  )}
+                </div>
+                {summary.risk ? (
+                  <span
+                    className={`host-risk host-risk-${summary.risk.level}`}
+                    title={summary.risk.factors.map(factor => `${factor.description} (+${factor.points})`).join('\n')}
+                  >
+                    {summary.risk.level} risk · {summary.risk.score}/100
+                  </span>
+                ) : summary.structured && (
+                  <span className={`host-risk host-risk-${summary.structured.riskLevel}`}>
+                    {summary.structured.riskLevel} risk
+                  </span>
+                )}
+                {summary.injectionFindings && summary.injectionFindings.length > 0 && (
+                  <span
+                    className="host-injection"
+                    title={summary.injectionFindings
+                      .map(finding => `${finding.port !== undefined ? `Port ${finding.port} ` : ''}${finding.field}: "${finding.excerpt}"`)
+                      .join('\n')}
+                  >
+                    Possible prompt injection
+                  </span>
+                )}
                 <div className="host-summary-text">{summary.summary}</div>
+                {summary.corrections && summary.corrections.length > 0 && (
+                  <div className="host-corrections" title={summary.corrections.join('\n')}>
+                    {`Adjusted to match the host data (${summary.corrections.length} correction(s))`}
+                  </div>
+                )}
+                {summary.structured && summary.structured.recommendedActions.length > 0 && (
+                  <ul className="host-actions">
+                    {summary.structured.recommendedActions.map((action, actionIndex) => (
+                      <li key={actionIndex}>{action}</li>
+                    ))}
+                  </ul>
+                )}
               </div>
             ))}
           </div>
@@ -54,6 +128,44 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
     return <p>{message.content}</p>;
   };
 
+  // Which hosts the answer was based on, when only some of the session's hosts were used
+  const renderContextHosts = () => {
+    const context = message.context;
+    if (!context || context.strategy === 'all' || context.hosts.length === 0) {
+      return null;
+    }
+
+    const shown = context.hosts.slice(0, MAX_CONTEXT_HOSTS_SHOWN);
+    const more = context.hosts.length - shown.length;
+    return (
+      <div className="context-hosts">
+        {context.strategy === 'relevance' ? 'Based on the most relevant hosts' : 'No hosts matched; based on the highest-risk hosts'}
+        {` (${context.hosts.length} of ${context.totalHosts}): ${shown.join(', ')}${more > 0 ? ` and ${more} more` : ''}`}
+      </div>
+    );
+  };
+
+  // Dataset lookups behind the answer, so the numbers can be checked
+  const renderToolCalls = () => {
+    if (!message.toolCalls || message.toolCalls.length === 0) {
+      return null;
+    }
+
+    return (
+      <details className="tool-calls">
+        <summary>{`Looked up the data ${message.toolCalls.length} time(s)`}</summary>
+        {message.toolCalls.map((call, index) => (
+          <div key={index} className="tool-call">
+            <code>{`${call.name}(${JSON.stringify(call.arguments)})`}</code>
+            <pre className={call.error ? 'tool-call-error' : undefined}>
+              {call.error ? `Error: ${call.error}` : JSON.stringify(call.result, null, 2)}
+            </pre>
+          </div>
+        ))}
+      </details>
+    );
+  };
+
   return (
     <div className={getMessageClassName()}>
       <div className="message-header">
@@ -71,6 +183,8 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
       </div>
       <div className="message-content">
         {renderContent()}
+        {renderContextHosts()}
+        {renderToolCalls()}
       </div>
     </div>
   );
@@ -10,6 +10,7 @@ interface FileUploadProps {
   uploadStatus?: string;
   error?: string;
   compact?: boolean;
+  label?: string; // Compact prompt text
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({
@@ -18,7 +19,8 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   uploadProgress = 0,
   uploadStatus = 'Uploading...',
   error,
-  compact = false
+  compact = false,
+  label = 'Upload Censys/Shodan .json / .ndjson or Nmap .xml file'
 }) => {
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
@@ -29,7 +31,9 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'application/json': ['.json']
+      'application/json': ['.json'],
+      'application/x-ndjson': ['.ndjson', '.jsonl'],
+      'application/xml': ['.xml']
     },
     multiple: false,
     disabled: isUploading
@@ -49,7 +53,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             <Upload size={16} className="upload-icon-compact" />
           )}
           <span className="upload-text-compact">
-            {isUploading ? uploadStatus : 'Upload .json file'}
+            {isUploading ? uploadStatus : label}
           </span>
           {isUploading && uploadProgress > 0 && (
             <div className="progress-bar-compact">
@@ -94,7 +98,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                 <>
                   <FileText size={48} className="upload-icon" />
                   <p><strong>Click to upload</strong> or drag and drop</p>
-                  <p className="file-hint">JSON files only</p>
+                  <p className="file-hint">Censys or Shodan JSON, NDJSON (one host per line) or Nmap XML files only</p>
                 </>
               )}
             </>
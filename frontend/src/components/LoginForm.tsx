@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { KeyRound, AlertCircle } from 'lucide-react';
+import './LoginForm.css';
+
+interface LoginFormProps {
+  onLogin: (apiKey: string) => void;
+  isSigningIn: boolean;
+  error?: string;
+}
+
+export const LoginForm: React.FC<LoginFormProps> = ({
+  onLogin,
+  isSigningIn,
+  error
+}) => {
+  const [apiKey, setApiKey] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (apiKey.trim()) {
+      onLogin(apiKey.trim());
+    }
+  };
+
+  return (
+    <div className="login-container">
+      <form onSubmit={handleSubmit} className="login-form">
+        <KeyRound size={48} className="login-icon" />
+        <p><strong>Sign in</strong> with the API key you were given</p>
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="API key"
+          className="login-input"
+          autoComplete="current-password"
+          disabled={isSigningIn}
+          autoFocus
+        />
+        <button
+          type="submit"
+          className="login-button"
+          disabled={!apiKey.trim() || isSigningIn}
+        >
+          {isSigningIn ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="login-error">
+          <AlertCircle size={20} />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,23 @@
 import axios from 'axios';
-import { ApiResponse, UploadResponse, SummarizeResponse } from '../types';
+import { ApiResponse, AuthToken, AuthUser, ChatContext, ChatHistory, ChatToolInvocation, UploadResponse, SummarizeResponse, SummarizationJob, SummaryStreamHandlers } from '../types';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001/api';
 
+// Where the login token is kept; it lasts for this browser tab only
+const TOKEN_STORAGE_KEY = 'censysAuthToken';
+
+let authToken = sessionStorage.getItem(TOKEN_STORAGE_KEY) || '';
+let unauthorizedHandler: () => void = () => {};
+
+const setAuthToken = (token: string) => {
+  authToken = token;
+  if (token) {
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+};
+
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
   timeout: 30000, // 30 seconds timeout
@@ -11,16 +26,94 @@ const apiClient = axios.create({
   },
 });
 
+apiClient.interceptors.request.use(config => {
+  if (authToken) {
+    config.headers.Authorization = `Bearer ${authToken}`;
+  }
+  return config;
+});
+
+// An expired or revoked token signs the user out
+apiClient.interceptors.response.use(undefined, error => {
+  if (axios.isAxiosError(error) && error.response?.status === 401 && authToken) {
+    setAuthToken('');
+    unauthorizedHandler();
+  }
+  return Promise.reject(error);
+});
+
 export class ApiService {
+  /**
+   * Exchange the user's API key for a short-lived token used by every later request
+   */
+  static async login(apiKey: string): Promise<ApiResponse<AuthToken>> {
+    try {
+      const response = await apiClient.post('/auth/login', { apiKey });
+      setAuthToken(response.data.data.token);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          success: false,
+          error: error.response?.data?.error || 'Failed to sign in',
+          code: error.response?.data?.code,
+          retryAfterSeconds: error.response?.data?.retryAfterSeconds,
+        };
+      }
+      return {
+        success: false,
+        error: 'An unexpected error occurred while signing in',
+      };
+    }
+  }
+
+  /**
+   * Forget the login token
+   */
+  static logout(): void {
+    setAuthToken('');
+  }
+
+  /**
+   * Get the signed-in user; fails when there is no valid token (unless the server has authentication disabled)
+   */
+  static async getCurrentUser(): Promise<ApiResponse<AuthUser>> {
+    try {
+      const response = await apiClient.get('/auth/me');
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          success: false,
+          error: error.response?.data?.error || 'Not signed in',
+          code: error.response?.data?.code,
+        };
+      }
+      return {
+        success: false,
+        error: 'An unexpected error occurred while checking the sign-in',
+      };
+    }
+  }
+
+  /**
+   * Register what to do when the server rejects the login token (e.g. once it expires)
+   */
+  static onUnauthorized(handler: () => void): void {
+    unauthorizedHandler = handler;
+  }
+
   /**
    * Upload a file to the backend for processing
    */
-  static async uploadFile(file: File): Promise<ApiResponse<UploadResponse>> {
+  static async uploadFile(file: File, sessionId?: string): Promise<ApiResponse<UploadResponse>> {
     const formData = new FormData();
     formData.append('file', file);
 
     try {
-      const response = await apiClient.post('/upload', formData, {
+      // With a session, the file is merged into it instead of starting a new one
+      const url = sessionId ? `/sessions/${encodeURIComponent(sessionId)}/files` : '/upload';
+      const response = await apiClient.post(url, formData, {
         headers: {
           'Content-Type': 'multipart/form-data',
         },
@@ -42,7 +135,7 @@ export class ApiService {
   }
 
   /**
-   * Request summarization for uploaded data
+   * Start a background summarization job for uploaded data
    */
   static async summarizeData(sessionId: string): Promise<ApiResponse<SummarizeResponse>> {
     try {
@@ -50,9 +143,12 @@ export class ApiService {
       return response.data;
     } catch (error) {
       if (axios.isAxiosError(error)) {
+        // Keep the code and wait time of 429s (rate limit or LLM quota) for the UI
         return {
           success: false,
           error: error.response?.data?.error || 'Failed to generate summaries',
+          code: error.response?.data?.code,
+          retryAfterSeconds: error.response?.data?.retryAfterSeconds,
         };
       }
       return {
@@ -62,6 +158,95 @@ export class ApiService {
     }
   }
 
+  /**
+   * Receive each host summary of a job started with summarizeData as it completes.
+   * Resolves to a function that closes the stream.
+   */
+  static async streamJob(jobId: string, handlers: SummaryStreamHandlers): Promise<() => void> {
+    // EventSource can't send headers, so the stream is opened with a single-use ticket instead of the token
+    let ticket: string;
+    try {
+      const response = await apiClient.post('/auth/stream-ticket');
+      ticket = response.data.data.ticket;
+    } catch (error) {
+      handlers.onConnectionError();
+      return () => {};
+    }
+
+    const source = new EventSource(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/events?ticket=${encodeURIComponent(ticket)}`);
+    let finished = false;
+
+    source.addEventListener('progress', event => {
+      handlers.onProgress(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('summary', event => {
+      handlers.onSummary(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('done', event => {
+      finished = true;
+      source.close();
+      handlers.onDone(JSON.parse((event as MessageEvent).data));
+    });
+
+    // Server-sent error events carry data; connection failures do not
+    source.addEventListener('error', event => {
+      const data = (event as MessageEvent).data;
+      if (data) {
+        handlers.onHostError(JSON.parse(data));
+      } else if (!finished) {
+        finished = true;
+        source.close();
+        handlers.onConnectionError();
+      }
+    });
+
+    return () => source.close();
+  }
+
+  /**
+   * Get status, progress and partial results of a summarization job
+   */
+  static async getJob(jobId: string): Promise<ApiResponse<SummarizationJob>> {
+    try {
+      const response = await apiClient.get(`/jobs/${jobId}`);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          success: false,
+          error: error.response?.data?.error || 'Failed to get job status',
+        };
+      }
+      return {
+        success: false,
+        error: 'An unexpected error occurred while checking job status',
+      };
+    }
+  }
+
+  /**
+   * Cancel a running summarization job
+   */
+  static async cancelJob(jobId: string): Promise<ApiResponse<SummarizationJob>> {
+    try {
+      const response = await apiClient.delete(`/jobs/${jobId}`);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          success: false,
+          error: error.response?.data?.error || 'Failed to cancel job',
+        };
+      }
+      return {
+        success: false,
+        error: 'An unexpected error occurred while cancelling the job',
+      };
+    }
+  }
+
   /**
    * Check if the API is available
    */
@@ -74,10 +259,52 @@ export class ApiService {
     }
   }
 
+  /**
+   * Get the conversation so far for a session
+   */
+  static async getChatHistory(sessionId: string): Promise<ApiResponse<ChatHistory>> {
+    try {
+      const response = await apiClient.get(`/sessions/${encodeURIComponent(sessionId)}/chat`);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          success: false,
+          error: error.response?.data?.error || 'Failed to load conversation',
+        };
+      }
+      return {
+        success: false,
+        error: 'An unexpected error occurred while loading the conversation',
+      };
+    }
+  }
+
+  /**
+   * Forget the conversation for a session so the assistant starts fresh
+   */
+  static async clearChatHistory(sessionId: string): Promise<ApiResponse<{ sessionId: string; clearedCount: number }>> {
+    try {
+      const response = await apiClient.delete(`/sessions/${encodeURIComponent(sessionId)}/chat`);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          success: false,
+          error: error.response?.data?.error || 'Failed to clear conversation',
+        };
+      }
+      return {
+        success: false,
+        error: 'An unexpected error occurred while clearing the conversation',
+      };
+    }
+  }
+
   /**
    * Send a chat message and get AI response
    */
-  static async sendChatMessage(message: string, sessionId?: string): Promise<ApiResponse<{ response: string }>> {
+  static async sendChatMessage(message: string, sessionId?: string): Promise<ApiResponse<{ response: string; context?: ChatContext; toolCalls?: ChatToolInvocation[] }>> {
     try {
       const response = await apiClient.post('/chat', { message, sessionId });
       return response.data;
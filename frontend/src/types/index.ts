@@ -1,26 +1,118 @@
+export type RiskLevel = 'critical' | 'high' | 'medium' | 'low' | 'none';
+
+export interface StructuredHostSummary {
+  riskLevel: RiskLevel;
+  keyServices: Array<{ port: number; service: string; software?: string; note?: string }>;
+  notableCVEs: Array<{ cveId: string; cvssScore?: number; note?: string }>;
+  certificateFindings: string[];
+  operatingSystem: string | null;
+  recommendedActions: string[];
+  narrative: string;
+}
+
+export interface HostRiskScore {
+  score: number;
+  level: RiskLevel;
+  factors: Array<{ category: string; description: string; points: number }>;
+}
+
 export interface HostSummary {
   ip: string;
   summary: string;
+  source?: 'llm' | 'rule-based';
+  dataSource?: 'censys' | 'shodan' | 'nmap';
+  structured?: StructuredHostSummary;
+  risk?: HostRiskScore;
+  injectionFindings?: Array<{ port?: number; field: string; pattern: string; excerpt: string }>;
+  corrections?: string[];
 }
 
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: string; // Machine-readable error code, e.g. LLM_QUOTA_EXCEEDED
+  retryAfterSeconds?: number; // Set on 429 responses
   message?: string;
 }
 
+export interface AuthToken {
+  token: string;
+  userId: string;
+  expiresAt: string;
+}
+
+export interface AuthUser {
+  userId: string;
+  method: 'api-key' | 'jwt' | 'stream-ticket' | 'anonymous';
+}
+
 export interface UploadResponse {
   sessionId: string;
   hostCount: number;
   filename: string;
+  format?: 'json' | 'ndjson' | 'xml';
+  sourceFormat?: string;
+  skippedLines?: number;
+  lineErrors?: Array<{ line: number; error: string }>;
   shouldSummarize?: boolean;
+  files?: Array<{ filename: string; uploadedAt: string; hostCount: number }>;
+  merge?: HostMergeReport;
+}
+
+export interface HostMergeReport {
+  hostsBefore: number;
+  hostsReceived: number;
+  hostsAdded: number;
+  hostsMerged: number;
+  duplicateHosts: number;
+  conflicts: number;
+  hostsAfter: number;
+  conflictDetails: Array<{ ip: string; field: string; kept: 'existing' | 'incoming' }>;
 }
 
 export interface SummarizeResponse {
-  summaries: HostSummary[];
+  jobId: string;
+  status: JobStatus;
+  totalCount: number;
+}
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SummarizationJob {
+  id: string;
+  sessionId: string;
+  status: JobStatus;
   processedCount: number;
   totalCount: number;
+  summaries: HostSummary[];
+  error?: string;
+  quotaExceeded?: {
+    limit: string;
+    retryAfterSeconds: number;
+  };
+}
+
+export interface ChatHistory {
+  sessionId: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: string;
+    timestamp: string;
+  }>;
+}
+
+export interface ChatContext {
+  strategy: 'all' | 'relevance' | 'risk';
+  hosts: string[];
+  totalHosts: number;
+}
+
+export interface ChatToolInvocation {
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
 }
 
 export interface ChatMessage {
@@ -29,4 +121,19 @@ export interface ChatMessage {
   content: string;
   timestamp: Date;
   summaries?: HostSummary[];
+  progress?: {
+    processed: number;
+    total: number;
+  };
+  streaming?: boolean;
+  context?: ChatContext; // Hosts the assistant was given to answer this message
+  toolCalls?: ChatToolInvocation[]; // Dataset lookups the assistant made for this message
+}
+
+export interface SummaryStreamHandlers {
+  onProgress: (progress: { jobId: string; processedCount: number; totalCount: number }) => void;
+  onSummary: (summary: HostSummary) => void;
+  onHostError: (error: { ip?: string; error: string }) => void;
+  onDone: (job: SummarizationJob) => void;
+  onConnectionError: () => void;
 }
\ No newline at end of file